@@ -16,22 +16,68 @@ module.exports = {
     apiKey: process.env.OPENAI_API_KEY,
     enabled: !!process.env.OPENAI_API_KEY
   },
+
+  translation: {
+    // Порядок провайдеров: запрос обслуживает первый доступный, остальные - запасные.
+    // Без ключа OpenAI по умолчанию работает офлайн-провайдер local
+    providers: (process.env.TRANSLATION_PROVIDERS || (process.env.OPENAI_API_KEY ? 'openai' : 'local'))
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean),
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    // Проверка обратным переводом: ниже этого балла смысл, вероятно, искажён
+    verifyThreshold: parseFloat(process.env.TRANSLATION_VERIFY_THRESHOLD) || 0.8,
+    // Сколько символов предыдущих реплик передаётся модели как контекст
+    contextMaxChars: parseInt(process.env.TRANSLATION_CONTEXT_MAX_CHARS, 10) || 1500
+  },
   
   paths: {
     temp: process.env.TEMP_DIR || 'temp',
     tmp: process.env.TMP_DIR || 'tmp',
     uploads: process.env.UPLOAD_DIR || 'uploads',
-    cache: process.env.CACHE_DIR || 'cache'
+    cache: process.env.CACHE_DIR || 'cache',
+    // Данные пользователей (глоссарии)
+    data: process.env.DATA_DIR || 'data'
   },
   
   limits: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024, // 10MB
-    cacheMaxSize: parseInt(process.env.CACHE_MAX_SIZE) || 1000
+    cacheMaxSize: parseInt(process.env.CACHE_MAX_SIZE) || 1000,
+    // Время жизни перевода в кэше, мс
+    cacheTtl: parseInt(process.env.CACHE_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+    // Как часто сохранять кэш на диск, мс (0 - не сохранять)
+    cacheSnapshotInterval: process.env.CACHE_SNAPSHOT_INTERVAL_MS !== undefined
+      ? parseInt(process.env.CACHE_SNAPSHOT_INTERVAL_MS) || 0
+      : 5 * 60 * 1000,
+    // Сколько последних сообщений комнаты хранить для опоздавших и переподключившихся
+    roomBacklogSize: parseInt(process.env.ROOM_BACKLOG_SIZE) || 100,
+    // Сколько хранить журнал опустевшей комнаты, мс
+    roomBacklogTtl: parseInt(process.env.ROOM_BACKLOG_TTL_MS) || 10 * 60 * 1000
   },
   
+  rooms: {
+    // Ключ подписи приглашений; без него - случайный, приглашения не переживут перезапуск
+    secret: process.env.ROOM_SECRET || null,
+    // Срок приглашения по умолчанию, мс
+    inviteTtl: parseInt(process.env.ROOM_INVITE_TTL_MS) || 24 * 60 * 60 * 1000,
+    // Токен владельца и сама защищённая комната живут столько без входов, мс
+    ownerTtl: parseInt(process.env.ROOM_OWNER_TTL_MS) || 30 * 24 * 60 * 60 * 1000
+  },
+
+  auth: {
+    // Необязательная защита HTTP API: ключи для X-API-Key и/или секрет JWT (HS256)
+    apiKeys: (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+    jwtSecret: process.env.JWT_SECRET || null
+  },
+
+  admin: {
+    // Без токена административные endpoints отключены
+    token: process.env.ADMIN_TOKEN || null
+  },
+
   cors: {
     origin: process.env.CORS_ORIGIN || '*',
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
   }
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+const crypto = require('crypto');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+// Сравнение за постоянное время - длина токена не должна угадываться по таймингу
+function tokensEqual(given, expected) {
+  const givenHash = crypto.createHash('sha256').update(given).digest();
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(givenHash, expectedHash);
+}
+
+/**
+ * Доступ к административным endpoints: Authorization: Bearer <ADMIN_TOKEN>.
+ * Если ADMIN_TOKEN не задан, они отключены.
+ */
+function requireAdmin(req, res, next) {
+  if (!config.admin.token) {
+    return res.status(503).json({
+      status: 'error',
+      message: 'Администрирование отключено: не задан ADMIN_TOKEN'
+    });
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+  if (scheme !== 'Bearer' || !token || !tokensEqual(token, config.admin.token)) {
+    logger.warn(`Admin access denied: ${req.method} ${req.path} from ${req.ip}`);
+    return res.status(401).json({
+      status: 'error',
+      message: 'Неверный токен администратора'
+    });
+  }
+
+  next();
+}
+
+/**
+ * Проверка JWT HS256 без сторонних библиотек: подпись и срок (exp).
+ * @returns {object|null} claims или null
+ */
+function verifyJwt(token, secret) {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    if (alg !== 'HS256') return null;
+
+    const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+    if (!tokensEqual(signature, expected)) return null;
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (claims.exp !== undefined && claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Необязательная защита HTTP API: если заданы API_KEYS и/или JWT_SECRET,
+ * запрос должен нести X-API-Key из списка или Authorization: Bearer <JWT>.
+ * Без настроек пропускает всех.
+ */
+function requireApiAuth(req, res, next) {
+  const { apiKeys, jwtSecret } = config.auth;
+  if (apiKeys.length === 0 && !jwtSecret) return next();
+
+  const apiKey = req.get('X-API-Key');
+  if (apiKey && apiKeys.some(key => tokensEqual(apiKey, key))) {
+    return next();
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+  if (jwtSecret && scheme === 'Bearer' && token) {
+    const claims = verifyJwt(token, jwtSecret);
+    if (claims) {
+      req.user = claims;
+      return next();
+    }
+  }
+
+  logger.warn(`API access denied: ${req.method} ${req.path} from ${req.ip}`);
+  return res.status(401).json({
+    status: 'error',
+    message: 'Нужен действительный API-ключ или токен'
+  });
+}
+
+module.exports = { requireAdmin, requireApiAuth };
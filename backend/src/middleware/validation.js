@@ -1,15 +1,38 @@
 const Joi = require('joi');
 const logger = require('../utils/logger');
+const { ttsService } = require('../services/textToSpeechService');
+const { REGISTERS, ADDRESSEE_GENDERS } = require('../services/translationStyle');
+
+// Пара языков, глоссарий и обращение - общие для одиночного и пакетного перевода
+const translationFields = {
+  source_language: Joi.string().length(2).uppercase().optional(),
+  target_language: Joi.string().length(2).uppercase().optional(),
+  fromLang: Joi.string().length(2).uppercase().optional(),
+  toLang: Joi.string().length(2).uppercase().optional(),
+  from: Joi.string().length(2).uppercase().optional(),
+  to: Joi.string().length(2).uppercase().optional(),
+  glossary_id: Joi.string().max(64).optional(),
+  // Обращение к читателю перевода
+  register: Joi.string().valid(...REGISTERS).optional(),
+  addressee_gender: Joi.string().valid(...ADDRESSEE_GENDERS).optional()
+};
+
+// Пакетный перевод: не больше сегментов и символов, чем модель переведёт за несколько запросов
+const BATCH_MAX_SEGMENTS = 100;
+const BATCH_MAX_TOTAL_CHARS = 20000;
 
 function validateTranslation(req, res, next) {
   const schema = Joi.object({
     text: Joi.string().required().min(1).max(5000),
-    source_language: Joi.string().length(2).uppercase().optional(),
-    target_language: Joi.string().length(2).uppercase().optional(),
-    fromLang: Joi.string().length(2).uppercase().optional(),
-    toLang: Joi.string().length(2).uppercase().optional(),
-    from: Joi.string().length(2).uppercase().optional(),
-    to: Joi.string().length(2).uppercase().optional()
+    ...translationFields,
+    // Проверка обратным переводом
+    verify: Joi.boolean().optional(),
+    // Предыдущие реплики разговора, от старых к новым
+    context: Joi.array().max(20).items(Joi.object({
+      speaker: Joi.string().allow('').max(100).optional(),
+      language: Joi.string().length(2).optional(),
+      text: Joi.string().required().min(1).max(5000)
+    })).optional()
   });
 
   const { error } = schema.validate(req.body);
@@ -25,6 +48,33 @@ function validateTranslation(req, res, next) {
   next();
 }
 
+function validateBatchTranslation(req, res, next) {
+  const schema = Joi.object({
+    segments: Joi.array()
+      .items(Joi.string().trim().min(1).max(5000))
+      .min(1)
+      .max(BATCH_MAX_SEGMENTS)
+      .required()
+      .custom((segments, helpers) => {
+        const total = segments.reduce((sum, segment) => sum + segment.length, 0);
+        return total > BATCH_MAX_TOTAL_CHARS ? helpers.message(`"segments" must be at most ${BATCH_MAX_TOTAL_CHARS} characters in total`) : segments;
+      }),
+    ...translationFields
+  });
+
+  const { error } = schema.validate(req.body);
+
+  if (error) {
+    logger.warn('Validation error:', error.details[0].message);
+    return res.status(400).json({
+      status: 'error',
+      message: error.details[0].message
+    });
+  }
+
+  next();
+}
+
 function validateLanguageDetection(req, res, next) {
   const schema = Joi.object({
     text: Joi.string().required().min(1).max(5000)
@@ -42,7 +92,88 @@ function validateLanguageDetection(req, res, next) {
   next();
 }
 
+const glossaryEntry = Joi.object({
+  source: Joi.string().trim().required().min(1).max(200),
+  target: Joi.string().trim().required().min(1).max(200),
+  note: Joi.string().allow('').max(500).optional()
+});
+
+const glossaryFields = {
+  name: Joi.string().trim().min(1).max(100),
+  source_language: Joi.string().length(2),
+  target_language: Joi.string().length(2),
+  entries: Joi.array().items(glossaryEntry).max(500)
+};
+
+// Создание - все поля, кроме entries; правка - любое подмножество
+function validateGlossary(req, res, next) {
+  const schema = req.method === 'POST'
+    ? Joi.object({
+      ...glossaryFields,
+      name: glossaryFields.name.required(),
+      source_language: glossaryFields.source_language.required(),
+      target_language: glossaryFields.target_language.required().invalid(Joi.ref('source_language')).insensitive()
+    })
+    : Joi.object(glossaryFields).min(1);
+
+  const { error } = schema.validate(req.body);
+
+  if (error) {
+    logger.warn('Validation error:', error.details[0].message);
+    return res.status(400).json({
+      status: 'error',
+      message: error.details[0].message
+    });
+  }
+
+  next();
+}
+
+function validateSpeech(req, res, next) {
+  const schema = Joi.object({
+    text: Joi.string().required().min(1).max(4096),
+    language: Joi.string().length(2).optional(),
+    voice: Joi.string().valid(...ttsService.getAvailableVoices()).optional(),
+    speed: Joi.number().min(0.25).max(4.0).optional(),
+    model: Joi.string().valid('standard', 'hd').optional()
+  });
+
+  const { error } = schema.validate(req.body);
+
+  if (error) {
+    logger.warn('Validation error:', error.details[0].message);
+    return res.status(400).json({
+      status: 'error',
+      message: error.details[0].message
+    });
+  }
+
+  next();
+}
+
+function validateCachePurge(req, res, next) {
+  const schema = Joi.object({
+    source_language: Joi.string().length(2).optional(),
+    target_language: Joi.string().length(2).optional()
+  });
+
+  const { error } = schema.validate(req.query);
+
+  if (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error.details[0].message
+    });
+  }
+
+  next();
+}
+
 module.exports = {
   validateTranslation,
-  validateLanguageDetection
+  validateBatchTranslation,
+  validateLanguageDetection,
+  validateSpeech,
+  validateGlossary,
+  validateCachePurge
 };
\ No newline at end of file
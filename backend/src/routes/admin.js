@@ -0,0 +1,29 @@
+const express = require('express');
+const router = express.Router();
+const { requireAdmin } = require('../middleware/auth');
+const { validateCachePurge } = require('../middleware/validation');
+const cache = require('../utils/cache');
+
+/**
+ * Очистка кэша переводов: ?source_language=PL&target_language=DE -
+ * одна пара, без одного из языков - все пары с другим, без обоих - весь кэш.
+ */
+router.delete('/admin/cache', requireAdmin, validateCachePurge, async (req, res, next) => {
+  try {
+    const { source_language: source = null, target_language: target = null } = req.query;
+    const removed = cache.purge(source, target);
+    await cache.saveSnapshot();
+
+    res.json({
+      status: 'success',
+      removed,
+      source_language: source && source.toUpperCase(),
+      target_language: target && target.toUpperCase(),
+      cache: cache.getStats()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
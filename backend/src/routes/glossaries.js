@@ -0,0 +1,73 @@
+const express = require('express');
+const router = express.Router();
+const { validateGlossary } = require('../middleware/validation');
+const glossaryService = require('../services/glossaryService');
+
+function notFound(res) {
+  return res.status(404).json({
+    status: 'error',
+    message: 'Глоссарий не найден'
+  });
+}
+
+// Список без терминов - для выбора глоссария; термины - в GET /glossaries/:id
+router.get('/glossaries', (req, res) => {
+  const glossaries = glossaryService.list().map(({ entries, ...glossary }) => ({
+    ...glossary,
+    entry_count: entries.length
+  }));
+
+  res.json({
+    status: 'success',
+    count: glossaries.length,
+    glossaries
+  });
+});
+
+router.get('/glossaries/:id', (req, res) => {
+  const glossary = glossaryService.get(req.params.id);
+  if (!glossary) return notFound(res);
+
+  res.json({ status: 'success', glossary });
+});
+
+router.post('/glossaries', validateGlossary, async (req, res, next) => {
+  try {
+    const glossary = await glossaryService.create(req.body);
+    res.status(201).json({ status: 'success', glossary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/glossaries/:id', validateGlossary, async (req, res, next) => {
+  try {
+    const existing = glossaryService.get(req.params.id);
+    if (!existing) return notFound(res);
+
+    const source = (req.body.source_language || existing.source_language).toUpperCase();
+    const target = (req.body.target_language || existing.target_language).toUpperCase();
+    if (source === target) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Языки глоссария должны различаться'
+      });
+    }
+
+    const glossary = await glossaryService.update(req.params.id, req.body);
+    res.json({ status: 'success', glossary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/glossaries/:id', async (req, res, next) => {
+  try {
+    if (!await glossaryService.remove(req.params.id)) return notFound(res);
+    res.json({ status: 'success', id: req.params.id });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -2,7 +2,8 @@ const express = require('express');
 const router = express.Router();
 const config = require('../config');
 const cache = require('../utils/cache');
-const { clientManager } = require('../websocket');
+const { providerChain } = require('../services/providers');
+const { clientManager, roomManager } = require('../websocket');
 
 router.get('/health', (req, res) => {
   res.json({
@@ -12,6 +13,7 @@ router.get('/health', (req, res) => {
     websocket_clients: clientManager.getClientCount(),
     cache_size: cache.getSize(),
     openai_configured: config.openai.enabled,
+    translation_providers: providerChain.names,
     uptime: process.uptime(),
     memory_usage: process.memoryUsage(),
     timestamp: new Date().toISOString()
@@ -23,7 +25,9 @@ router.get('/stats', (req, res) => {
     status: 'success',
     stats: {
       cache_size: cache.getSize(),
+      cache: cache.getStats(),
       websocket_clients: clientManager.getClientCount(),
+      active_rooms: roomManager.getRoomCount(),
       uptime: process.uptime(),
       memory_usage: process.memoryUsage(),
       version: '3.0.0'
@@ -2,20 +2,30 @@ const express = require('express');
 const healthRoutes = require('./health');
 const translationRoutes = require('./translation');
 const voiceRoutes = require('./voice');
+const speechRoutes = require('./speech');
+const glossaryRoutes = require('./glossaries');
 const languagesRoutes = require('./languages');
+const adminRoutes = require('./admin');
+const { requireApiAuth } = require('../middleware/auth');
+
+// Префиксы путей translation, voice, speech, glossaries и languages
+const PROTECTED_PATHS = [
+  '/translate',
+  '/voice-translate',
+  '/transcribe',
+  '/speech',
+  '/voices',
+  '/glossaries',
+  '/languages',
+  '/detect-language'
+];
 
 function setupRoutes(app) {
   // Health & stats
   app.use('/', healthRoutes);
-  
-  // Translation
-  app.use('/', translationRoutes);
-  
-  // Voice
-  app.use('/', voiceRoutes);
-  
-  // Languages
-  app.use('/', languagesRoutes);
+
+  // Admin - защищён своим токеном
+  app.use('/', adminRoutes);
   
   // Root endpoint
   app.get('/', (req, res) => {
@@ -25,8 +35,14 @@ function setupRoutes(app) {
       status: 'running',
       endpoints: [
         '/health',
-        '/translate', 
+        '/translate',
+        '/translate/stream',
+        '/translate/batch',
         '/voice-translate',
+        '/transcribe',
+        '/speech',
+        '/voices',
+        '/glossaries',
         '/detect-language',
         '/languages',
         '/stats'
@@ -35,6 +51,25 @@ function setupRoutes(app) {
     });
   });
   
+  // Эти пути - только с API-ключом или JWT, если они настроены.
+  // Неизвестные пути проверку не проходят и получают 404
+  app.use(PROTECTED_PATHS, requireApiAuth);
+
+  // Translation
+  app.use('/', translationRoutes);
+  
+  // Voice
+  app.use('/', voiceRoutes);
+
+  // Text-to-Speech
+  app.use('/', speechRoutes);
+
+  // Glossaries
+  app.use('/', glossaryRoutes);
+  
+  // Languages
+  app.use('/', languagesRoutes);
+  
   // 404 handler
   app.use((req, res) => {
     res.status(404).json({
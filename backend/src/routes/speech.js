@@ -0,0 +1,51 @@
+const express = require('express');
+const router = express.Router();
+const logger = require('../utils/logger');
+const { validateSpeech } = require('../middleware/validation');
+const { translationLimiter } = require('../middleware/rateLimit');
+const { ttsService } = require('../services/textToSpeechService');
+
+/**
+ * Озвучка текста голосом OpenAI. Файл отдаётся через /audio,
+ * без ключа OpenAI (provider: mock-tts) - тишина, клиент озвучивает сам.
+ */
+router.post('/speech',
+  translationLimiter,
+  validateSpeech,
+  async (req, res, next) => {
+    try {
+      const { text, language = 'en', voice = null, speed = 1.0, model = 'standard' } = req.body;
+
+      logger.info(`Speech: ${language.toLowerCase()}, voice ${voice || 'auto'}, speed ${speed}`);
+
+      const result = await ttsService.generateSpeech(text.trim(), language.toLowerCase(), voice, model, speed);
+
+      res.json({
+        status: 'success',
+        audioUrl: result.audioUrl,
+        language: result.language,
+        voice: result.voice,
+        duration: result.duration,
+        processingTime: result.processingTime,
+        provider: result.provider
+      });
+
+    } catch (error) {
+      next(error);
+    }
+});
+
+// Голоса и голос по умолчанию для каждого языка
+router.get('/voices', (req, res) => {
+  const languages = ttsService.getSupportedLanguages();
+  res.json({
+    status: 'success',
+    enabled: ttsService.isEnabled(),
+    voices: ttsService.getAvailableVoices(),
+    languages: Object.fromEntries(
+      Object.entries(languages).map(([code, { name, voice }]) => [code, { name, defaultVoice: voice }])
+    )
+  });
+});
+
+module.exports = router;
@@ -1,71 +1,173 @@
 const express = require('express');
 const router = express.Router();
 const logger = require('../utils/logger');
-const cache = require('../utils/cache');
-const { validateTranslation } = require('../middleware/validation');
+const { validateTranslation, validateBatchTranslation } = require('../middleware/validation');
 const { translationLimiter } = require('../middleware/rateLimit');
 const { UnifiedTranslationService } = require('../services/unifiedTranslationService');
+const { translateWithCache, translateWithCacheStream, translateBatchWithCache } = require('../services/cachedTranslation');
+const glossaryService = require('../services/glossaryService');
 
 const translationService = new UnifiedTranslationService();
 
-router.post('/translate', 
+// source_language / fromLang / from - синонимы, как и для целевого языка
+function resolveLanguages(body) {
+  return {
+    sourceCode: (body.source_language || body.fromLang || body.from || 'RU').toUpperCase(),
+    targetCode: (body.target_language || body.toLang || body.to || 'DE').toUpperCase()
+  };
+}
+
+// register / addressee_gender - обращение к читателю перевода
+function resolveStyleOptions(body) {
+  return { register: body.register, addresseeGender: body.addressee_gender };
+}
+
+// Неподдерживаемая пара - ошибка клиента: проверяем до кэша и провайдеров
+function checkLanguages(req, res, next) {
+  const { sourceCode, targetCode } = resolveLanguages(req.body);
+  const unsupported = [sourceCode, targetCode].find(code => !translationService.supportedLanguages[code]);
+  if (unsupported) {
+    return res.status(400).json({
+      status: 'error',
+      message: `Unsupported language: ${unsupported}`
+    });
+  }
+  next();
+}
+
+// Неизвестный глоссарий - ошибка клиента, а не перевод без терминов
+function checkGlossary(req, res, next) {
+  const { glossary_id: glossaryId } = req.body;
+  if (glossaryId && !glossaryService.get(glossaryId)) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'Глоссарий не найден'
+    });
+  }
+  next();
+}
+
+router.post('/translate',
   translationLimiter,
   validateTranslation,
+  checkLanguages,
+  checkGlossary,
   async (req, res, next) => {
     try {
-      const startTime = Date.now();
-      
-      const { 
-        text, 
-        source_language = 'RU', 
-        target_language = 'DE',
-        fromLang,
-        toLang,
-        from,
-        to
-      } = req.body;
-
-      const sourceCode = (source_language || fromLang || from || 'RU').toUpperCase();
-      const targetCode = (target_language || toLang || to || 'DE').toUpperCase();
-
-      // Check cache
-      const cached = cache.get(text, sourceCode, targetCode);
-      if (cached) {
-        return res.json({
-          ...cached,
-          from_cache: true,
-          processing_time: Date.now() - startTime
-        });
-      }
+      const { text, glossary_id: glossaryId, verify, context } = req.body;
+      const { sourceCode, targetCode } = resolveLanguages(req.body);
+      const style = resolveStyleOptions(req.body);
+
+      const response = await translateWithCache(translationService, text, sourceCode, targetCode, { glossaryId, style, context, verify });
+
+      res.json(response);
 
-      // Translate
-      const result = await translationService.translateText(
-        text.trim(), 
-        sourceCode, 
-        targetCode
+    } catch (error) {
+      next(error);
+    }
+});
+
+/**
+ * Пакетный перевод: сегменты с общей парой языков - один запрос к API,
+ * кэш по каждому сегменту, результаты в порядке сегментов. Сегмент,
+ * который не перевёлся, - status: 'error' в своём результате, а не ошибка всего запроса.
+ */
+router.post('/translate/batch',
+  translationLimiter,
+  validateBatchTranslation,
+  checkLanguages,
+  checkGlossary,
+  async (req, res, next) => {
+    try {
+      const { segments, glossary_id: glossaryId } = req.body;
+      const { sourceCode, targetCode } = resolveLanguages(req.body);
+      const style = resolveStyleOptions(req.body);
+
+      const { results, providerCalls, processingTime } = await translateBatchWithCache(
+        translationService,
+        segments,
+        sourceCode,
+        targetCode,
+        { glossaryId, style }
       );
 
-      const response = {
+      res.json({
         status: 'success',
-        original_text: result.originalText,
-        translated_text: result.translatedText,
         source_language: sourceCode.toLowerCase(),
         target_language: targetCode.toLowerCase(),
-        confidence: result.confidence,
-        timestamp: new Date().toISOString(),
-        processing_time: result.processingTime,
-        provider: result.provider,
-        from_cache: false
-      };
+        results,
+        summary: {
+          segments: results.length,
+          from_cache: results.filter(result => result.from_cache).length,
+          failed: results.filter(result => result.status === 'error').length,
+          provider_calls: providerCalls
+        },
+        processing_time: processingTime,
+        timestamp: new Date().toISOString()
+      });
 
-      // Save to cache
-      cache.set(text, sourceCode, targetCode, response);
+    } catch (error) {
+      next(error);
+    }
+});
 
-      res.json(response);
+/**
+ * Потоковый перевод через Server-Sent Events:
+ *   event: chunk  data: { "text": "..." }        - очередной кусок перевода
+ *   event: final  data: { ...ответ /translate }  - итог с provider, processing_time, from_cache
+ *   event: error  data: { "status": "error", "message": "..." }
+ */
+router.post('/translate/stream',
+  translationLimiter,
+  validateTranslation,
+  checkLanguages,
+  checkGlossary,
+  async (req, res) => {
+    const { text, glossary_id: glossaryId, verify, context } = req.body;
+    const { sourceCode, targetCode } = resolveLanguages(req.body);
+    const style = resolveStyleOptions(req.body);
 
+    // Клиент ушёл - прекращаем генерацию, чтобы не тратить токены
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abortController.abort();
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      // no-transform - иначе compression буферизует поток
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const sendEvent = (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const response = await translateWithCacheStream(
+        translationService,
+        text,
+        sourceCode,
+        targetCode,
+        chunk => sendEvent('chunk', { text: chunk }),
+        { signal: abortController.signal, glossaryId, style, context, verify }
+      );
+      sendEvent('final', response);
     } catch (error) {
-      next(error);
+      if (abortController.signal.aborted) {
+        logger.debug(`Streaming translation aborted by client: ${sourceCode} → ${targetCode}`);
+        return;
+      }
+      logger.error('Streaming translation failed:', error.message);
+      sendEvent('error', {
+        status: 'error',
+        message: error.message,
+        timestamp: new Date().toISOString()
+      });
     }
+    res.end();
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
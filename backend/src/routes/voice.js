@@ -17,15 +17,11 @@ router.post('/voice-translate', upload.single('audio'), async (req, res, next) =
       });
     }
 
-    const { 
-      fromLang = 'RU', 
-      toLang = 'DE',
-      source_language = 'RU',
-      target_language = 'DE'
-    } = req.body;
+    const { fromLang, toLang, source_language, target_language } = req.body;
 
-    const sourceCode = (fromLang || source_language).toUpperCase();
-    const targetCode = (toLang || target_language).toUpperCase();
+    // Значения по умолчанию не должны перекрывать синонимы
+    const sourceCode = (fromLang || source_language || 'RU').toUpperCase();
+    const targetCode = (toLang || target_language || 'DE').toUpperCase();
 
     logger.info(`Voice translation: ${sourceCode} → ${targetCode}`);
 
@@ -44,7 +40,8 @@ router.post('/voice-translate', upload.single('audio'), async (req, res, next) =
       toLanguage: result.toLanguage,
       processingTime: result.processingTime,
       confidence: result.confidence,
-      provider: result.provider
+      provider: result.provider,
+      transcriptionProvider: result.transcriptionProvider
     });
 
     // Cleanup
@@ -60,4 +57,32 @@ router.post('/voice-translate', upload.single('audio'), async (req, res, next) =
   }
 });
 
+// Распознавание без перевода: клиент переводит текст сам, как результат Web Speech API
+router.post('/transcribe', upload.single('audio'), async (req, res, next) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Аудио файл не загружен'
+      });
+    }
+
+    const language = (req.body.language || 'RU').toUpperCase();
+    const result = await translationService.transcribeVoice(req.file.path, language);
+
+    res.json({
+      status: 'success',
+      text: result.text,
+      language: result.language,
+      provider: result.provider
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    if (req.file && fs.existsSync(req.file.path)) {
+      fs.unlinkSync(req.file.path);
+    }
+  }
+});
+
 module.exports = router;
\ No newline at end of file
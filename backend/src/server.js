@@ -24,6 +24,7 @@ const { setupWebSocket } = require('./websocket');
 // Utils
 const logger = require('./utils/logger');
 const { cleanupTempFiles } = require('./utils/fileCleanup');
+const cache = require('./utils/cache');
 
 class DashkaBotServer {
   constructor() {
@@ -98,7 +99,8 @@ class DashkaBotServer {
     this.server.close(() => {
       logger.info('Server stopped');
       cleanupTempFiles();
-      process.exit(0);
+      // Кэш переводов сохраняем до выхода - после перезапуска он прочитается снова
+      cache.saveSnapshot().finally(() => process.exit(0));
     });
   }
 }
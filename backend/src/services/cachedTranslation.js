@@ -0,0 +1,245 @@
+const config = require('../config');
+const cache = require('../utils/cache');
+const glossaryService = require('./glossaryService');
+const { resolveStyle, styleVariant } = require('./translationStyle');
+
+function toResponse(result, sourceCode, targetCode) {
+  return {
+    status: 'success',
+    original_text: result.originalText,
+    translated_text: result.translatedText,
+    source_language: sourceCode.toLowerCase(),
+    target_language: targetCode.toLowerCase(),
+    confidence: result.confidence,
+    timestamp: new Date().toISOString(),
+    processing_time: result.processingTime,
+    provider: result.provider,
+    from_cache: false
+  };
+}
+
+function fromCache(cached, startTime) {
+  return {
+    ...cached,
+    from_cache: true,
+    processing_time: Date.now() - startTime
+  };
+}
+
+/**
+ * Термины глоссария для текста и вариант ключа кэша. Версия глоссария
+ * в ключе - после правки глоссария старые переводы не используются.
+ * Если ни один термин не встретился, перевод общий с переводом без глоссария.
+ */
+function resolveGlossary(glossaryId, text, sourceCode, targetCode) {
+  const glossary = glossaryId ? glossaryService.get(glossaryId) : null;
+  if (!glossary) return { glossaryId: null, terms: [], variant: '' };
+
+  const terms = glossaryService.findTerms(glossary.id, text, sourceCode, targetCode);
+  return {
+    glossaryId: glossary.id,
+    terms,
+    variant: terms.length > 0 ? `glossary:${glossary.id}@${glossary.version}` : ''
+  };
+}
+
+/**
+ * Условия перевода, от которых зависит результат: глоссарий и стиль обращения.
+ * variant - часть ключа кэша. Перевод с контекстом разговора не кэшируется:
+ * тот же текст после других реплик переводится иначе, а точное совпадение
+ * всего контекста почти не случается.
+ */
+function resolveConditions(options, text, sourceCode, targetCode) {
+  const glossary = resolveGlossary(options.glossaryId, text, sourceCode, targetCode);
+  const style = resolveStyle(targetCode, options.style);
+  return {
+    glossary,
+    style,
+    cacheable: !(options.context && options.context.length > 0),
+    variant: [glossary.variant, styleVariant(style)].filter(Boolean).join('|')
+  };
+}
+
+function withGlossary(response, glossary) {
+  if (!glossary.glossaryId) return response;
+  return {
+    ...response,
+    glossary_id: glossary.glossaryId,
+    glossary_terms_applied: glossary.terms
+  };
+}
+
+// Ответ запасного провайдера не кэшируем - когда основной вернётся, переведём заново
+function cacheResult(text, sourceCode, targetCode, response, conditions, result) {
+  if (result.fallback || !conditions.cacheable) return;
+  cache.set(text, sourceCode, targetCode, response, conditions.variant);
+}
+
+function readCache(text, sourceCode, targetCode, conditions) {
+  return conditions.cacheable ? cache.get(text, sourceCode, targetCode, conditions.variant) : null;
+}
+
+/**
+ * Проверка обратным переводом: перевод переводится обратно (тоже через кэш)
+ * и сравнивается с оригиналом. drift - смысл, вероятно, искажён.
+ */
+async function withVerification(translationService, response, sourceCode, targetCode, options) {
+  if (!options.verify || sourceCode === targetCode) return response;
+
+  const back = await translateWithCache(translationService, response.translated_text, targetCode, sourceCode, {
+    glossaryId: options.glossaryId
+  });
+  const { similarity, provider } = await translationService.compareMeaning(
+    response.original_text,
+    back.translated_text,
+    sourceCode
+  );
+  const threshold = config.translation.verifyThreshold;
+
+  return {
+    ...response,
+    verification: {
+      back_translation: back.translated_text,
+      similarity,
+      threshold,
+      drift: similarity < threshold,
+      provider
+    }
+  };
+}
+
+/**
+ * Перевод с кэшем. Возвращает ответ в формате POST /translate,
+ * поэтому HTTP и WebSocket делят одни и те же записи кэша.
+ * options.glossaryId - глоссарий, термины которого обязательны в переводе.
+ * options.style - { register, addresseeGender }: обращение к читателю перевода.
+ * options.context - предыдущие реплики [{ speaker, language, text }].
+ * options.verify - добавить проверку обратным переводом (verification).
+ */
+async function translateWithCache(translationService, text, sourceCode, targetCode, options = {}) {
+  const startTime = Date.now();
+  const conditions = resolveConditions(options, text, sourceCode, targetCode);
+  const { glossary, style } = conditions;
+
+  const cached = readCache(text, sourceCode, targetCode, conditions);
+  if (cached) {
+    const response = withGlossary(fromCache(cached, startTime), glossary);
+    return withVerification(translationService, response, sourceCode, targetCode, options);
+  }
+
+  const result = await translationService.translateText(
+    text.trim(),
+    sourceCode,
+    targetCode,
+    { glossaryTerms: glossary.terms, style, context: options.context }
+  );
+
+  const response = toResponse(result, sourceCode, targetCode);
+  cacheResult(text, sourceCode, targetCode, response, conditions, result);
+
+  return withVerification(translationService, withGlossary(response, glossary), sourceCode, targetCode, options);
+}
+
+/**
+ * То же с потоковой выдачей: onChunk получает куски перевода,
+ * результат - итоговый ответ в формате POST /translate.
+ * Из кэша перевод приходит одним куском.
+ */
+async function translateWithCacheStream(translationService, text, sourceCode, targetCode, onChunk, options = {}) {
+  const startTime = Date.now();
+  const { glossaryId, verify, ...streamOptions } = options;
+  const conditions = resolveConditions(options, text, sourceCode, targetCode);
+  const { glossary, style } = conditions;
+
+  const cached = readCache(text, sourceCode, targetCode, conditions);
+  if (cached) {
+    onChunk(cached.translated_text);
+    const response = withGlossary(fromCache(cached, startTime), glossary);
+    return withVerification(translationService, response, sourceCode, targetCode, { glossaryId, verify });
+  }
+
+  const result = await translationService.translateTextStream(
+    text.trim(),
+    sourceCode,
+    targetCode,
+    onChunk,
+    { ...streamOptions, glossaryTerms: glossary.terms, style }
+  );
+
+  const response = toResponse(result, sourceCode, targetCode);
+  cacheResult(text, sourceCode, targetCode, response, conditions, result);
+
+  // Обратный перевод - уже после потока: клиент видит перевод, не дожидаясь проверки
+  return withVerification(translationService, withGlossary(response, glossary), sourceCode, targetCode, { glossaryId, verify });
+}
+
+/**
+ * Пачка текстов с общей парой языков: найденное в кэше берётся из кэша,
+ * остальное (одинаковые тексты - один раз) переводится translateBatch.
+ * Результат - в порядке segments: ответ как у POST /translate или
+ * { status: 'error', message } для текста, который не перевёлся.
+ * options.glossaryId и options.style - как у translateWithCache.
+ */
+async function translateBatchWithCache(translationService, segments, sourceCode, targetCode, options = {}) {
+  const startTime = Date.now();
+  const responses = new Array(segments.length);
+  // Текст + вариант ключа -> что переводить и куда положить результат
+  const pending = new Map();
+
+  segments.forEach((text, index) => {
+    const conditions = resolveConditions(options, text, sourceCode, targetCode);
+    const cached = readCache(text, sourceCode, targetCode, conditions);
+    if (cached) {
+      responses[index] = withGlossary(fromCache(cached, startTime), conditions.glossary);
+      return;
+    }
+
+    const key = `${conditions.variant}|${text.trim()}`;
+    if (!pending.has(key)) pending.set(key, { text, conditions, indexes: [] });
+    pending.get(key).indexes.push(index);
+  });
+
+  const missing = Array.from(pending.values());
+  let providerCalls = 0;
+
+  if (missing.length > 0) {
+    // Один запрос на всю пачку - термины всех текстов вместе; лишние модели не мешают
+    const glossaryTerms = new Map();
+    missing.forEach(({ conditions }) => {
+      conditions.glossary.terms.forEach(term => glossaryTerms.set(term.source.toLowerCase(), term));
+    });
+    // Язык перевода общий - стиль, по которому построены ключи кэша, тоже
+    const { style } = missing[0].conditions;
+
+    const { results, calls } = await translationService.translateBatch(
+      missing.map(({ text }) => text.trim()),
+      sourceCode,
+      targetCode,
+      { glossaryTerms: Array.from(glossaryTerms.values()), style }
+    );
+    providerCalls = calls;
+
+    missing.forEach(({ text, conditions, indexes }, position) => {
+      const result = results[position];
+      let response;
+      if (result.error) {
+        response = { status: 'error', message: result.error };
+      } else {
+        response = toResponse(result, sourceCode, targetCode);
+        cacheResult(text, sourceCode, targetCode, response, conditions, result);
+        response = withGlossary(response, conditions.glossary);
+      }
+      indexes.forEach(index => {
+        responses[index] = response;
+      });
+    });
+  }
+
+  return {
+    results: responses.map((response, index) => ({ index, ...response })),
+    providerCalls,
+    processingTime: Date.now() - startTime
+  };
+}
+
+module.exports = { translateWithCache, translateWithCacheStream, translateBatchWithCache };
@@ -0,0 +1,149 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const logger = require('../utils/logger');
+const { termPattern } = require('../utils/terms');
+
+/**
+ * Глоссарии терминов для пары языков (например, DE ↔ PL).
+ * Глоссарий работает в обе стороны: для PL → DE пары терминов переворачиваются.
+ * Хранится в JSON-файле, запись - атомарно через временный файл.
+ */
+class GlossaryService {
+  constructor(filePath = path.join(config.paths.data, 'glossaries.json')) {
+    this.filePath = filePath;
+    // id -> glossary
+    this.glossaries = new Map();
+    // Записи на диск по очереди, чтобы не перепутать порядок
+    this.writeQueue = Promise.resolve();
+
+    this.load();
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      (stored.glossaries || []).forEach(glossary => this.glossaries.set(glossary.id, glossary));
+      logger.info(`Glossaries loaded: ${this.glossaries.size}`);
+    } catch (error) {
+      logger.error(`Failed to load glossaries from ${this.filePath}:`, error.message);
+    }
+  }
+
+  persist() {
+    const data = JSON.stringify({ glossaries: this.list() }, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, data);
+        await fs.promises.rename(tempPath, this.filePath);
+      })
+      .catch(error => {
+        logger.error('Failed to save glossaries:', error.message);
+      });
+
+    return this.writeQueue;
+  }
+
+  list() {
+    return Array.from(this.glossaries.values());
+  }
+
+  get(id) {
+    return this.glossaries.get(id) || null;
+  }
+
+  async create({ name, source_language, target_language, entries = [] }) {
+    const now = new Date().toISOString();
+    const glossary = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      source_language: source_language.toUpperCase(),
+      target_language: target_language.toUpperCase(),
+      entries: normalizeEntries(entries),
+      // Меняется при каждой правке - входит в ключ кэша переводов
+      version: 1,
+      created_at: now,
+      updated_at: now
+    };
+
+    this.glossaries.set(glossary.id, glossary);
+    await this.persist();
+    logger.info(`Glossary created: ${glossary.name} (${glossary.source_language} ↔ ${glossary.target_language})`);
+    return glossary;
+  }
+
+  async update(id, changes) {
+    const glossary = this.get(id);
+    if (!glossary) return null;
+
+    const updated = {
+      ...glossary,
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.source_language !== undefined && { source_language: changes.source_language.toUpperCase() }),
+      ...(changes.target_language !== undefined && { target_language: changes.target_language.toUpperCase() }),
+      ...(changes.entries !== undefined && { entries: normalizeEntries(changes.entries) }),
+      version: glossary.version + 1,
+      updated_at: new Date().toISOString()
+    };
+
+    this.glossaries.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async remove(id) {
+    if (!this.glossaries.delete(id)) return false;
+    await this.persist();
+    logger.info(`Glossary removed: ${id}`);
+    return true;
+  }
+
+  /**
+   * Термины глоссария, встречающиеся в тексте, в направлении from → to.
+   * Термины ищутся целыми словами, без учёта регистра и с падежными
+   * окончаниями (utils/terms).
+   * @returns {{ source: string, target: string }[]}
+   */
+  findTerms(id, text, fromLanguage, toLanguage) {
+    const glossary = this.get(id);
+    if (!glossary) return [];
+
+    const from = fromLanguage.toUpperCase();
+    const to = toLanguage.toUpperCase();
+    let pairs;
+    if (glossary.source_language === from && glossary.target_language === to) {
+      pairs = glossary.entries;
+    } else if (glossary.source_language === to && glossary.target_language === from) {
+      pairs = glossary.entries.map(entry => ({ ...entry, source: entry.target, target: entry.source }));
+    } else {
+      return [];
+    }
+
+    return pairs
+      .filter(entry => termPattern(entry.source).test(text))
+      .map(({ source, target }) => ({ source, target }));
+  }
+}
+
+// Пустые строки выбрасываем, повторы терминов схлопываем (последний выигрывает)
+function normalizeEntries(entries) {
+  const bySource = new Map();
+  entries.forEach(({ source, target, note }) => {
+    const cleanSource = source.trim();
+    const cleanTarget = target.trim();
+    if (!cleanSource || !cleanTarget) return;
+    bySource.set(cleanSource.toLowerCase(), {
+      source: cleanSource,
+      target: cleanTarget,
+      ...(note && note.trim() && { note: note.trim() })
+    });
+  });
+  return Array.from(bySource.values());
+}
+
+module.exports = new GlossaryService();
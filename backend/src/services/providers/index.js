@@ -0,0 +1,126 @@
+const config = require('../../config');
+const logger = require('../../utils/logger');
+const { OpenAIProvider } = require('./openaiProvider');
+const { LocalProvider } = require('./localProvider');
+
+/**
+ * Провайдер - объект с полем name и методами:
+ *   isAvailable()                                     - можно ли к нему обращаться (есть ключ и т.п.)
+ *   translate({ text, from, to, fromName, toName, glossaryTerms, style, context })
+ *                                                     → { translatedText, confidence, provider, usage? }
+ *   translateStream(request, onChunk, { signal })      → то же, куски текста - в onChunk
+ *   translateBatch({ ...request, texts })             → { results: [{ translatedText, confidence, provider }], usage? }
+ *                                                     - по результату на текст, в том же порядке
+ *   detect(text, languageCodes)                       → { language, confidence, provider }
+ *   transcribe(audioFilePath, language)               → { text, language, confidence, provider }
+ *   compare({ original, backTranslation, languageName }) → { similarity, provider }
+ *                                                     - близость смысла двух текстов, 0..1
+ * Поле provider в результате - конкретная модель или режим, который ответил.
+ */
+const PROVIDERS = {
+  openai: () => new OpenAIProvider({ apiKey: config.openai.apiKey, model: config.translation.model }),
+  local: () => new LocalProvider()
+};
+
+/**
+ * Провайдеры в порядке из config.translation.providers. Запрос идёт к первому
+ * доступному, при ошибке - к следующему. Результат запасного провайдера
+ * помечается fallback: true.
+ */
+class ProviderChain {
+  constructor(providers) {
+    this.providers = providers;
+  }
+
+  get names() {
+    return this.providers.filter(provider => provider.isAvailable()).map(provider => provider.name);
+  }
+
+  available() {
+    const available = this.providers.filter(provider => provider.isAvailable());
+    if (available.length === 0) {
+      throw new Error('No translation provider is available');
+    }
+    return available;
+  }
+
+  async run(operation, args) {
+    let lastError;
+    for (const [index, provider] of this.available().entries()) {
+      try {
+        const result = await provider[operation](...args);
+        return { ...result, fallback: index > 0 };
+      } catch (error) {
+        lastError = error;
+        logger.warn(`Provider ${provider.name} failed on ${operation}: ${error.message}`);
+      }
+    }
+    throw lastError;
+  }
+
+  translate(request) {
+    return this.run('translate', [request]);
+  }
+
+  translateBatch(request) {
+    return this.run('translateBatch', [request]);
+  }
+
+  /**
+   * Переключаться на следующий провайдер можно, только пока клиенту
+   * не ушёл ни один кусок - иначе перевод склеится из двух.
+   */
+  async translateStream(request, onChunk, options = {}) {
+    let started = false;
+    const guardedChunk = chunk => {
+      started = true;
+      onChunk(chunk);
+    };
+
+    let lastError;
+    for (const [index, provider] of this.available().entries()) {
+      try {
+        const result = await provider.translateStream(request, guardedChunk, options);
+        return { ...result, fallback: index > 0 };
+      } catch (error) {
+        lastError = error;
+        if (started || options.signal?.aborted) break;
+        logger.warn(`Provider ${provider.name} failed on translateStream: ${error.message}`);
+      }
+    }
+    throw lastError;
+  }
+
+  detect(text, languageCodes) {
+    return this.run('detect', [text, languageCodes]);
+  }
+
+  transcribe(audioFilePath, language) {
+    return this.run('transcribe', [audioFilePath, language]);
+  }
+
+  compare(request) {
+    return this.run('compare', [request]);
+  }
+}
+
+function createProviderChain(names = config.translation.providers) {
+  const providers = names
+    .filter(name => {
+      if (PROVIDERS[name]) return true;
+      logger.warn(`Unknown translation provider in config: ${name}`);
+      return false;
+    })
+    .map(name => PROVIDERS[name]());
+
+  return new ProviderChain(providers);
+}
+
+const providerChain = createProviderChain();
+logger.info(`Translation providers: ${providerChain.names.join(' → ') || 'none'}`);
+
+module.exports = {
+  ProviderChain,
+  createProviderChain,
+  providerChain
+};
@@ -0,0 +1,162 @@
+const fs = require('fs');
+const { textSimilarity } = require('../../utils/similarity');
+const { termPattern } = require('../../utils/terms');
+
+/**
+ * Офлайн-провайдер для разработки и автотестов. Полностью детерминирован:
+ * фразы из словаря переводятся, остальное возвращается как есть с меткой
+ * целевого языка («[DE] текст») и подставленными терминами глоссария.
+ */
+
+// Строка - одна и та же фраза на всех поддерживаемых языках (сравнение без учёта регистра)
+const PHRASES = [
+  { EN: 'hello', RU: 'привет', DE: 'hallo', FR: 'bonjour', ES: 'hola', CS: 'ahoj', PL: 'cześć', LT: 'labas', LV: 'sveiki', NO: 'hei' },
+  { EN: 'good morning', RU: 'доброе утро', DE: 'Guten Morgen', FR: 'bonjour', ES: 'buenos días', CS: 'dobré ráno', PL: 'dzień dobry', LT: 'labas rytas', LV: 'labrīt', NO: 'god morgen' },
+  { EN: 'good day', RU: 'добрый день', DE: 'Guten Tag', FR: 'bonne journée', ES: 'buen día', CS: 'dobrý den', PL: 'dzień dobry', LT: 'laba diena', LV: 'labdien', NO: 'god dag' },
+  { EN: 'thank you', RU: 'спасибо', DE: 'danke', FR: 'merci', ES: 'gracias', CS: 'děkuji', PL: 'dziękuję', LT: 'ačiū', LV: 'paldies', NO: 'takk' },
+  { EN: 'please', RU: 'пожалуйста', DE: 'bitte', FR: "s'il vous plaît", ES: 'por favor', CS: 'prosím', PL: 'proszę', LT: 'prašau', LV: 'lūdzu', NO: 'vær så snill' },
+  { EN: 'yes', RU: 'да', DE: 'ja', FR: 'oui', ES: 'sí', CS: 'ano', PL: 'tak', LT: 'taip', LV: 'jā', NO: 'ja' },
+  { EN: 'no', RU: 'нет', DE: 'nein', FR: 'non', ES: 'no', CS: 'ne', PL: 'nie', LT: 'ne', LV: 'nē', NO: 'nei' },
+  { EN: 'goodbye', RU: 'до свидания', DE: 'Auf Wiedersehen', FR: 'au revoir', ES: 'adiós', CS: 'na shledanou', PL: 'do widzenia', LT: 'viso gero', LV: 'uz redzēšanos', NO: 'ha det' },
+  { EN: 'how are you', RU: 'как дела', DE: 'wie geht es dir', FR: 'comment ça va', ES: 'cómo estás', CS: 'jak se máš', PL: 'jak się masz', LT: 'kaip sekasi', LV: 'kā iet', NO: 'hvordan går det' }
+];
+
+// Буквы, которые выдают язык, - в порядке проверки (чешский раньше литовского: č и š есть в обоих)
+const LETTER_HINTS = [
+  ['RU', /[а-яё]/i],
+  ['PL', /[ąęłńśźż]/i],
+  ['CS', /[ěřůť]/i],
+  ['LT', /[ąčęėįšųūž]/i],
+  ['LV', /[āēģīķļņū]/i],
+  ['DE', /[äöüß]/i],
+  ['NO', /[æøå]/i],
+  ['ES', /[ñ¿¡]/i],
+  ['FR', /[àâçèéêëîïôœùû]/i]
+];
+
+// Частые короткие слова - для текста без особых букв
+const STOPWORDS = {
+  EN: ['the', 'and', 'is', 'you', 'of', 'to', 'hello'],
+  DE: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht'],
+  FR: ['le', 'la', 'les', 'et', 'est', 'je', 'pas'],
+  ES: ['el', 'los', 'y', 'es', 'que', 'por', 'hola'],
+  PL: ['i', 'jest', 'nie', 'to', 'na', 'tak'],
+  NO: ['og', 'er', 'jeg', 'ikke', 'det', 'hei']
+};
+
+// Регистр и знаки препинания по краям не мешают словарю
+function splitPhrase(text) {
+  const match = text.trim().match(/^([\s\p{P}]*)(.*?)([\s\p{P}]*)$/su);
+  return { prefix: match[1], body: match[2], suffix: match[3] };
+}
+
+function matchCase(sample, text) {
+  return sample && sample[0] === sample[0].toUpperCase() && sample[0] !== sample[0].toLowerCase()
+    ? text[0].toUpperCase() + text.slice(1)
+    : text;
+}
+
+class LocalProvider {
+  constructor() {
+    this.name = 'local';
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  async translate({ text, from, to, glossaryTerms = [] }) {
+    const { prefix, body, suffix } = splitPhrase(text);
+    const phrase = PHRASES.find(row => row[from]?.toLowerCase() === body.toLowerCase() && row[to]);
+
+    if (phrase) {
+      return {
+        translatedText: prefix + matchCase(body, phrase[to]) + suffix,
+        confidence: 0.9,
+        provider: 'local-dictionary'
+      };
+    }
+
+    const translatedText = glossaryTerms.reduce(
+      (result, term) => result.replace(termPattern(term.source, 'g'), term.target),
+      text.trim()
+    );
+
+    return {
+      translatedText: `[${to}] ${translatedText}`,
+      confidence: 0.1,
+      provider: 'local-echo'
+    };
+  }
+
+  // Словарь работает по одной фразе - пачка переводится по очереди
+  async translateBatch({ texts, ...request }) {
+    return { results: await Promise.all(texts.map(text => this.translate({ ...request, text }))) };
+  }
+
+  // Поток - по словам, чтобы клиент видел ту же постепенную выдачу
+  async translateStream(request, onChunk, { signal } = {}) {
+    const result = await this.translate(request);
+    for (const chunk of result.translatedText.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) throw new Error('Request was aborted');
+      onChunk(chunk);
+    }
+    return result;
+  }
+
+  async detect(text, languageCodes) {
+    const sample = text.substring(0, 500);
+    const hinted = LETTER_HINTS.find(([code, pattern]) => languageCodes.includes(code) && pattern.test(sample));
+    if (hinted) {
+      return { language: hinted[0], confidence: 0.7, provider: 'local-detection' };
+    }
+
+    const words = sample.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+    let best = null;
+    let bestScore = 0;
+    Object.entries(STOPWORDS).forEach(([code, stopwords]) => {
+      if (!languageCodes.includes(code)) return;
+      const score = words.filter(word => stopwords.includes(word)).length;
+      if (score > bestScore) {
+        best = code;
+        bestScore = score;
+      }
+    });
+
+    return {
+      language: best || 'EN',
+      confidence: best ? 0.5 : 0.3,
+      provider: 'local-detection'
+    };
+  }
+
+  // Смысл офлайн не сравнить - только совпадение слов и букв
+  async compare({ original, backTranslation }) {
+    return {
+      similarity: textSimilarity(original, backTranslation),
+      provider: 'local-lexical'
+    };
+  }
+
+  /**
+   * Речь офлайн не распознаётся. Для автотестов рядом с аудио можно
+   * положить расшифровку: recording.webm → recording.webm.txt.
+   */
+  async transcribe(audioFilePath, language) {
+    const transcriptPath = `${audioFilePath}.txt`;
+    if (!fs.existsSync(transcriptPath)) {
+      const error = new Error('Распознавание речи недоступно без OpenAI');
+      error.statusCode = 503;
+      throw error;
+    }
+
+    return {
+      text: fs.readFileSync(transcriptPath, 'utf8').trim(),
+      language,
+      confidence: 1.0,
+      provider: 'local-transcript'
+    };
+  }
+}
+
+module.exports = { LocalProvider };
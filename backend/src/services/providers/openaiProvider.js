@@ -0,0 +1,273 @@
+const OpenAI = require('openai');
+const { WhisperService } = require('../whisperService');
+
+const GENDER_NAMES = { female: 'a woman', male: 'a man' };
+
+/**
+ * Обращение к читателю перевода. auto - как в оригинале, но без скачков
+ * между «вы» и «ты» посреди разговора.
+ */
+function stylePrompt(style) {
+  if (!style || !style.formalForm) return '';
+
+  const lines = [];
+  if (style.register === 'formal') {
+    lines.push(`- Address the reader formally (${style.formalForm}), even if the original is informal`);
+  } else if (style.register === 'informal') {
+    lines.push(`- Address the reader informally (${style.informalForm}), even if the original is formal`);
+  } else {
+    lines.push(`- Keep the form of address consistent (${style.formalForm} or ${style.informalForm}), following the original`);
+  }
+  if (GENDER_NAMES[style.addresseeGender]) {
+    lines.push(`- The reader is ${GENDER_NAMES[style.addresseeGender]}: use the matching forms of address and agreement`);
+  }
+  return `\n\nADDRESS:\n${lines.join('\n')}`;
+}
+
+// Предыдущие реплики - только для понимания, переводится одна последняя
+function contextPrompt(context) {
+  if (!context || context.length === 0) return '';
+
+  const turns = context.map(turn => {
+    const speaker = turn.speaker || 'Speaker';
+    return `- ${speaker}${turn.languageName ? ` (${turn.languageName})` : ''}: ${turn.text}`;
+  });
+  return `\n\nCONVERSATION SO FAR - use it to resolve pronouns, ellipsis and short answers, do NOT translate it:\n${turns.join('\n')}`;
+}
+
+/**
+ * Уверенность модели в переводе - средняя (геометрическая) вероятность
+ * выбранных токенов. null - модель не вернула logprobs.
+ */
+function confidenceFromLogprobs(tokens) {
+  if (!tokens || tokens.length === 0) return null;
+  const mean = tokens.reduce((sum, token) => sum + token.logprob, 0) / tokens.length;
+  return Math.round(Math.exp(mean) * 100) / 100;
+}
+
+/**
+ * Провайдер OpenAI: перевод и определение языка через чат-модель,
+ * распознавание речи - через Whisper.
+ */
+class OpenAIProvider {
+  constructor({ apiKey, model = 'gpt-4o-mini' } = {}) {
+    this.name = 'openai';
+    this.model = model;
+    this.client = apiKey ? new OpenAI({ apiKey }) : null;
+    this.whisper = new WhisperService(apiKey);
+  }
+
+  isAvailable() {
+    return this.client !== null;
+  }
+
+  /**
+   * Общая часть инструкции для перевода одного текста и пачки.
+   * glossaryTerms - обязательные переводы терминов ({ source, target }).
+   */
+  buildInstructions({ fromName, toName, glossaryTerms = [], style }) {
+    const systemPrompt = `You are a professional translator. Translate the following text from ${fromName} to ${toName}.
+
+RULES:
+- Provide ONLY the translation, no explanations
+- Maintain the original tone and style
+- Keep formatting if any
+- For voice messages, translate naturally and conversationally`;
+
+    const glossaryPrompt = glossaryTerms.length === 0 ? '' : `
+
+GLOSSARY - always translate these terms exactly as given (inflect them if the grammar requires):
+${glossaryTerms.map(term => `- "${term.source}" → "${term.target}"`).join('\n')}`;
+
+    return systemPrompt + stylePrompt(style) + glossaryPrompt;
+  }
+
+  // Запрос к модели для обычного и потокового перевода
+  buildTranslationRequest(request) {
+    const { text, context } = request;
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: this.buildInstructions(request) + contextPrompt(context) },
+        { role: 'user', content: text }
+      ],
+      max_tokens: Math.min(4000, text.length * 3),
+      temperature: 0.3,
+      logprobs: true
+    };
+  }
+
+  async translate(request) {
+    const response = await this.client.chat.completions.create(this.buildTranslationRequest(request));
+
+    const translatedText = response.choices[0]?.message?.content?.trim();
+    if (!translatedText) {
+      throw new Error('Translation failed');
+    }
+
+    return {
+      translatedText,
+      confidence: confidenceFromLogprobs(response.choices[0]?.logprobs?.content),
+      provider: `openai-${this.model}`,
+      usage: response.usage
+    };
+  }
+
+  /**
+   * Пачка текстов одним запросом: модель получает JSON-массив и возвращает
+   * столько же переводов в том же порядке. Другое число переводов - ошибка,
+   * сопоставить их с текстами нельзя.
+   */
+  async translateBatch(request) {
+    const { texts } = request;
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `${this.buildInstructions(request)}
+
+BATCH:
+- The input is a JSON object {"segments": [...]} with ${texts.length} independent segments
+- Respond with ONLY a JSON object {"translations": [...]}: exactly ${texts.length} strings, the n-th translating the n-th segment
+- Never merge, split, skip or reorder segments`
+        },
+        { role: 'user', content: JSON.stringify({ segments: texts }) }
+      ],
+      max_tokens: Math.min(16000, texts.reduce((sum, text) => sum + text.length * 3 + 20, 50)),
+      temperature: 0.3,
+      response_format: { type: 'json_object' },
+      logprobs: true
+    });
+
+    let translations;
+    try {
+      translations = JSON.parse(response.choices[0]?.message?.content || '{}').translations;
+    } catch {
+      throw new Error('Batch translation is not valid JSON');
+    }
+    if (!Array.isArray(translations) || translations.length !== texts.length
+      || translations.some(translation => typeof translation !== 'string' || !translation.trim())) {
+      throw new Error(`Batch translation returned ${translations?.length ?? 0} of ${texts.length} segments`);
+    }
+
+    // Уверенность - одна на весь ответ модели
+    const confidence = confidenceFromLogprobs(response.choices[0]?.logprobs?.content);
+    return {
+      results: translations.map(translation => ({
+        translatedText: translation.trim(),
+        confidence,
+        provider: `openai-${this.model}`
+      })),
+      usage: response.usage
+    };
+  }
+
+  async translateStream(request, onChunk, { signal } = {}) {
+    const stream = await this.client.chat.completions.create(
+      { ...this.buildTranslationRequest(request), stream: true },
+      { signal }
+    );
+
+    let translatedText = '';
+    const tokens = [];
+    for await (const part of stream) {
+      const delta = part.choices[0]?.delta?.content;
+      if (delta) {
+        translatedText += delta;
+        onChunk(delta);
+      }
+      tokens.push(...(part.choices[0]?.logprobs?.content || []));
+    }
+
+    translatedText = translatedText.trim();
+    if (!translatedText) {
+      throw new Error('Translation failed');
+    }
+
+    return {
+      translatedText,
+      confidence: confidenceFromLogprobs(tokens),
+      provider: `openai-${this.model}`
+    };
+  }
+
+  async detect(text, languageCodes) {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a language detection expert. Analyze the text and respond with ONLY the ISO language code from this list: ${languageCodes.join(', ')}.
+
+Examples:
+"Hello world" → EN
+"Bonjour le monde" → FR
+"Привет мир" → RU
+"Guten Tag" → DE
+"Hola mundo" → ES
+"Dzień dobry" → PL
+
+Respond with ONLY the 2-letter code, nothing else.`
+        },
+        { role: 'user', content: text.substring(0, 500) }
+      ],
+      max_tokens: 5,
+      temperature: 0.0
+    });
+
+    const detectedCode = response.choices[0]?.message?.content?.trim().toUpperCase() || '';
+
+    if (languageCodes.includes(detectedCode)) {
+      return { language: detectedCode, confidence: 0.95, provider: 'openai-detection' };
+    }
+
+    // Модель ответила не только кодом - ищем код в ответе
+    const fuzzy = languageCodes.find(code => detectedCode.includes(code));
+    if (fuzzy) {
+      return { language: fuzzy, confidence: 0.8, provider: 'openai-detection-fuzzy' };
+    }
+
+    throw new Error(`Unexpected detection answer: ${detectedCode}`);
+  }
+
+  /**
+   * Сохранил ли обратный перевод смысл исходного текста. Модель оценивает смысл,
+   * а не слова: перепутанные стороны долга, отрицание, суммы и даты - это низкий балл.
+   */
+  async compare({ original, backTranslation, languageName }) {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `You compare two ${languageName} texts: an original and a back-translation of its translation.
+Rate from 0 to 1 how exactly the back-translation preserves the meaning of the original.
+Wording and word order do not matter. Who owes, pays or receives what, negations, amounts, dates and deadlines matter a lot.
+1 - same meaning, 0.5 - partly changed, 0 - different or opposite meaning.
+Respond with ONLY the number.`
+        },
+        { role: 'user', content: `ORIGINAL:\n${original}\n\nBACK-TRANSLATION:\n${backTranslation}` }
+      ],
+      max_tokens: 5,
+      temperature: 0.0
+    });
+
+    const answer = response.choices[0]?.message?.content?.trim() || '';
+    const similarity = parseFloat(answer.replace(',', '.'));
+    if (Number.isNaN(similarity)) {
+      throw new Error(`Unexpected comparison answer: ${answer}`);
+    }
+
+    return {
+      similarity: Math.round(Math.min(1, Math.max(0, similarity)) * 100) / 100,
+      provider: `openai-${this.model}-compare`
+    };
+  }
+
+  async transcribe(audioFilePath, language) {
+    return this.whisper.transcribeAudio(audioFilePath, language);
+  }
+}
+
+module.exports = { OpenAIProvider };
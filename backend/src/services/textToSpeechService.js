@@ -347,10 +347,10 @@ class TextToSpeechService {
 // Create singleton instance
 const ttsService = new TextToSpeechService();
 
-// Schedule cleanup every 30 minutes
+// Schedule cleanup every 30 minutes (unref - the timer must not keep the process alive)
 setInterval(() => {
   ttsService.cleanupOldFiles();
-}, 30 * 60 * 1000);
+}, 30 * 60 * 1000).unref();
 
 // ============================================
 // Export functions for compatibility
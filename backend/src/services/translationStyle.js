@@ -0,0 +1,61 @@
+/**
+ * Стиль перевода: регистр обращения к собеседнику и его род.
+ * В польском (Pan/Pani) и немецком (Sie/du) модель без подсказки
+ * переходит с «вы» на «ты» посреди разговора.
+ */
+
+const REGISTERS = ['auto', 'formal', 'informal'];
+const ADDRESSEE_GENDERS = ['unspecified', 'female', 'male'];
+
+// Формы обращения по языку; gendered - от рода собеседника зависят формы (Pan/Pani, согласование)
+const ADDRESS_FORMS = {
+  RU: { formal: 'Вы', informal: 'ты', gendered: true },
+  DE: { formal: 'Sie', informal: 'du', gendered: false },
+  FR: { formal: 'vous', informal: 'tu', gendered: true },
+  ES: { formal: 'usted', informal: 'tú', gendered: true },
+  CS: { formal: 'vy', informal: 'ty', gendered: true },
+  PL: { formal: 'Pan / Pani', informal: 'ty', gendered: true },
+  LT: { formal: 'jūs', informal: 'tu', gendered: true },
+  LV: { formal: 'jūs', informal: 'tu', gendered: true },
+  NO: { formal: 'De', informal: 'du', gendered: false }
+};
+
+const DEFAULT_STYLE = { register: 'auto', addresseeGender: 'unspecified' };
+
+/**
+ * Стиль для целевого языка: то, что в языке ничего не меняет, сбрасывается -
+ * в английском нет «вы/ты», в немецком обращение не зависит от рода.
+ */
+function resolveStyle(targetCode, style = {}) {
+  const forms = ADDRESS_FORMS[targetCode];
+  if (!forms) return { ...DEFAULT_STYLE };
+
+  const register = REGISTERS.includes(style.register) ? style.register : 'auto';
+  const addresseeGender = forms.gendered && ADDRESSEE_GENDERS.includes(style.addresseeGender)
+    ? style.addresseeGender
+    : 'unspecified';
+
+  return { register, addresseeGender, formalForm: forms.formal, informalForm: forms.informal };
+}
+
+// Часть ключа кэша: переводы в разных стилях не должны подменять друг друга
+function styleVariant(style) {
+  if (style.register === 'auto' && style.addresseeGender === 'unspecified') return '';
+  return `style:${style.register}/${style.addresseeGender}`;
+}
+
+/**
+ * Стиль комнаты для языка получателя: настройка этого языка или общая ('*').
+ * styles - { '*': { register, addresseeGender }, PL: {...}, ... }
+ */
+function styleForLanguage(styles, language) {
+  return (styles && (styles[language] || styles['*'])) || DEFAULT_STYLE;
+}
+
+module.exports = {
+  REGISTERS,
+  ADDRESSEE_GENDERS,
+  resolveStyle,
+  styleVariant,
+  styleForLanguage
+};
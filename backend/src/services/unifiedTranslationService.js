@@ -1,27 +1,50 @@
-const OpenAI = require('openai');
-const { transcribeAudio } = require('./whisperService');
+const config = require('../config');
 const { speakText } = require('./textToSpeechService');
-const fs = require('fs');
-const path = require('path');
+const { providerChain } = require('./providers');
+const { textSimilarity } = require('../utils/similarity');
+const { resolveStyle } = require('./translationStyle');
+
+// Символов исходного текста в одном пакетном запросе
+const BATCH_MAX_CHARS = 6000;
+
+// Тексты подряд, пачками не длиннее maxChars (текст длиннее - отдельной пачкой)
+function splitBatches(texts, maxChars) {
+  const batches = [];
+  let current = [];
+  let length = 0;
+  for (const text of texts) {
+    if (current.length > 0 && length + text.length > maxChars) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(text);
+    length += text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
 
 class UnifiedTranslationService {
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  /**
+   * providers - цепочка провайдеров перевода, распознавания и определения языка;
+   * по умолчанию общая, из config.translation.providers.
+   */
+  constructor({ providers = providerChain } = {}) {
+    this.providers = providers;
 
     // Поддерживаемые языки
     this.supportedLanguages = {
-      'EN': { name: 'English', flag: '🇺🇸', code: 'en' },
-      'RU': { name: 'Русский', flag: '🇷🇺', code: 'ru' },
-      'DE': { name: 'Deutsch', flag: '🇩🇪', code: 'de' },
-      'FR': { name: 'Français', flag: '🇫🇷', code: 'fr' },
-      'ES': { name: 'Español', flag: '🇪🇸', code: 'es' },
-      'CS': { name: 'Čeština', flag: '🇨🇿', code: 'cs' },
-      'PL': { name: 'Polski', flag: '🇵🇱', code: 'pl' },
-      'LT': { name: 'Lietuvių', flag: '🇱🇹', code: 'lt' },
-      'LV': { name: 'Latviešu', flag: '🇱🇻', code: 'lv' },
-      'NO': { name: 'Norsk', flag: '🇳🇴', code: 'no' }
+      'EN': { name: 'English', flag: '🇺🇸', code: 'en', locale: 'en-US' },
+      'RU': { name: 'Русский', flag: '🇷🇺', code: 'ru', locale: 'ru-RU' },
+      'DE': { name: 'Deutsch', flag: '🇩🇪', code: 'de', locale: 'de-DE' },
+      'FR': { name: 'Français', flag: '🇫🇷', code: 'fr', locale: 'fr-FR' },
+      'ES': { name: 'Español', flag: '🇪🇸', code: 'es', locale: 'es-ES' },
+      'CS': { name: 'Čeština', flag: '🇨🇿', code: 'cs', locale: 'cs-CZ' },
+      'PL': { name: 'Polski', flag: '🇵🇱', code: 'pl', locale: 'pl-PL' },
+      'LT': { name: 'Lietuvių', flag: '🇱🇹', code: 'lt', locale: 'lt-LT' },
+      'LV': { name: 'Latviešu', flag: '🇱🇻', code: 'lv', locale: 'lv-LV' },
+      'NO': { name: 'Norsk', flag: '🇳🇴', code: 'no', locale: 'nb-NO' }
     };
 
     console.log('🌍 Unified Translation Service готов с', Object.keys(this.supportedLanguages).length, 'языками');
@@ -32,74 +55,213 @@ class UnifiedTranslationService {
       code,
       name: config.name,
       flag: config.flag,
-      nativeName: config.name
+      nativeName: config.name,
+      // BCP-47 тег для SpeechRecognition / speechSynthesis на клиенте
+      locale: config.locale
     }));
   }
 
-  async translateText(text, fromLanguage, toLanguage) {
+  /**
+   * Предыдущие реплики разговора - чтобы перевести местоимения и недосказанное
+   * («а второй?»). Берутся с конца, пока укладываются в contextMaxChars;
+   * самая ранняя из вошедших обрезается с начала.
+   */
+  boundContext(context = []) {
+    const turns = [];
+    let budget = config.translation.contextMaxChars;
+
+    for (let i = context.length - 1; i >= 0 && budget > 0; i--) {
+      const text = context[i].text.trim();
+      if (!text) continue;
+
+      const kept = text.length > budget ? `…${text.slice(text.length - budget + 1)}` : text;
+      const language = (context[i].language || '').toUpperCase();
+      turns.unshift({
+        speaker: context[i].speaker || null,
+        languageName: this.supportedLanguages[language]?.name || null,
+        text: kept
+      });
+      budget -= kept.length;
+    }
+    return turns;
+  }
+
+  // Пара языков проверяется до обращения к провайдеру
+  buildTranslationRequest(text, fromLanguage, toLanguage, { glossaryTerms = [], style, context } = {}) {
+    if (!this.supportedLanguages[fromLanguage] || !this.supportedLanguages[toLanguage]) {
+      throw new Error(`Unsupported language pair: ${fromLanguage} → ${toLanguage}`);
+    }
+
+    return {
+      text,
+      from: fromLanguage,
+      to: toLanguage,
+      fromName: this.supportedLanguages[fromLanguage].name,
+      toName: this.supportedLanguages[toLanguage].name,
+      glossaryTerms,
+      style: resolveStyle(toLanguage, style),
+      context: this.boundContext(context)
+    };
+  }
+
+  toResult(text, fromLanguage, toLanguage, startTime, result) {
+    return {
+      originalText: text,
+      translatedText: result.translatedText,
+      fromLanguage,
+      toLanguage,
+      processingTime: Date.now() - startTime,
+      confidence: result.confidence,
+      provider: result.provider,
+      fallback: Boolean(result.fallback),
+      ...(result.usage && { usage: result.usage })
+    };
+  }
+
+  async translateText(text, fromLanguage, toLanguage, options = {}) {
     const startTime = Date.now();
 
     try {
-      if (!this.supportedLanguages[fromLanguage] || !this.supportedLanguages[toLanguage]) {
-        throw new Error(`Unsupported language pair: ${fromLanguage} → ${toLanguage}`);
-      }
+      const request = this.buildTranslationRequest(text, fromLanguage, toLanguage, options);
 
       if (fromLanguage === toLanguage) {
-        return {
-          originalText: text,
+        return this.toResult(text, fromLanguage, toLanguage, startTime, {
           translatedText: text,
-          fromLanguage,
-          toLanguage,
-          processingTime: Date.now() - startTime,
           confidence: 1.0,
           provider: 'same-language'
-        };
+        });
       }
 
-      const fromLang = this.supportedLanguages[fromLanguage].name;
-      const toLang = this.supportedLanguages[toLanguage].name;
-
-      const systemPrompt = `You are a professional translator. Translate the following text from ${fromLang} to ${toLang}. 
-      
-RULES:
-- Provide ONLY the translation, no explanations
-- Maintain the original tone and style
-- Keep formatting if any
-- For voice messages, translate naturally and conversationally`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: text }
-        ],
-        max_tokens: Math.min(4000, text.length * 3),
-        temperature: 0.3
-      });
+      const result = await this.providers.translate(request);
+      return this.toResult(text, fromLanguage, toLanguage, startTime, result);
+
+    } catch (error) {
+      console.error('Translation error:', error);
+      throw new Error(`Translation failed: ${error.message}`);
+    }
+  }
 
-      const translatedText = response.choices[0]?.message?.content?.trim();
+  /**
+   * Потоковый перевод: onChunk получает куски текста по мере генерации.
+   * Результат - как у translateText. signal прерывает запрос к модели
+   * (клиент закрыл соединение).
+   */
+  async translateTextStream(text, fromLanguage, toLanguage, onChunk, { signal, ...options } = {}) {
+    const startTime = Date.now();
 
-      if (!translatedText) {
-        throw new Error('Translation failed');
+    try {
+      const request = this.buildTranslationRequest(text, fromLanguage, toLanguage, options);
+
+      if (fromLanguage === toLanguage) {
+        onChunk(text);
+        return this.toResult(text, fromLanguage, toLanguage, startTime, {
+          translatedText: text,
+          confidence: 1.0,
+          provider: 'same-language'
+        });
       }
 
-      return {
-        originalText: text,
-        translatedText,
-        fromLanguage,
-        toLanguage,
-        processingTime: Date.now() - startTime,
-        confidence: 0.95,
-        provider: 'openai-gpt4o-mini',
-        usage: response.usage
-      };
+      const result = await this.providers.translateStream(request, onChunk, { signal });
+      return this.toResult(text, fromLanguage, toLanguage, startTime, result);
 
     } catch (error) {
-      console.error('Translation error:', error);
+      console.error('Streaming translation error:', error);
       throw new Error(`Translation failed: ${error.message}`);
     }
   }
 
+  /**
+   * Перевод нескольких текстов с общей парой языков за как можно меньшее число
+   * запросов: тексты уходят пачками до BATCH_MAX_CHARS символов (ответ модели
+   * ограничен по длине). Пачка, которую провайдеры не перевели, переводится
+   * по одному тексту - тогда ошибка достаётся только тем, кто не перевёлся.
+   * Результат - по элементу на текст: как у translateText или { error };
+   * calls - сколько запросов ушло провайдерам.
+   */
+  async translateBatch(texts, fromLanguage, toLanguage, options = {}) {
+    const startTime = Date.now();
+    const request = this.buildTranslationRequest(null, fromLanguage, toLanguage, options);
+
+    if (fromLanguage === toLanguage) {
+      const results = texts.map(text => this.toResult(text, fromLanguage, toLanguage, startTime, {
+        translatedText: text,
+        confidence: 1.0,
+        provider: 'same-language'
+      }));
+      return { results, calls: 0 };
+    }
+
+    const results = [];
+    let calls = 0;
+    for (const batch of splitBatches(texts, BATCH_MAX_CHARS)) {
+      calls++;
+      try {
+        const { results: translated, fallback } = await this.providers.translateBatch({ ...request, texts: batch });
+        batch.forEach((text, index) => {
+          results.push(this.toResult(text, fromLanguage, toLanguage, startTime, { ...translated[index], fallback }));
+        });
+      } catch (error) {
+        console.error(`Batch of ${batch.length} failed, translating one by one:`, error.message);
+        for (const text of batch) {
+          calls++;
+          try {
+            results.push(await this.translateText(text, fromLanguage, toLanguage, options));
+          } catch (segmentError) {
+            results.push({ error: segmentError.message });
+          }
+        }
+      }
+    }
+    return { results, calls };
+  }
+
+  /**
+   * Близость смысла исходного текста и обратного перевода, 0..1.
+   * Если провайдеры не смогли сравнить - грубая оценка по словам.
+   */
+  async compareMeaning(original, backTranslation, language) {
+    if (original.trim().toLowerCase() === backTranslation.trim().toLowerCase()) {
+      return { similarity: 1, provider: 'identical' };
+    }
+
+    try {
+      const { similarity, provider } = await this.providers.compare({
+        original,
+        backTranslation,
+        languageName: this.supportedLanguages[language]?.name || language
+      });
+      return { similarity, provider };
+    } catch (error) {
+      console.error('Meaning comparison error:', error);
+      return { similarity: textSimilarity(original, backTranslation), provider: 'lexical' };
+    }
+  }
+
+  /**
+   * Только распознавание речи - перевод клиент запросит сам.
+   * Тишина или шум - ошибка 422.
+   */
+  async transcribeVoice(audioFilePath, language) {
+    if (!this.supportedLanguages[language]) {
+      const error = new Error(`Unsupported language: ${language}`);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const transcription = await this.providers.transcribe(audioFilePath, this.supportedLanguages[language].code);
+    if (!transcription.text) {
+      const error = new Error('Речь не распознана');
+      error.statusCode = 422;
+      throw error;
+    }
+
+    return {
+      text: transcription.text,
+      language,
+      provider: transcription.provider
+    };
+  }
+
   async translateVoice(audioFilePath, fromLanguage, toLanguage) {
     const startTime = Date.now();
 
@@ -107,9 +269,17 @@ RULES:
       console.log('🎤 Starting voice translation:', { fromLanguage, toLanguage });
 
       // 1. Распознавание речи
-      const transcript = await transcribeAudio(audioFilePath, this.supportedLanguages[fromLanguage].code);
+      const transcription = await this.providers.transcribe(audioFilePath, this.supportedLanguages[fromLanguage].code);
+      const transcript = transcription.text;
       console.log('📝 Transcript:', transcript);
 
+      // Тишина или шум - переводить нечего
+      if (!transcript) {
+        const error = new Error('Речь не распознана');
+        error.statusCode = 422;
+        throw error;
+      }
+
       // 2. Перевод текста
       const translation = await this.translateText(transcript, fromLanguage, toLanguage);
       console.log('🌍 Translation:', translation.translatedText);
@@ -127,65 +297,25 @@ RULES:
         toLanguage,
         processingTime: Date.now() - startTime,
         confidence: translation.confidence,
-        provider: 'solar-voice-pipeline'
+        provider: translation.provider,
+        transcriptionProvider: transcription.provider
       };
 
     } catch (error) {
       console.error('Voice translation error:', error);
-      throw new Error(`Voice translation failed: ${error.message}`);
+      const wrapped = new Error(`Voice translation failed: ${error.message}`);
+      wrapped.statusCode = error.statusCode;
+      throw wrapped;
     }
   }
 
   async detectLanguage(text) {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a language detection expert. Analyze the text and respond with ONLY the ISO language code from this list: EN, RU, DE, FR, ES, CS, PL, LT, LV, NO.
-
-Examples:
-"Hello world" → EN
-"Bonjour le monde" → FR
-"Привет мир" → RU
-"Guten Tag" → DE
-"Hola mundo" → ES
-"Dzień dobry" → PL
-
-Respond with ONLY the 2-letter code, nothing else.`
-          },
-          { role: 'user', content: text.substring(0, 500) }
-        ],
-        max_tokens: 5,
-        temperature: 0.0
-      });
-
-      const detectedCode = response.choices[0]?.message?.content?.trim().toUpperCase();
-
-      if (this.supportedLanguages[detectedCode]) {
-        return {
-          language: detectedCode,
-          confidence: 0.95,
-          provider: 'openai-detection'
-        };
-      }
-
-      // Fallback: try to match partial response
-      for (const code of Object.keys(this.supportedLanguages)) {
-        if (detectedCode.includes(code)) {
-          return {
-            language: code,
-            confidence: 0.8,
-            provider: 'openai-detection-fuzzy'
-          };
-        }
-      }
-
+      const result = await this.providers.detect(text, Object.keys(this.supportedLanguages));
       return {
-        language: 'EN',
-        confidence: 0.5,
-        provider: 'fallback'
+        language: result.language,
+        confidence: result.confidence,
+        provider: result.provider
       };
 
     } catch (error) {
@@ -207,7 +337,7 @@ Respond with ONLY the 2-letter code, nothing else.`
         'language-detection',
         'real-time-processing'
       ],
-      provider: 'SOLAR v2.0 + OpenAI',
+      provider: this.providers.names.join(' → ') || 'none',
       status: 'ready'
     };
   }
@@ -5,7 +5,8 @@ const OpenAI = require('openai');
 
 class WhisperService {
   constructor(apiKey) {
-    this.openai = new OpenAI({ apiKey });
+    // Без ключа клиент не создаём - сервер должен стартовать и офлайн
+    this.openai = apiKey ? new OpenAI({ apiKey }) : null;
   }
 
   /**
@@ -17,6 +18,10 @@ class WhisperService {
    */
   async transcribeAudio(audioFilePath, language = 'auto') {
     try {
+      if (!this.openai) {
+        throw new Error('OpenAI API key is not configured');
+      }
+
       if (!fs.existsSync(audioFilePath)) {
         throw new Error(`Файл не найден: ${audioFilePath}`);
       }
@@ -83,4 +88,18 @@ class WhisperService {
   }
 }
 
-module.exports = WhisperService;
+// Create singleton instance
+const whisperService = new WhisperService(process.env.OPENAI_API_KEY);
+
+/**
+ * Распознавание (compatibility export)
+ */
+async function transcribeAudio(audioFilePath, language = 'auto') {
+  return await whisperService.transcribeAudio(audioFilePath, language);
+}
+
+module.exports = {
+  transcribeAudio,
+  WhisperService,
+  whisperService
+};
@@ -1,47 +1,176 @@
+const fs = require('fs');
+const path = require('path');
 const config = require('../config');
 const logger = require('./logger');
 
+/**
+ * Кэш переводов: LRU с временем жизни записей. Снимок периодически
+ * сохраняется в config.paths.cache и читается при старте - кэш
+ * переживает перезапуск сервера.
+ */
 class TranslationCache {
-  constructor(maxSize = config.limits.cacheMaxSize) {
+  constructor({
+    maxSize = config.limits.cacheMaxSize,
+    ttl = config.limits.cacheTtl,
+    snapshotPath = path.join(config.paths.cache, 'translations.json'),
+    snapshotInterval = config.limits.cacheSnapshotInterval
+  } = {}) {
+    // Порядок Map - порядок использования: первая запись - самая давняя
     this.cache = new Map();
     this.maxSize = maxSize;
+    this.ttl = ttl;
+    this.snapshotPath = snapshotInterval > 0 ? snapshotPath : null;
+    this.dirty = false;
+    this.metrics = { hits: 0, misses: 0, sets: 0, evictions: 0, expirations: 0, purged: 0 };
+
+    if (this.snapshotPath) {
+      this.loadSnapshot();
+      // unref - таймер не должен держать процесс
+      setInterval(() => this.saveSnapshot(), snapshotInterval).unref();
+    }
+  }
+
+  // Пробелы и форма Unicode не должны плодить копии одного перевода
+  normalizeText(text) {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ');
   }
 
-  generateKey(text, sourceCode, targetCode) {
-    return `${text.trim()}_${sourceCode}_${targetCode}`;
+  // variant отличает переводы одного текста с разными условиями (например, глоссарием)
+  generateKey(text, sourceCode, targetCode, variant = '') {
+    return `${sourceCode.toUpperCase()}>${targetCode.toUpperCase()}|${variant}|${this.normalizeText(text)}`;
   }
 
-  get(text, sourceCode, targetCode) {
-    const key = this.generateKey(text, sourceCode, targetCode);
-    if (this.cache.has(key)) {
-      logger.debug(`Cache hit: ${key.substring(0, 50)}`);
-      return this.cache.get(key);
+  get(text, sourceCode, targetCode, variant = '') {
+    const key = this.generateKey(text, sourceCode, targetCode, variant);
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      this.metrics.misses++;
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.cache.delete(key);
+      this.dirty = true;
+      this.metrics.expirations++;
+      this.metrics.misses++;
+      return null;
     }
-    return null;
+
+    // Переносим в конец - запись снова самая свежая
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.metrics.hits++;
+    logger.debug(`Cache hit: ${key.substring(0, 50)}`);
+    return entry.value;
   }
 
-  set(text, sourceCode, targetCode, value) {
-    const key = this.generateKey(text, sourceCode, targetCode);
-    
-    // Удаляем старые записи если кэш переполнен
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      this.cache.delete(firstKey);
-      logger.debug(`Cache eviction: ${firstKey.substring(0, 50)}`);
+  set(text, sourceCode, targetCode, value, variant = '') {
+    const key = this.generateKey(text, sourceCode, targetCode, variant);
+    this.cache.delete(key);
+
+    // Вытесняем давно не использованные записи
+    while (this.cache.size >= this.maxSize) {
+      const oldestKey = this.cache.keys().next().value;
+      this.cache.delete(oldestKey);
+      this.metrics.evictions++;
+      logger.debug(`Cache eviction: ${oldestKey.substring(0, 50)}`);
     }
-    
-    this.cache.set(key, value);
+
+    this.cache.set(key, {
+      value,
+      source: sourceCode.toUpperCase(),
+      target: targetCode.toUpperCase(),
+      expiresAt: Date.now() + this.ttl
+    });
+    this.dirty = true;
+    this.metrics.sets++;
     logger.debug(`Cache set: ${key.substring(0, 50)}`);
   }
 
+  /**
+   * Удаляет переводы пары языков. Без языка - любой язык на этой стороне,
+   * purge() без аргументов очищает весь кэш.
+   * @returns {number} сколько записей удалено
+   */
+  purge(sourceCode = null, targetCode = null) {
+    const source = sourceCode && sourceCode.toUpperCase();
+    const target = targetCode && targetCode.toUpperCase();
+    let removed = 0;
+
+    for (const [key, entry] of this.cache) {
+      if ((!source || entry.source === source) && (!target || entry.target === target)) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) this.dirty = true;
+    this.metrics.purged += removed;
+    logger.info(`Cache purged: ${source || '*'} → ${target || '*'}, ${removed} entries`);
+    return removed;
+  }
+
   clear() {
-    this.cache.clear();
-    logger.info('Cache cleared');
+    this.purge();
   }
 
   getSize() {
     return this.cache.size;
   }
+
+  getStats() {
+    const lookups = this.metrics.hits + this.metrics.misses;
+    return {
+      size: this.cache.size,
+      max_size: this.maxSize,
+      ttl_ms: this.ttl,
+      hits: this.metrics.hits,
+      misses: this.metrics.misses,
+      hit_rate: lookups > 0 ? Number((this.metrics.hits / lookups).toFixed(3)) : 0,
+      sets: this.metrics.sets,
+      evictions: this.metrics.evictions,
+      expirations: this.metrics.expirations,
+      purged: this.metrics.purged,
+      persistent: this.snapshotPath !== null
+    };
+  }
+
+  loadSnapshot() {
+    try {
+      if (!fs.existsSync(this.snapshotPath)) return;
+      const { entries = [] } = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+      const now = Date.now();
+
+      // В снимке записи от давних к свежим - порядок LRU сохраняется
+      entries
+        .filter(([, entry]) => entry.expiresAt > now)
+        .slice(-this.maxSize)
+        .forEach(([key, entry]) => this.cache.set(key, entry));
+
+      logger.info(`Cache restored from snapshot: ${this.cache.size} entries`);
+    } catch (error) {
+      logger.error(`Failed to load cache snapshot from ${this.snapshotPath}:`, error.message);
+    }
+  }
+
+  async saveSnapshot() {
+    if (!this.snapshotPath || !this.dirty) return;
+    this.dirty = false;
+
+    const data = JSON.stringify({ saved_at: new Date().toISOString(), entries: Array.from(this.cache.entries()) });
+    const tempPath = `${this.snapshotPath}.tmp`;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, this.snapshotPath);
+      logger.debug(`Cache snapshot saved: ${this.cache.size} entries`);
+    } catch (error) {
+      this.dirty = true;
+      logger.error('Failed to save cache snapshot:', error.message);
+    }
+  }
 }
 
-module.exports = new TranslationCache();
\ No newline at end of file
+module.exports = new TranslationCache();
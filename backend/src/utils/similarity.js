@@ -0,0 +1,52 @@
+/**
+ * Насколько близки два текста на одном языке - для проверки обратным переводом.
+ * 0 - ничего общего, 1 - совпадают. Среднее двух мер:
+ *  - совпадение слов (F1): "you owe" и "you are owed" различаются словами;
+ *  - совпадение триграмм букв (Dice): падежные окончания и порядок слов почти не штрафуются.
+ * Это не понимание смысла, а грубый сигнал: низкий балл - повод перепроверить.
+ */
+
+function normalize(text) {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+function countAll(items) {
+  const counts = new Map();
+  items.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+  return counts;
+}
+
+// Доля общих элементов с учётом повторов: 2·|A∩B| / (|A| + |B|)
+function overlap(a, b) {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const counts = countAll(b);
+  let common = 0;
+  a.forEach(item => {
+    const left = counts.get(item) || 0;
+    if (left > 0) {
+      common++;
+      counts.set(item, left - 1);
+    }
+  });
+  return (2 * common) / (a.length + b.length);
+}
+
+function trigrams(words) {
+  const joined = ` ${words.join(' ')} `;
+  const grams = [];
+  for (let i = 0; i + 3 <= joined.length; i++) {
+    grams.push(joined.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function textSimilarity(a, b) {
+  const wordsA = normalize(a);
+  const wordsB = normalize(b);
+  const score = (overlap(wordsA, wordsB) + overlap(trigrams(wordsA), trigrams(wordsB))) / 2;
+  return Math.round(score * 100) / 100;
+}
+
+module.exports = { textSimilarity };
@@ -0,0 +1,31 @@
+/**
+ * Поиск терминов глоссария в тексте - только целыми словами: «vat» не должен
+ * находиться в «private». У длинного слова последняя буква отбрасывается,
+ * а вместо неё допускается окончание до трёх букв - так «zaliczka» находится
+ * и в «zaliczkę», а «Steuererklärung» - в «Steuererklärungen».
+ */
+
+// Граница слова с учётом Unicode: до и после термина нет букв и цифр
+const BEFORE_WORD = '(?<![\\p{L}\\p{N}])';
+const AFTER_WORD = '(?![\\p{L}\\p{N}])';
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(word) {
+  return word.length > 4
+    ? `${escapeRegExp(word.slice(0, -1))}\\p{L}{0,3}`
+    : escapeRegExp(word);
+}
+
+/**
+ * Регулярное выражение для термина (слова подряд, через любые пробелы).
+ * flags - дополнительно к 'iu', например 'g' для замены.
+ */
+function termPattern(term, flags = '') {
+  const words = term.trim().split(/\s+/).filter(Boolean).map(wordPattern);
+  return new RegExp(`${BEFORE_WORD}${words.join('\\s+')}${AFTER_WORD}`, `iu${flags}`);
+}
+
+module.exports = { termPattern };
@@ -1,38 +1,391 @@
+const crypto = require('crypto');
 const logger = require('../utils/logger');
 const clientManager = require('./clientManager');
+const roomManager = require('./roomManager');
 const { WebSocket } = require('ws');
-const rooms = new Map();
+const { UnifiedTranslationService } = require('../services/unifiedTranslationService');
+const { translateWithCache } = require('../services/cachedTranslation');
+const glossaryService = require('../services/glossaryService');
+const { REGISTERS, ADDRESSEE_GENDERS, styleForLanguage } = require('../services/translationStyle');
+const roomRegistry = require('./roomRegistry');
 
-function handleJoinRoom(ws, data, clientId) {
-  const { room, username } = data;
+const translationService = new UnifiedTranslationService();
 
-  if (!rooms.has(room)) {
-    rooms.set(room, []);
+// Код языка участника: только поддерживаемые, иначе null (= язык отправителя по умолчанию)
+function normalizeLanguage(language) {
+  if (typeof language !== 'string') return null;
+  const code = language.trim().toUpperCase();
+  return translationService.supportedLanguages[code] ? code : null;
+}
+
+function sendTo(ws, message) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws, code, message) {
+  sendTo(ws, {
+    type: 'error',
+    code,
+    message,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Отказы защищённых комнат - code клиент показывает на языке интерфейса
+const ACCESS_ERRORS = {
+  room_exists: 'Комната с таким кодом уже существует',
+  passphrase_required: 'Для входа в комнату нужен пароль',
+  passphrase_invalid: 'Неверный пароль комнаты',
+  invite_required: 'В эту комнату можно войти только по приглашению',
+  invite_invalid: 'Приглашение недействительно',
+  invite_expired: 'Срок приглашения истёк',
+  too_many_attempts: 'Слишком много неверных попыток, подождите минуту',
+  not_room_owner: 'Приглашать может только владелец комнаты',
+  room_expired: 'Защита комнаты истекла - создайте комнату заново'
+};
+
+// Пароль короче - не защита
+const MIN_PASSPHRASE_LENGTH = 4;
+// Срок приглашения, который может запросить владелец, минуты
+const MIN_INVITE_MINUTES = 5;
+const MAX_INVITE_MINUTES = 7 * 24 * 60;
+
+// Коды, которые выдаёт сервер: их диктуют по телефону и переписывают с экрана,
+// поэтому без похожих знаков (0/O, 1/I/L, 2/Z, 5/S, 8/B)
+const ROOM_CODE_ALPHABET = 'ACDEFGHJKMNPQRTUVWXY34679';
+const ROOM_CODE_LENGTH = 5;
+const ROOM_CODE_ATTEMPTS = 20;
+
+function optionalString(value) {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+// Глоссарий комнаты для клиента: без терминов, они нужны только серверу
+function glossarySummary(roomCode) {
+  const glossary = glossaryService.get(roomManager.getGlossary(roomCode));
+  if (!glossary) return null;
+  return {
+    id: glossary.id,
+    name: glossary.name,
+    source_language: glossary.source_language,
+    target_language: glossary.target_language
+  };
+}
+
+// Стили комнаты в формате протокола: { '*': { register, addressee_gender }, PL: {...} }
+function stylesSummary(roomCode) {
+  return Object.fromEntries(Object.entries(roomManager.getStyles(roomCode)).map(([language, style]) => [
+    language,
+    { register: style.register, addressee_gender: style.addresseeGender }
+  ]));
+}
+
+// Свободный код: не защищённая комната и не открытая, где уже кто-то есть
+function allocateRoomCode() {
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+    const code = Array.from(
+      { length: ROOM_CODE_LENGTH },
+      () => ROOM_CODE_ALPHABET[crypto.randomInt(ROOM_CODE_ALPHABET.length)]
+    ).join('');
+    if (!roomRegistry.isProtected(code) && roomManager.getParticipants(code).length === 0) {
+      return code;
+    }
+  }
+  return null;
+}
+
+function readRoomAndName(data) {
+  return {
+    room: typeof data.room === 'string' ? data.room.trim() : '',
+    username: typeof data.username === 'string' ? data.username.trim() : ''
+  };
+}
+
+/**
+ * Вход в комнату. В защищённую - по токену (владельца или приглашению)
+ * либо по паролю.
+ */
+async function handleJoinRoom(ws, data, clientId) {
+  const { room, username } = readRoomAndName(data);
+
+  if (!room || !username) {
+    return sendError(ws, 'invalid_request', 'Не указан код комнаты или имя');
+  }
+
+  const access = await roomRegistry.authorize(room, {
+    passphrase: optionalString(data.passphrase),
+    token: optionalString(data.token)
+  });
+  if (!access.ok) {
+    logger.info(`Join rejected (${access.code}): ${username} → ${room}`);
+    return sendError(ws, access.code, ACCESS_ERRORS[access.code]);
+  }
+
+  enterRoom(ws, clientId, data, { room, username, role: access.role });
+}
+
+/**
+ * Создаёт защищённую комнату: создатель - её владелец. Без пароля войти
+ * можно только по приглашению владельца. Без кода сервер подбирает
+ * свободный сам.
+ */
+async function handleCreateRoom(ws, data, clientId) {
+  const { room: requestedRoom, username } = readRoomAndName(data);
+  const passphrase = optionalString(data.passphrase);
+
+  if (!username) {
+    return sendError(ws, 'invalid_request', 'Не указано имя');
+  }
+  const room = requestedRoom || allocateRoomCode();
+  if (!room) {
+    logger.error('Failed to allocate a free room code');
+    return sendError(ws, 'room_exists', ACCESS_ERRORS.room_exists);
+  }
+  if (passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return sendError(ws, 'invalid_request', `Пароль - не короче ${MIN_PASSPHRASE_LENGTH} символов`);
+  }
+  // Код открытой комнаты, где уже идёт разговор, занимать нельзя
+  if (roomRegistry.isProtected(room) || roomManager.getParticipants(room).length > 0) {
+    return sendError(ws, 'room_exists', ACCESS_ERRORS.room_exists);
+  }
+
+  const created = await roomRegistry.create(room, { owner: username, passphrase });
+  if (!created) {
+    return sendError(ws, 'room_exists', ACCESS_ERRORS.room_exists);
+  }
+  // Журнал опустевшей открытой комнаты с тем же кодом ещё жив - новому владельцу он не принадлежит
+  roomManager.dropLog(room);
+
+  sendTo(ws, {
+    type: 'room_created',
+    room,
+    owner_token: created.ownerToken,
+    passphrase: Boolean(passphrase),
+    timestamp: new Date().toISOString()
+  });
+
+  enterRoom(ws, clientId, data, { room, username, role: 'owner' });
+}
+
+/** Приглашение в защищённую комнату - выдаёт только владелец */
+function handleCreateInvite(ws, clientId, data) {
+  const roomCode = roomManager.getRoomOf(clientId);
+  const participant = roomCode && roomManager.getParticipants(roomCode).find(p => p.clientId === clientId);
+  if (!participant || participant.role !== 'owner') {
+    return sendError(ws, 'not_room_owner', ACCESS_ERRORS.not_room_owner);
+  }
+
+  const minutes = Number.isInteger(data.ttl_minutes)
+    ? Math.min(MAX_INVITE_MINUTES, Math.max(MIN_INVITE_MINUTES, data.ttl_minutes))
+    : null;
+  const invite = roomRegistry.issueInvite(roomCode, minutes ? minutes * 60 * 1000 : undefined);
+  // Запись о комнате истекла, пока владелец был в ней
+  if (!invite) {
+    return sendError(ws, 'room_expired', ACCESS_ERRORS.room_expired);
+  }
+
+  sendTo(ws, {
+    type: 'invite_created',
+    room: roomCode,
+    token: invite.token,
+    expires_at: invite.expiresAt,
+    timestamp: new Date().toISOString()
+  });
+  logger.info(`Invite created for room ${roomCode} (expires ${invite.expiresAt})`);
+}
+
+function enterRoom(ws, clientId, data, { room, username, role }) {
+  // Повторный вход - сначала покидаем прежнюю комнату
+  if (roomManager.getRoomOf(clientId)) {
+    handleLeaveRoom(ws, clientId);
+  }
+
+  const result = roomManager.join(room, {
+    ws,
+    clientId,
+    username,
+    sessionId: data.session_id,
+    language: normalizeLanguage(data.language),
+    role
+  });
+
+  if (!result.ok) {
+    logger.info(`Join rejected (${result.code}): ${username} → ${room}`);
+    return sendError(ws, result.code, `Имя «${username}» уже занято в этой комнате`);
   }
 
   ws.room = room;
   ws.username = username;
 
-  rooms.get(room).push({ ws, username, clientId });
+  const roster = roomManager.getRoster(room);
 
-  logger.info(`User ${username} joined room ${room}`);
+  logger.info(`User ${username} joined room ${room}${result.replaced ? ' (reconnect)' : ''}`);
+
+  sendTo(ws, {
+    type: 'room_joined',
+    room,
+    username,
+    client_id: clientId,
+    participants: roster,
+    glossary: glossarySummary(room),
+    styles: stylesSummary(room),
+    timestamp: new Date().toISOString()
+  });
 
   broadcastToRoom(room, {
     type: 'user_joined',
-    username: username,
-    participants: rooms.get(room).length
+    username,
+    participants: roster.length,
+    roster,
+    timestamp: new Date().toISOString()
   }, ws);
+
+  const resumeAfter = Number.isInteger(data.resume_after) ? data.resume_after : null;
+  sendBacklog(ws, room, username, resumeAfter).catch(error => {
+    logger.error(`Backlog replay failed for ${username} in ${room}:`, error.message);
+  });
 }
 
-function broadcastToRoom(roomCode, message, excludeWs = null) {
-  const room = rooms.get(roomCode);
-  if (!room) return;
+/**
+ * Отправляет вошедшему пропущенные сообщения комнаты - все из журнала
+ * или только после resume_after, если клиент переподключается.
+ */
+async function sendBacklog(ws, roomCode, username, resumeAfter) {
+  const { messages, lastSeq, truncated } = roomManager.getBacklog(roomCode, resumeAfter);
+  const participant = roomManager.findByUsername(roomCode, username);
 
-  room.forEach(({ ws }) => {
-    if (ws !== excludeWs && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
-    }
+  const replay = await Promise.all(messages.map(async entry => {
+    // Свои сообщения - в том виде, в каком их видел отправитель
+    const language = entry.username === username
+      ? entry.to
+      : participant?.language || entry.to;
+    const message = await buildRoomMessage(entry, language);
+    const ownMessage = entry.senderMessageId && participant?.sessionId && entry.senderSessionId === participant.sessionId;
+    return ownMessage ? { ...message, id: entry.senderMessageId } : message;
+  }));
+
+  sendTo(ws, {
+    type: 'backlog',
+    room: roomCode,
+    messages: replay,
+    last_seq: lastSeq,
+    truncated,
+    timestamp: new Date().toISOString()
   });
+
+  logger.debug(`Backlog for ${username} in ${roomCode}: ${replay.length} message(s) after seq ${resumeAfter ?? 0}`);
+}
+
+function handleLeaveRoom(ws, clientId) {
+  const left = roomManager.leave(clientId);
+  ws.room = null;
+  ws.username = null;
+  if (!left) return;
+
+  const { roomCode, participant } = left;
+  const roster = roomManager.getRoster(roomCode);
+
+  logger.info(`User ${participant.username} left room ${roomCode}`);
+
+  sendTo(ws, {
+    type: 'room_left',
+    room: roomCode,
+    timestamp: new Date().toISOString()
+  });
+
+  broadcastToRoom(roomCode, {
+    type: 'user_left',
+    username: participant.username,
+    participants: roster.length,
+    roster,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function handleSetLanguage(ws, clientId, data) {
+  const roomCode = roomManager.setLanguage(clientId, normalizeLanguage(data.language));
+  if (!roomCode) return;
+
+  broadcastToRoom(roomCode, {
+    type: 'user_updated',
+    username: ws.username,
+    roster: roomManager.getRoster(roomCode),
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Подключает глоссарий к комнате (glossary_id: null - отключает).
+ * Термины соблюдаются во всех переводах комнаты, включая перевод
+ * для каждого получателя.
+ */
+function handleSetGlossary(ws, clientId, data) {
+  const roomCode = roomManager.getRoomOf(clientId);
+  if (!roomCode) {
+    return sendError(ws, 'invalid_request', 'Сначала войдите в комнату');
+  }
+
+  const glossaryId = typeof data.glossary_id === 'string' && data.glossary_id ? data.glossary_id : null;
+  if (glossaryId && !glossaryService.get(glossaryId)) {
+    return sendError(ws, 'glossary_not_found', 'Глоссарий не найден');
+  }
+
+  roomManager.setGlossary(roomCode, glossaryId);
+  logger.info(`Room ${roomCode} glossary: ${glossaryId || 'none'} (by ${ws.username})`);
+
+  broadcastToRoom(roomCode, {
+    type: 'glossary_changed',
+    room: roomCode,
+    username: ws.username,
+    glossary: glossarySummary(roomCode),
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Обращение к получателям перевода: register (formal / informal / auto)
+ * и addressee_gender. language - только для получателей на этом языке,
+ * без него - для всех. auto + unspecified снимают настройку.
+ */
+function handleSetStyle(ws, clientId, data) {
+  const roomCode = roomManager.getRoomOf(clientId);
+  if (!roomCode) {
+    return sendError(ws, 'invalid_request', 'Сначала войдите в комнату');
+  }
+
+  const register = data.register || 'auto';
+  const addresseeGender = data.addressee_gender || 'unspecified';
+  if (!REGISTERS.includes(register) || !ADDRESSEE_GENDERS.includes(addresseeGender)) {
+    return sendError(ws, 'invalid_request', 'Неизвестный стиль обращения');
+  }
+
+  const language = data.language ? normalizeLanguage(data.language) : '*';
+  if (!language) {
+    return sendError(ws, 'invalid_request', 'Неподдерживаемый язык');
+  }
+
+  const isDefault = register === 'auto' && addresseeGender === 'unspecified';
+  roomManager.setStyle(roomCode, language, isDefault ? null : { register, addresseeGender });
+  logger.info(`Room ${roomCode} style for ${language}: ${register}/${addresseeGender} (by ${ws.username})`);
+
+  broadcastToRoom(roomCode, {
+    type: 'style_changed',
+    room: roomCode,
+    username: ws.username,
+    language,
+    styles: stylesSummary(roomCode),
+    timestamp: new Date().toISOString()
+  });
+}
+
+function handleDisconnect(ws, clientId) {
+  handleLeaveRoom(ws, clientId);
+}
+
+function broadcastToRoom(roomCode, message, excludeWs = null) {
+  return roomManager.broadcast(roomCode, message, excludeWs);
 }
 
 function handleSetRole(clientId, data) {
@@ -61,31 +414,142 @@ function handleTranslation(ws, clientId, data) {
 
   // Broadcast в комнату
   if (ws.room) {
-    broadcastToRoom(ws.room, {
-      type: 'translation',
-      username: ws.username,
-      original: data.original,
-      translation: data.translation,
-      from: data.from,
-      to: data.to,
-      timestamp: new Date().toISOString()
-    }, ws);  // ws передаётся как excludeWs - не отправляем себе
+    return deliverToRoom(ws, data);
   } else {
     // Старая логика broadcast для всех
     clientManager.broadcastToOthers(clientId, message);
   }
 }
 
+/**
+ * Перевод сообщения журнала на язык получателя. Каждый язык переводится
+ * один раз (и через кэш) и запоминается в записи журнала - для остальных
+ * получателей и для backlog.
+ */
+async function buildRoomMessage(entry, language) {
+  let translation = entry.translations[language];
+  let deliveredLanguage = language;
+
+  if (translation === undefined) {
+    try {
+      const result = await translateWithCache(translationService, entry.original, entry.from, language, {
+        glossaryId: entry.glossaryId,
+        style: styleForLanguage(entry.styles, language)
+      });
+      translation = result.translated_text;
+      entry.translations[language] = translation;
+    } catch (error) {
+      // Лучше перевод отправителя, чем ничего
+      logger.error(`Fan-out translation ${entry.from} → ${language} failed:`, error.message);
+      translation = entry.translations[entry.to];
+      deliveredLanguage = entry.to;
+    }
+  }
+
+  return {
+    type: 'translation',
+    id: entry.id,
+    seq: entry.seq,
+    username: entry.username,
+    original: entry.original,
+    translation,
+    from: entry.from,
+    to: deliveredLanguage,
+    timestamp: entry.timestamp
+  };
+}
+
+/**
+ * Сообщение записывается в журнал комнаты, затем каждый участник
+ * получает перевод на свой язык.
+ */
+async function deliverToRoom(ws, data) {
+  // Коды языков уходят всем участникам и в журнал - произвольный текст не пропускаем
+  const from = normalizeLanguage(data.from);
+  const to = normalizeLanguage(data.to);
+  if (!from || !to) {
+    return sendError(ws, 'invalid_request', 'Неподдерживаемый язык перевода');
+  }
+
+  const sender = roomManager.findByUsername(ws.room, ws.username);
+
+  // Номер присваиваем сразу, до перевода - порядок журнала = порядок прихода
+  const entry = roomManager.appendMessage(ws.room, {
+    // id выдаёт сервер: чужой id сломал бы отсев повторов у остальных участников
+    id: crypto.randomUUID(),
+    // id от клиента - только для него самого: по нему он узнаёт своё сообщение в backlog
+    senderSessionId: sender?.sessionId ?? null,
+    senderMessageId: typeof data.id === 'string' && data.id.length > 0 && data.id.length <= 64 ? data.id : null,
+    username: ws.username,
+    original: data.original,
+    from,
+    to,
+    translations: { [from]: data.original, [to]: data.translation },
+    // Глоссарий и стили на момент сообщения - ими же переводится и backlog
+    glossaryId: roomManager.getGlossary(ws.room),
+    styles: roomManager.getStyles(ws.room),
+    timestamp: new Date().toISOString()
+  });
+
+  const recipients = roomManager.getParticipants(ws.room)
+    .filter(participant => participant.ws !== ws && participant.ws.readyState === WebSocket.OPEN);
+
+  const byLanguage = new Map();
+  recipients.forEach(participant => {
+    const language = participant.language || to;
+    if (!byLanguage.has(language)) byLanguage.set(language, []);
+    byLanguage.get(language).push(participant);
+  });
+
+  await Promise.all(Array.from(byLanguage.entries()).map(async ([language, participants]) => {
+    const message = JSON.stringify(await buildRoomMessage(entry, language));
+
+    participants.forEach(participant => {
+      try {
+        participant.ws.send(message);
+      } catch (error) {
+        logger.error(`Failed to send to ${participant.clientId}:`, error.message);
+      }
+    });
+  }));
+
+  logger.debug(`Translation #${entry.seq} delivered in ${byLanguage.size} language(s) to ${recipients.length} participant(s)`);
+}
+
 function handleMessage(ws, clientId, data) {
   switch (data.type) {
     case 'join_room':
-      handleJoinRoom(ws, data, clientId);
+      handleJoinRoom(ws, data, clientId).catch(error => {
+        logger.error(`Join failed for ${clientId}:`, error.message);
+      });
+      break;
+    case 'create_room':
+      handleCreateRoom(ws, data, clientId).catch(error => {
+        logger.error(`Room creation failed for ${clientId}:`, error.message);
+      });
+      break;
+    case 'create_invite':
+      handleCreateInvite(ws, clientId, data);
+      break;
+    case 'leave_room':
+      handleLeaveRoom(ws, clientId);
       break;
     case 'set_role':
       handleSetRole(clientId, data);
       break;
+    case 'set_language':
+      handleSetLanguage(ws, clientId, data);
+      break;
+    case 'set_glossary':
+      handleSetGlossary(ws, clientId, data);
+      break;
+    case 'set_style':
+      handleSetStyle(ws, clientId, data);
+      break;
     case 'translation':
-      handleTranslation(ws, clientId, data);
+      Promise.resolve(handleTranslation(ws, clientId, data)).catch(error => {
+        logger.error(`Translation delivery failed for ${clientId}:`, error.message);
+      });
       break;
     default:
       clientManager.broadcastToOthers(clientId, {
@@ -99,6 +563,13 @@ function handleMessage(ws, clientId, data) {
 module.exports = {
   handleMessage,
   handleJoinRoom,
+  handleCreateRoom,
+  handleCreateInvite,
+  handleLeaveRoom,
+  handleDisconnect,
+  handleSetLanguage,
+  handleSetGlossary,
+  handleSetStyle,
   handleSetRole,
   handleTranslation,
   broadcastToRoom
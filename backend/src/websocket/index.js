@@ -1,8 +1,12 @@
 const WebSocket = require('ws');
 const logger = require('../utils/logger');
 const clientManager = require('./clientManager');
+const roomManager = require('./roomManager');
 const handlers = require('./handlers');
 
+// Мобильные клиенты часто пропадают без close - проверяем сокеты ping/pong
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
 function setupWebSocket(server) {
   const wss = new WebSocket.Server({
     server,
@@ -12,6 +16,11 @@ function setupWebSocket(server) {
   wss.on('connection', (ws, request) => {
     const clientId = clientManager.addClient(ws, request);
 
+    ws.isAlive = true;
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
     // Приветственное сообщение
     ws.send(JSON.stringify({
       type: 'welcome',
@@ -34,6 +43,7 @@ function setupWebSocket(server) {
 
     // Обработка отключения
     ws.on('close', () => {
+      handlers.handleDisconnect(ws, clientId);
       clientManager.removeClient(clientId);
       logger.info(`🔌 Client disconnected: ${clientId}`);
     });
@@ -44,8 +54,21 @@ function setupWebSocket(server) {
     });
   });
 
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!ws.isAlive) {
+        logger.debug('💀 Terminating unresponsive WebSocket');
+        return ws.terminate();
+      }
+      ws.isAlive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
   logger.info('🌐 WebSocket server initialized');
   return wss;
 }
 
-module.exports = { setupWebSocket, clientManager };
+module.exports = { setupWebSocket, clientManager, roomManager };
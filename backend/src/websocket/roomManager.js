@@ -0,0 +1,262 @@
+const WebSocket = require('ws');
+const logger = require('../utils/logger');
+const config = require('../config');
+
+class RoomManager {
+  constructor() {
+    // roomCode -> Map<clientId, participant>
+    this.rooms = new Map();
+    // clientId -> roomCode
+    this.memberships = new Map();
+    // roomCode -> { seq, messages, expiryTimer } - журнал последних сообщений
+    this.logs = new Map();
+    // roomCode -> glossaryId - глоссарий комнаты живёт столько же, сколько журнал
+    this.glossaries = new Map();
+    // roomCode -> { '*' | язык: { register, addresseeGender } } - обращение к получателям
+    this.styles = new Map();
+  }
+
+  /**
+   * Добавляет участника в комнату.
+   * Имя должно быть уникальным в комнате; исключение - тот же session_id
+   * (вкладка переподключилась, а старый сокет ещё не закрыт) - тогда
+   * старая запись вытесняется новой.
+   * @returns {{ ok: true, replaced: object|null } | { ok: false, code: string }}
+   */
+  join(roomCode, { ws, clientId, username, sessionId, language, role = null }) {
+    if (!this.rooms.has(roomCode)) {
+      this.rooms.set(roomCode, new Map());
+      logger.info(`Room created: ${roomCode}`);
+    }
+    this.keepLog(roomCode);
+
+    const room = this.rooms.get(roomCode);
+    const existing = this.findByUsername(roomCode, username);
+    let replaced = null;
+
+    if (existing && existing.clientId !== clientId) {
+      if (!sessionId || existing.sessionId !== sessionId) {
+        return { ok: false, code: 'username_taken' };
+      }
+      // Прямо из карты комнаты: removeParticipant удалил бы опустевшую комнату
+      // вместе с новым участником и запустил бы истечение журнала
+      room.delete(existing.clientId);
+      this.memberships.delete(existing.clientId);
+      replaced = existing;
+      if (existing.ws.readyState === WebSocket.OPEN) {
+        existing.ws.close(4000, 'Replaced by a newer connection');
+      }
+    }
+
+    room.set(clientId, {
+      ws,
+      clientId,
+      username,
+      sessionId: sessionId || null,
+      // Язык, на котором участник хочет получать переводы
+      language: language || null,
+      // owner - создатель защищённой комнаты, guest - вошедший по паролю или приглашению
+      role,
+      joinedAt: new Date()
+    });
+    this.memberships.set(clientId, roomCode);
+
+    return { ok: true, replaced };
+  }
+
+  /**
+   * Убирает клиента из его комнаты. Пустая комната удаляется.
+   * @returns {{ roomCode: string, participant: object } | null}
+   */
+  leave(clientId) {
+    const roomCode = this.memberships.get(clientId);
+    if (!roomCode) return null;
+
+    const participant = this.removeParticipant(roomCode, clientId);
+    return participant ? { roomCode, participant } : null;
+  }
+
+  removeParticipant(roomCode, clientId) {
+    const room = this.rooms.get(roomCode);
+    this.memberships.delete(clientId);
+    if (!room || !room.has(clientId)) return null;
+
+    const participant = room.get(clientId);
+    room.delete(clientId);
+
+    if (room.size === 0) {
+      this.rooms.delete(roomCode);
+      this.expireLog(roomCode);
+      logger.info(`Room removed (empty): ${roomCode}`);
+    }
+
+    return participant;
+  }
+
+  setLanguage(clientId, language) {
+    const roomCode = this.memberships.get(clientId);
+    const participant = roomCode && this.rooms.get(roomCode)?.get(clientId);
+    if (!participant) return null;
+
+    participant.language = language || null;
+    return roomCode;
+  }
+
+  findByUsername(roomCode, username) {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    const needle = username.toLowerCase();
+    for (const participant of room.values()) {
+      if (participant.username.toLowerCase() === needle) {
+        return participant;
+      }
+    }
+    return null;
+  }
+
+  getRoomOf(clientId) {
+    return this.memberships.get(clientId) || null;
+  }
+
+  getParticipants(roomCode) {
+    const room = this.rooms.get(roomCode);
+    return room ? Array.from(room.values()) : [];
+  }
+
+  getRoster(roomCode) {
+    return this.getParticipants(roomCode).map(participant => ({
+      client_id: participant.clientId,
+      username: participant.username,
+      language: participant.language,
+      role: participant.role,
+      joined_at: participant.joinedAt.toISOString()
+    }));
+  }
+
+  broadcast(roomCode, message, excludeWs = null) {
+    let sentCount = 0;
+
+    this.getParticipants(roomCode).forEach(({ ws, clientId }) => {
+      if (ws !== excludeWs && ws.readyState === WebSocket.OPEN) {
+        try {
+          ws.send(JSON.stringify(message));
+          sentCount++;
+        } catch (error) {
+          logger.error(`Failed to send to ${clientId}:`, error.message);
+        }
+      }
+    });
+
+    return sentCount;
+  }
+
+  /**
+   * Записывает сообщение в журнал комнаты и присваивает ему номер.
+   * Журнал ограничен config.limits.roomBacklogSize - старые сообщения вытесняются.
+   */
+  appendMessage(roomCode, message) {
+    const log = this.keepLog(roomCode);
+    const entry = { ...message, seq: ++log.seq };
+
+    log.messages.push(entry);
+    if (log.messages.length > config.limits.roomBacklogSize) {
+      log.messages.shift();
+    }
+    return entry;
+  }
+
+  /**
+   * Сообщения после afterSeq (все, если afterSeq не задан).
+   * afterSeq больше последнего номера значит, что журнал успел смениться
+   * (комната пересоздана) - тогда отдаём всё, дубликаты клиент отсеет по id.
+   * @returns {{ messages: object[], lastSeq: number, truncated: boolean }}
+   */
+  getBacklog(roomCode, afterSeq = null) {
+    const log = this.logs.get(roomCode);
+    if (!log) return { messages: [], lastSeq: 0, truncated: false };
+
+    const from = Number.isInteger(afterSeq) && afterSeq >= 0 && afterSeq <= log.seq ? afterSeq : 0;
+    const messages = log.messages.filter(message => message.seq > from);
+    const oldest = log.messages.length > 0 ? log.messages[0].seq : log.seq + 1;
+
+    return {
+      messages,
+      lastSeq: log.seq,
+      // Часть пропущенного уже вытеснена из журнала
+      truncated: oldest > from + 1
+    };
+  }
+
+  keepLog(roomCode) {
+    let log = this.logs.get(roomCode);
+    if (!log) {
+      log = { seq: 0, messages: [], expiryTimer: null };
+      this.logs.set(roomCode, log);
+    }
+    if (log.expiryTimer) {
+      clearTimeout(log.expiryTimer);
+      log.expiryTimer = null;
+    }
+    return log;
+  }
+
+  // Журнал пустой комнаты живёт ещё немного: телефон мог лишь ненадолго потерять связь
+  expireLog(roomCode) {
+    const log = this.logs.get(roomCode);
+    if (!log) return;
+
+    log.expiryTimer = setTimeout(() => this.dropLog(roomCode), config.limits.roomBacklogTtl);
+    log.expiryTimer.unref();
+  }
+
+  // Журнал, глоссарий и стили комнаты - сразу, не дожидаясь истечения
+  dropLog(roomCode) {
+    const log = this.logs.get(roomCode);
+    if (!log) return;
+
+    clearTimeout(log.expiryTimer);
+    this.logs.delete(roomCode);
+    this.glossaries.delete(roomCode);
+    this.styles.delete(roomCode);
+    logger.debug(`Room backlog dropped: ${roomCode}`);
+  }
+
+  setGlossary(roomCode, glossaryId) {
+    if (glossaryId) {
+      this.glossaries.set(roomCode, glossaryId);
+    } else {
+      this.glossaries.delete(roomCode);
+    }
+  }
+
+  getGlossary(roomCode) {
+    return this.glossaries.get(roomCode) || null;
+  }
+
+  // language - язык получателей или '*' для всех; style: null снимает настройку
+  setStyle(roomCode, language, style) {
+    const styles = { ...this.getStyles(roomCode) };
+    if (style) {
+      styles[language] = style;
+    } else {
+      delete styles[language];
+    }
+
+    if (Object.keys(styles).length > 0) {
+      this.styles.set(roomCode, styles);
+    } else {
+      this.styles.delete(roomCode);
+    }
+  }
+
+  getStyles(roomCode) {
+    return this.styles.get(roomCode) || {};
+  }
+
+  getRoomCount() {
+    return this.rooms.size;
+  }
+}
+
+module.exports = new RoomManager();
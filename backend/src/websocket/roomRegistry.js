@@ -0,0 +1,236 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { promisify } = require('util');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const scrypt = promisify(crypto.scrypt);
+
+// Неудачных вводов пароля на комнату, после которых вход по паролю закрывается на минуту
+const MAX_PASSPHRASE_FAILURES = 10;
+const PASSPHRASE_LOCK_MS = 60 * 1000;
+
+/**
+ * Защищённые комнаты: владелец, необязательный пароль (scrypt) и подписанные
+ * токены - токен владельца и приглашения со сроком действия. Комнаты без
+ * записи здесь остаются открытыми, как раньше.
+ * Хранится в JSON-файле: после перезапуска защищённая комната не должна
+ * стать открытой.
+ */
+class RoomRegistry {
+  constructor(filePath = path.join(config.paths.data, 'rooms.json')) {
+    this.filePath = filePath;
+    // roomCode -> { code, owner, passphrase_hash, nonce, created_at, last_used_at }
+    this.rooms = new Map();
+    // roomCode -> { count, lockedUntil }
+    this.failures = new Map();
+    this.writeQueue = Promise.resolve();
+
+    this.secret = config.rooms.secret;
+    if (!this.secret) {
+      this.secret = crypto.randomBytes(32).toString('hex');
+      logger.warn('ROOM_SECRET is not set - room invites will not survive a restart');
+    }
+
+    this.load();
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const now = Date.now();
+      (stored.rooms || [])
+        .filter(room => Date.parse(room.last_used_at) + config.rooms.ownerTtl > now)
+        .forEach(room => this.rooms.set(room.code, room));
+      logger.info(`Protected rooms loaded: ${this.rooms.size}`);
+    } catch (error) {
+      logger.error(`Failed to load rooms from ${this.filePath}:`, error.message);
+    }
+  }
+
+  persist() {
+    const data = JSON.stringify({ rooms: Array.from(this.rooms.values()) }, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, data);
+        await fs.promises.rename(tempPath, this.filePath);
+      })
+      .catch(error => {
+        logger.error('Failed to save rooms:', error.message);
+      });
+
+    return this.writeQueue;
+  }
+
+  get(roomCode) {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    // Давно заброшенная комната освобождает код
+    if (Date.parse(room.last_used_at) + config.rooms.ownerTtl <= Date.now()) {
+      this.rooms.delete(roomCode);
+      this.persist();
+      return null;
+    }
+    return room;
+  }
+
+  /**
+   * Регистрирует комнату. Возвращает токен владельца - с ним владелец
+   * входит без пароля и выдаёт приглашения; null - код уже занят.
+   * @returns {Promise<{ room: object, ownerToken: string } | null>}
+   */
+  async create(roomCode, { owner, passphrase = null }) {
+    const passphraseHash = passphrase ? await hashPassphrase(passphrase) : null;
+    // Пока считался хэш, код мог занять кто-то другой
+    if (this.get(roomCode)) return null;
+
+    const now = new Date().toISOString();
+    const room = {
+      code: roomCode,
+      owner,
+      passphrase_hash: passphraseHash,
+      // Меняется при пересоздании комнаты - старые токены к новой не подходят
+      nonce: crypto.randomBytes(8).toString('hex'),
+      created_at: now,
+      last_used_at: now
+    };
+
+    this.rooms.set(roomCode, room);
+    await this.persist();
+    logger.info(`Protected room created: ${roomCode} (owner ${owner}${room.passphrase_hash ? ', passphrase' : ''})`);
+
+    return { room, ownerToken: this.issueToken(room, 'owner', config.rooms.ownerTtl).token };
+  }
+
+  /**
+   * Проверяет право войти. Открытая комната пускает всех (role: null),
+   * защищённая - по действующему токену или паролю.
+   * @returns {Promise<{ ok: true, role: 'owner'|'guest'|null } | { ok: false, code: string }>}
+   */
+  async authorize(roomCode, { passphrase, token }) {
+    const room = this.get(roomCode);
+    if (!room) return { ok: true, role: null };
+
+    if (token) {
+      const verified = this.verifyToken(room, token);
+      if (!verified.ok) return verified;
+      this.touch(room);
+      return { ok: true, role: verified.role };
+    }
+
+    if (!room.passphrase_hash) {
+      // Без пароля - только по приглашению
+      return { ok: false, code: 'invite_required' };
+    }
+    if (!passphrase) {
+      return { ok: false, code: 'passphrase_required' };
+    }
+
+    const failures = this.failures.get(roomCode);
+    if (failures && failures.lockedUntil > Date.now()) {
+      return { ok: false, code: 'too_many_attempts' };
+    }
+
+    if (!await verifyPassphrase(passphrase, room.passphrase_hash)) {
+      this.recordFailure(roomCode);
+      return { ok: false, code: 'passphrase_invalid' };
+    }
+
+    this.failures.delete(roomCode);
+    this.touch(room);
+    return { ok: true, role: 'guest' };
+  }
+
+  recordFailure(roomCode) {
+    const failures = this.failures.get(roomCode) || { count: 0, lockedUntil: 0 };
+    failures.count++;
+    if (failures.count >= MAX_PASSPHRASE_FAILURES) {
+      failures.count = 0;
+      failures.lockedUntil = Date.now() + PASSPHRASE_LOCK_MS;
+      logger.warn(`Room ${roomCode}: passphrase entry locked after repeated failures`);
+    }
+    this.failures.set(roomCode, failures);
+  }
+
+  touch(room) {
+    room.last_used_at = new Date().toISOString();
+    this.persist();
+  }
+
+  /**
+   * Токен: base64url(JSON { r, n, role, exp }).подпись HMAC-SHA256.
+   * @returns {{ token: string, expiresAt: string }}
+   */
+  issueToken(room, role, ttl) {
+    const exp = Date.now() + ttl;
+    const payload = Buffer.from(JSON.stringify({ r: room.code, n: room.nonce, role, exp })).toString('base64url');
+    return {
+      token: `${payload}.${this.sign(payload)}`,
+      expiresAt: new Date(exp).toISOString()
+    };
+  }
+
+  issueInvite(roomCode, ttl = config.rooms.inviteTtl) {
+    const room = this.get(roomCode);
+    return room ? this.issueToken(room, 'guest', ttl) : null;
+  }
+
+  /** @returns {{ ok: true, role: string } | { ok: false, code: string }} */
+  verifyToken(room, token) {
+    const [payload, signature] = typeof token === 'string' ? token.split('.') : [];
+    if (!payload || !signature || !safeEqual(signature, this.sign(payload))) {
+      return { ok: false, code: 'invite_invalid' };
+    }
+
+    let claims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return { ok: false, code: 'invite_invalid' };
+    }
+
+    if (claims.r !== room.code || claims.n !== room.nonce) {
+      return { ok: false, code: 'invite_invalid' };
+    }
+    if (!Number.isFinite(claims.exp) || claims.exp <= Date.now()) {
+      return { ok: false, code: 'invite_expired' };
+    }
+    return { ok: true, role: claims.role === 'owner' ? 'owner' : 'guest' };
+  }
+
+  sign(payload) {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  isProtected(roomCode) {
+    return this.get(roomCode) !== null;
+  }
+}
+
+async function hashPassphrase(passphrase) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(passphrase, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassphrase(passphrase, stored) {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(passphrase, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function safeEqual(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+module.exports = new RoomRegistry();
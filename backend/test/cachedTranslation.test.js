@@ -0,0 +1,141 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Ни кэш, ни глоссарии не пишут на диск проекта
+process.env.CACHE_SNAPSHOT_INTERVAL_MS = '0';
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashka-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.TRANSLATION_PROVIDERS = 'local';
+
+const { test, beforeEach, after } = require('node:test');
+const assert = require('node:assert/strict');
+const cache = require('../src/utils/cache');
+const glossaryService = require('../src/services/glossaryService');
+const { UnifiedTranslationService } = require('../src/services/unifiedTranslationService');
+const { ProviderChain } = require('../src/services/providers');
+const { LocalProvider } = require('../src/services/providers/localProvider');
+const { translateWithCache, translateBatchWithCache } = require('../src/services/cachedTranslation');
+
+// Локальный провайдер, который запоминает запросы
+function recordingService({ fallback = false } = {}) {
+  const local = new LocalProvider();
+  const requests = [];
+  const provider = {
+    name: 'recording',
+    isAvailable: () => true,
+    translate: request => {
+      requests.push(request);
+      return local.translate(request);
+    },
+    translateBatch: request => {
+      requests.push(request);
+      return local.translateBatch(request);
+    }
+  };
+  const providers = fallback
+    ? new ProviderChain([{ name: 'down', isAvailable: () => true, translate: () => { throw new Error('down'); } }, provider])
+    : new ProviderChain([provider]);
+  return { service: new UnifiedTranslationService({ providers }), requests };
+}
+
+beforeEach(() => {
+  cache.clear();
+});
+
+after(async () => {
+  await glossaryService.writeQueue;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('a repeated translation is served from the cache', async () => {
+  const { service, requests } = recordingService();
+
+  const first = await translateWithCache(service, 'Mam pytanie', 'PL', 'DE');
+  const second = await translateWithCache(service, '  Mam   pytanie ', 'PL', 'DE');
+
+  assert.equal(first.from_cache, false);
+  assert.equal(second.from_cache, true);
+  assert.equal(requests.length, 1);
+});
+
+test('register and addressee gender are part of the key', async () => {
+  const { service, requests } = recordingService();
+
+  await translateWithCache(service, 'Mam pytanie', 'PL', 'RU');
+  const formal = await translateWithCache(service, 'Mam pytanie', 'PL', 'RU', {
+    style: { register: 'formal', addresseeGender: 'female' }
+  });
+
+  assert.equal(formal.from_cache, false);
+  assert.equal(requests.length, 2);
+  assert.ok(cache.get('Mam pytanie', 'PL', 'RU', 'style:formal/female'));
+  assert.ok(cache.get('Mam pytanie', 'PL', 'RU', ''));
+});
+
+test('style settings a language does not distinguish share the plain entry', async () => {
+  const { service, requests } = recordingService();
+
+  await translateWithCache(service, 'Mam pytanie', 'PL', 'EN');
+  const formal = await translateWithCache(service, 'Mam pytanie', 'PL', 'EN', { style: { register: 'formal' } });
+  // В немецком обращение не зависит от рода
+  await translateWithCache(service, 'Mam pytanie', 'PL', 'DE', { style: { register: 'formal' } });
+  const withGender = await translateWithCache(service, 'Mam pytanie', 'PL', 'DE', {
+    style: { register: 'formal', addresseeGender: 'male' }
+  });
+
+  assert.equal(formal.from_cache, true);
+  assert.equal(withGender.from_cache, true);
+  assert.equal(requests.length, 2);
+});
+
+test('a glossary changes the key only when its terms occur in the text', async () => {
+  const { service, requests } = recordingService();
+  const glossary = await glossaryService.create({
+    name: 'Podatki',
+    source_language: 'PL',
+    target_language: 'DE',
+    entries: [{ source: 'zaliczka', target: 'Vorauszahlung' }]
+  });
+
+  const withTerm = await translateWithCache(service, 'Zapłacę zaliczkę', 'PL', 'DE', { glossaryId: glossary.id });
+  assert.deepEqual(withTerm.glossary_terms_applied, [{ source: 'zaliczka', target: 'Vorauszahlung' }]);
+  assert.ok(cache.get('Zapłacę zaliczkę', 'PL', 'DE', `glossary:${glossary.id}@${glossary.version}`));
+
+  await translateWithCache(service, 'Mam pytanie', 'PL', 'DE', { glossaryId: glossary.id });
+  const plain = await translateWithCache(service, 'Mam pytanie', 'PL', 'DE');
+  assert.equal(plain.from_cache, true);
+  assert.equal(requests.length, 2);
+});
+
+test('translations with context and from a fallback provider are not cached', async () => {
+  const { service } = recordingService();
+  await translateWithCache(service, 'A ten drugi?', 'PL', 'DE', { context: [{ text: 'Dwa formularze' }] });
+  assert.equal(cache.getSize(), 0);
+
+  const { service: fallbackService } = recordingService({ fallback: true });
+  const result = await translateWithCache(fallbackService, 'Mam pytanie', 'PL', 'DE');
+  assert.equal(result.provider, 'local-echo');
+  assert.equal(cache.getSize(), 0);
+});
+
+test('a batch reuses cached segments and translates duplicates once', async () => {
+  const { service, requests } = recordingService();
+  await translateWithCache(service, 'Dzień dobry', 'PL', 'DE');
+
+  const { results, providerCalls } = await translateBatchWithCache(
+    service,
+    ['Dzień dobry', 'Mam pytanie', 'Dziękuję', 'Mam pytanie'],
+    'PL',
+    'DE'
+  );
+
+  assert.deepEqual(results.map(result => [result.index, result.translated_text, result.from_cache]), [
+    [0, 'Guten Morgen', true],
+    [1, '[DE] Mam pytanie', false],
+    [2, 'Danke', false],
+    [3, '[DE] Mam pytanie', false]
+  ]);
+  assert.equal(providerCalls, 1);
+  assert.deepEqual(requests[1].texts, ['Mam pytanie', 'Dziękuję']);
+});
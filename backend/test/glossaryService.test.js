@@ -0,0 +1,61 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashka-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.TRANSLATION_PROVIDERS = 'local';
+
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const glossaryService = require('../src/services/glossaryService');
+const { LocalProvider } = require('../src/services/providers/localProvider');
+
+let glossary;
+
+before(async () => {
+  glossary = await glossaryService.create({
+    name: 'Podatki',
+    source_language: 'DE',
+    target_language: 'PL',
+    entries: [
+      { source: 'VAT', target: 'podatek VAT' },
+      { source: 'Steuererklärung', target: 'zeznanie podatkowe' },
+      { source: 'Finanzamt', target: 'urząd skarbowy' }
+    ]
+  });
+});
+
+after(async () => {
+  await glossaryService.writeQueue;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+const sources = terms => terms.map(term => term.source);
+
+test('terms match whole words only', () => {
+  assert.deepEqual(sources(glossaryService.findTerms(glossary.id, 'Eine private Angelegenheit', 'DE', 'PL')), []);
+  assert.deepEqual(sources(glossaryService.findTerms(glossary.id, 'Die VAT ist fällig', 'DE', 'PL')), ['VAT']);
+  assert.deepEqual(sources(glossaryService.findTerms(glossary.id, 'Ohne VAT.', 'DE', 'PL')), ['VAT']);
+});
+
+test('inflected forms of long terms still match', () => {
+  const terms = glossaryService.findTerms(glossary.id, 'Zwei Steuererklärungen beim Finanzamtes', 'DE', 'PL');
+  assert.deepEqual(sources(terms), ['Steuererklärung', 'Finanzamt']);
+});
+
+test('the glossary works in the reverse direction', () => {
+  const terms = glossaryService.findTerms(glossary.id, 'Złożę zeznanie podatkowe', 'PL', 'DE');
+  assert.deepEqual(terms, [{ source: 'zeznanie podatkowe', target: 'Steuererklärung' }]);
+  assert.deepEqual(glossaryService.findTerms(glossary.id, 'Złożę zeznanie', 'PL', 'DE'), []);
+});
+
+test('the local provider substitutes terms only as whole words', async () => {
+  const result = await new LocalProvider().translate({
+    text: 'private VAT',
+    from: 'DE',
+    to: 'PL',
+    glossaryTerms: [{ source: 'VAT', target: 'podatek VAT' }]
+  });
+  assert.equal(result.translatedText, '[PL] private podatek VAT');
+});
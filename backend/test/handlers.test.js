@@ -0,0 +1,108 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashka-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.CACHE_SNAPSHOT_INTERVAL_MS = '0';
+process.env.TRANSLATION_PROVIDERS = 'local';
+
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const WebSocket = require('ws');
+const roomManager = require('../src/websocket/roomManager');
+const roomRegistry = require('../src/websocket/roomRegistry');
+const handlers = require('../src/websocket/handlers');
+
+function fakeSocket() {
+  return {
+    readyState: WebSocket.OPEN,
+    sent: [],
+    send(message) {
+      this.sent.push(JSON.parse(message));
+    },
+    close() {
+      this.readyState = WebSocket.CLOSED;
+    }
+  };
+}
+
+const types = ws => ws.sent.map(message => message.type);
+
+after(async () => {
+  await roomRegistry.writeQueue;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('an invite for a room whose protection expired is a room error', () => {
+  const ws = fakeSocket();
+  // Владелец всё ещё в комнате, а записи в реестре уже нет
+  roomManager.join('GONE1', { ws, clientId: 'gone-owner', username: 'Anna', role: 'owner' });
+
+  assert.doesNotThrow(() => handlers.handleCreateInvite(ws, 'gone-owner', {}));
+  assert.deepEqual(types(ws), ['error']);
+  assert.equal(ws.sent[0].code, 'room_expired');
+});
+
+test('a protected room does not inherit the backlog of an emptied open room', async () => {
+  const guest = fakeSocket();
+  roomManager.join('REUSE', { ws: guest, clientId: 'reuse-guest', username: 'Piotr' });
+  roomManager.appendMessage('REUSE', { id: 'secret', username: 'Piotr', original: 'Mój PESEL', from: 'PL', to: 'DE', translations: {} });
+  roomManager.setGlossary('REUSE', 'some-glossary');
+  roomManager.leave('reuse-guest');
+
+  const owner = fakeSocket();
+  await handlers.handleCreateRoom(owner, { room: 'REUSE', username: 'Anna', passphrase: 'tajne-haslo' }, 'reuse-owner');
+  // Журнал отправляется асинхронно
+  await new Promise(resolve => setImmediate(resolve));
+
+  assert.deepEqual(types(owner), ['room_created', 'room_joined', 'backlog']);
+  assert.equal(owner.sent[1].glossary, null);
+  assert.deepEqual(owner.sent[2].messages, []);
+});
+
+test('a room translation with an unsupported language is rejected, not relayed', async () => {
+  const sender = fakeSocket();
+  const peer = fakeSocket();
+  await handlers.handleJoinRoom(sender, { room: 'LANGS', username: 'Anna', language: 'RU' }, 'langs-sender');
+  await handlers.handleJoinRoom(peer, { room: 'LANGS', username: 'Jan', language: 'PL' }, 'langs-peer');
+  peer.sent = [];
+  sender.sent = [];
+
+  await handlers.handleTranslation(sender, 'langs-sender', {
+    type: 'translation',
+    original: 'Привет',
+    translation: 'Cześć',
+    from: '<img src=x onerror=alert(1)>',
+    to: 'PL'
+  });
+
+  assert.deepEqual(types(sender), ['error']);
+  assert.equal(sender.sent[0].code, 'invalid_request');
+  assert.deepEqual(peer.sent, []);
+  assert.deepEqual(roomManager.getBacklog('LANGS', 0).messages, []);
+});
+
+test('message ids come from the server; only the sender gets its own id back in the backlog', async () => {
+  const sender = fakeSocket();
+  const peer = fakeSocket();
+  await handlers.handleJoinRoom(sender, { room: 'IDS01', username: 'Anna', language: 'RU', session_id: 'anna-tab' }, 'ids-sender');
+  await handlers.handleJoinRoom(peer, { room: 'IDS01', username: 'Jan', language: 'PL', session_id: 'jan-tab' }, 'ids-peer');
+  peer.sent = [];
+
+  const translation = { type: 'translation', original: 'Привет', translation: 'Cześć', from: 'RU', to: 'PL' };
+  await handlers.handleTranslation(sender, 'ids-sender', { ...translation, id: 'reused-id' });
+  await handlers.handleTranslation(peer, 'ids-peer', { ...translation, id: 'reused-id', from: 'PL', to: 'RU' });
+
+  const [logged, forged] = roomManager.getBacklog('IDS01', 0).messages;
+  assert.notEqual(logged.id, 'reused-id');
+  assert.notEqual(forged.id, logged.id);
+  assert.equal(peer.sent.find(message => message.type === 'translation').id, logged.id);
+
+  // Отправитель переподключается той же вкладкой
+  const rejoined = fakeSocket();
+  await handlers.handleJoinRoom(rejoined, { room: 'IDS01', username: 'Anna', language: 'RU', session_id: 'anna-tab' }, 'ids-sender-2');
+  await new Promise(resolve => setImmediate(resolve));
+  const backlog = rejoined.sent.find(message => message.type === 'backlog');
+  assert.deepEqual(backlog.messages.map(message => message.id), ['reused-id', forged.id]);
+});
@@ -0,0 +1,114 @@
+process.env.TRANSLATION_PROVIDERS = 'local';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ProviderChain } = require('../src/services/providers');
+const { LocalProvider } = require('../src/services/providers/localProvider');
+
+function fakeProvider(name, { available = true, translate, translateStream } = {}) {
+  return {
+    name,
+    calls: 0,
+    isAvailable: () => available,
+    async translate(request) {
+      this.calls++;
+      return translate(request);
+    },
+    translateStream
+  };
+}
+
+const failing = message => () => {
+  throw new Error(message);
+};
+
+test('the first available provider answers without fallback', async () => {
+  const primary = fakeProvider('primary', { translate: () => ({ translatedText: 'A', provider: 'primary' }) });
+  const spare = fakeProvider('spare', { translate: () => ({ translatedText: 'B', provider: 'spare' }) });
+
+  const result = await new ProviderChain([primary, spare]).translate({ text: 'x' });
+
+  assert.equal(result.translatedText, 'A');
+  assert.equal(result.fallback, false);
+  assert.equal(spare.calls, 0);
+});
+
+test('a failing provider falls back to the next and marks the result', async () => {
+  const primary = fakeProvider('primary', { translate: failing('quota') });
+  const spare = fakeProvider('spare', { translate: () => ({ translatedText: 'B', provider: 'spare' }) });
+
+  const result = await new ProviderChain([primary, spare]).translate({ text: 'x' });
+
+  assert.equal(result.provider, 'spare');
+  assert.equal(result.fallback, true);
+  assert.equal(primary.calls, 1);
+});
+
+test('unavailable providers are skipped and the last error is thrown', async () => {
+  const offline = fakeProvider('offline', { available: false, translate: () => ({ translatedText: 'never' }) });
+  const first = fakeProvider('first', { translate: failing('first down') });
+  const second = fakeProvider('second', { translate: failing('second down') });
+  const chain = new ProviderChain([offline, first, second]);
+
+  assert.deepEqual(chain.names, ['first', 'second']);
+  await assert.rejects(chain.translate({ text: 'x' }), /second down/);
+  assert.equal(offline.calls, 0);
+});
+
+test('no available provider is an error', () => {
+  const chain = new ProviderChain([fakeProvider('offline', { available: false })]);
+  assert.throws(() => chain.available(), /No translation provider/);
+});
+
+test('a stream does not switch providers after the first chunk', async () => {
+  const primary = fakeProvider('primary', {
+    translateStream: async (request, onChunk) => {
+      onChunk('Hal');
+      throw new Error('connection reset');
+    }
+  });
+  let spareUsed = false;
+  const spare = fakeProvider('spare', {
+    translateStream: async () => {
+      spareUsed = true;
+      return { translatedText: 'Hallo' };
+    }
+  });
+  const chunks = [];
+
+  await assert.rejects(new ProviderChain([primary, spare]).translateStream({ text: 'x' }, chunk => chunks.push(chunk)), /connection reset/);
+  assert.deepEqual(chunks, ['Hal']);
+  assert.equal(spareUsed, false);
+});
+
+test('a stream that fails before any chunk falls back', async () => {
+  const primary = fakeProvider('primary', { translateStream: async () => { throw new Error('timeout'); } });
+  const spare = fakeProvider('spare', {
+    translateStream: async (request, onChunk) => {
+      onChunk('Hallo');
+      return { translatedText: 'Hallo', provider: 'spare' };
+    }
+  });
+
+  const result = await new ProviderChain([primary, spare]).translateStream({ text: 'x' }, () => {});
+
+  assert.equal(result.fallback, true);
+});
+
+test('the local provider translates dictionary phrases and echoes the rest', async () => {
+  const local = new LocalProvider();
+
+  const known = await local.translate({ text: 'Dzień dobry!', from: 'PL', to: 'DE' });
+  assert.equal(known.translatedText, 'Guten Morgen!');
+  assert.equal(known.provider, 'local-dictionary');
+
+  const unknown = await local.translate({ text: 'Mam pytanie', from: 'PL', to: 'DE' });
+  assert.equal(unknown.translatedText, '[DE] Mam pytanie');
+  assert.equal(unknown.provider, 'local-echo');
+});
+
+test('the local provider translates a batch in order', async () => {
+  const { results } = await new LocalProvider().translateBatch({ texts: ['dziękuję', 'tak', 'Mam pytanie'], from: 'PL', to: 'DE' });
+
+  assert.deepEqual(results.map(result => result.translatedText), ['danke', 'ja', '[DE] Mam pytanie']);
+});
@@ -0,0 +1,77 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const WebSocket = require('ws');
+const roomManager = require('../src/websocket/roomManager');
+
+// Сокет, достаточный для roomManager: состояние, send и close
+function fakeSocket() {
+  return {
+    readyState: WebSocket.OPEN,
+    sent: [],
+    closedWith: null,
+    send(message) {
+      this.sent.push(JSON.parse(message));
+    },
+    close(code) {
+      this.closedWith = code;
+      this.readyState = WebSocket.CLOSED;
+    }
+  };
+}
+
+test('an occupied name is rejected without the same session', () => {
+  roomManager.join('TAKEN', { ws: fakeSocket(), clientId: 'taken-1', username: 'Anna', sessionId: 's1' });
+  const result = roomManager.join('TAKEN', { ws: fakeSocket(), clientId: 'taken-2', username: 'anna', sessionId: 's2' });
+
+  assert.deepEqual(result, { ok: false, code: 'username_taken' });
+  assert.equal(roomManager.getParticipants('TAKEN').length, 1);
+});
+
+test('the only participant reconnecting with the same session stays in the room', () => {
+  const oldSocket = fakeSocket();
+  const newSocket = fakeSocket();
+  roomManager.join('SOLO', { ws: oldSocket, clientId: 'solo-old', username: 'Anna', sessionId: 's1' });
+  roomManager.appendMessage('SOLO', { id: 'm1', original: 'Cześć' });
+
+  const result = roomManager.join('SOLO', { ws: newSocket, clientId: 'solo-new', username: 'Anna', sessionId: 's1' });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.replaced.clientId, 'solo-old');
+  assert.equal(oldSocket.closedWith, 4000);
+  assert.deepEqual(roomManager.getParticipants('SOLO').map(p => p.clientId), ['solo-new']);
+  assert.equal(roomManager.getRoomOf('solo-new'), 'SOLO');
+  assert.equal(roomManager.getRoomOf('solo-old'), null);
+  // Журнал жив и не стоит на истечении
+  assert.equal(roomManager.logs.get('SOLO').expiryTimer, null);
+  assert.equal(roomManager.getBacklog('SOLO').messages.length, 1);
+
+  // Закрытие старого сокета уже ничего не убирает
+  assert.equal(roomManager.leave('solo-old'), null);
+  assert.equal(roomManager.broadcast('SOLO', { type: 'ping' }), 1);
+  assert.deepEqual(newSocket.sent, [{ type: 'ping' }]);
+});
+
+test('the last participant leaving removes the room and arms backlog expiry', () => {
+  roomManager.join('EMPTY', { ws: fakeSocket(), clientId: 'empty-1', username: 'Piotr' });
+  roomManager.appendMessage('EMPTY', { id: 'm1', original: 'Dzień dobry' });
+
+  const left = roomManager.leave('empty-1');
+
+  assert.equal(left.roomCode, 'EMPTY');
+  assert.equal(roomManager.getParticipants('EMPTY').length, 0);
+  assert.notEqual(roomManager.logs.get('EMPTY').expiryTimer, null);
+  // Вернувшийся вовремя получает журнал
+  roomManager.join('EMPTY', { ws: fakeSocket(), clientId: 'empty-2', username: 'Piotr' });
+  assert.equal(roomManager.getBacklog('EMPTY').messages.length, 1);
+});
+
+test('backlog resumes after a sequence number', () => {
+  roomManager.join('RESUME', { ws: fakeSocket(), clientId: 'resume-1', username: 'Anna' });
+  ['a', 'b', 'c'].forEach(id => roomManager.appendMessage('RESUME', { id }));
+
+  const { messages, lastSeq, truncated } = roomManager.getBacklog('RESUME', 1);
+
+  assert.deepEqual(messages.map(m => m.id), ['b', 'c']);
+  assert.equal(lastSeq, 3);
+  assert.equal(truncated, false);
+});
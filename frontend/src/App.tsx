@@ -1,7 +1,18 @@
 import AppShell from './AppShell';
+import UiLanguageProvider from './components/UiLanguageProvider';
+import TranslatorProvider from './components/TranslatorProvider';
+import LayoutProvider from './components/LayoutProvider';
 
 function App() {
-  return <AppShell />;
+  return (
+    <UiLanguageProvider>
+      <TranslatorProvider>
+        <LayoutProvider>
+          <AppShell />
+        </LayoutProvider>
+      </TranslatorProvider>
+    </UiLanguageProvider>
+  );
 }
 
 export default App;
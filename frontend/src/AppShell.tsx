@@ -1,10 +1,21 @@
 // frontend/src/AppShell.tsx
-import React from 'react';
+import { useLayout } from './hooks/useLayout';
 import DualTranslator from './components/Dashboard/DualTranslator';
+import DashboardTablet from './components/Dashboard/DashboardTablet';
+import DashboardMobile from './components/Dashboard/DashboardMobile';
 
+// Раскладка - по ширине экрана и способу ввода, пользователь может выбрать свою
 function AppShell() {
-  // Убрать все проверки ширины - всегда показываем DualTranslator
-  return <DualTranslator />;
+  const { layout } = useLayout();
+
+  switch (layout) {
+    case 'mobile':
+      return <DashboardMobile />;
+    case 'tablet':
+      return <DashboardTablet />;
+    default:
+      return <DualTranslator />;
+  }
 }
 
-export default AppShell;
\ No newline at end of file
+export default AppShell;
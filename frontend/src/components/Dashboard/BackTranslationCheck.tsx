@@ -0,0 +1,53 @@
+// src/components/Dashboard/BackTranslationCheck.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+
+/**
+ * Обратный перевод под оригиналом: говорящий видит, что поймёт собеседник.
+ * Низкий балл подсвечен, перевод ждёт подтверждения до отправки и озвучки.
+ */
+const BackTranslationCheck: React.FC = () => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const verification = useTranslatorState(s => s.verification);
+  if (!verification) return null;
+
+  const { backTranslation, similarity, drift, held } = verification;
+
+  return (
+    <div
+      className={`mt-3 rounded-xl p-3 text-sm ${
+        drift ? 'bg-amber-500/30 ring-2 ring-amber-300 text-white' : 'bg-white/5 text-white/80'
+      }`}
+      role={drift ? 'alert' : undefined}
+    >
+      <div className="flex justify-between items-center gap-2 flex-wrap">
+        <span className="font-semibold">{text.verification.backTranslation}</span>
+        <span className={drift ? 'font-semibold' : 'opacity-70'}>
+          {text.verification.similarity(Math.round(similarity * 100))}
+        </span>
+      </div>
+      <p className="mt-1 text-base leading-relaxed whitespace-pre-wrap">{backTranslation}</p>
+      {drift && held && (
+        <div className="mt-2 flex items-center gap-2 flex-wrap">
+          <span className="flex-1 min-w-48">{text.verification.drift}</span>
+          <button
+            onClick={store.releaseHeldTranslation}
+            className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold"
+          >
+            {text.verification.release}
+          </button>
+          <button
+            onClick={store.discardHeldTranslation}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-white"
+          >
+            {text.verification.discard}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackTranslationCheck;
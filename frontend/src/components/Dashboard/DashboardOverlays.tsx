@@ -0,0 +1,62 @@
+// src/components/Dashboard/DashboardOverlays.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { roomLink } from '../../config/roomLinks';
+import type { Dashboard } from '../../hooks/useDashboard';
+import RoomJoin from './RoomJoin';
+import RoomInvite from './RoomInvite';
+import HistorySidebar from './HistorySidebar';
+import GlossaryManager from './GlossaryManager';
+
+/** Окна поверх любой раскладки: вход в комнату, приглашение, история, глоссарии */
+const DashboardOverlays: React.FC<{ dashboard: Dashboard }> = ({ dashboard }) => {
+  const text = useUiText();
+  const { room, isConnected, history, invite, languages, languagePair, glossary } = dashboard;
+
+  return (
+    <>
+      {!isConnected && dashboard.showRoomJoin && (
+        <RoomJoin
+          onJoin={dashboard.joinRoom}
+          onCreate={dashboard.createRoom}
+          onClose={() => dashboard.setShowRoomJoin(false)}
+          error={dashboard.roomError}
+          languages={languages}
+          defaultLanguage={dashboard.speakerLang}
+          initial={dashboard.linkedRoom}
+        />
+      )}
+      {room && dashboard.showInvite && (
+        <RoomInvite
+          room={room.code}
+          link={room.role === 'owner' ? invite?.link ?? null : roomLink({ room: room.code })}
+          expiresAt={room.role === 'owner' ? invite?.expiresAt : undefined}
+          onCopy={(link) => dashboard.copyToClipboard(link, text.roomInvite.copied)}
+          onClose={() => dashboard.setShowInvite(false)}
+        />
+      )}
+      {dashboard.showHistory && (
+        <HistorySidebar
+          sessions={history.sessions}
+          currentSessionId={history.currentSessionId}
+          getSessionEntries={history.getSessionEntries}
+          searchEntries={history.searchEntries}
+          deleteSession={history.deleteSession}
+          onClose={() => dashboard.setShowHistory(false)}
+        />
+      )}
+      {dashboard.showGlossaries && (
+        <GlossaryManager
+          languages={languages}
+          languagePair={languagePair}
+          active={glossary}
+          inRoom={isConnected}
+          onSelect={dashboard.selectGlossary}
+          onClose={() => dashboard.setShowGlossaries(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default DashboardOverlays;
@@ -0,0 +1,43 @@
+// src/components/Dashboard/DashboardTools.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+import type { Dashboard } from '../../hooks/useDashboard';
+import StylePicker from './StylePicker';
+import SpeechSettingsMenu from './SpeechSettingsMenu';
+import LayoutPicker from './LayoutPicker';
+import UiLanguagePicker from './UiLanguagePicker';
+
+/** Глоссарий, проверка обратным переводом, обращение, озвучка, раскладка и язык интерфейса */
+const DashboardTools: React.FC<{ dashboard: Dashboard }> = ({ dashboard }) => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const verify = useTranslatorState(s => s.verify);
+  const { glossary, languages, languagePair, setShowGlossaries } = dashboard;
+
+  return (
+    <>
+      <button
+        onClick={() => setShowGlossaries(true)}
+        className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm max-w-48 truncate"
+        title={glossary ? glossary.name : text.glossary.none}
+      >
+        {glossary ? `📘 ${glossary.name}` : text.glossary.button}
+      </button>
+      <button
+        onClick={store.toggleVerify}
+        aria-pressed={verify}
+        className={`px-3 py-2 rounded-lg text-white text-sm ${verify ? 'bg-white/30 font-semibold' : 'bg-white/10 hover:bg-white/20'}`}
+        title={text.verification.toggleTitle}
+      >
+        {text.verification.toggle}
+      </button>
+      <StylePicker />
+      <SpeechSettingsMenu languages={languages} languagePair={languagePair} />
+      <LayoutPicker />
+      <UiLanguagePicker />
+    </>
+  );
+};
+
+export default DashboardTools;
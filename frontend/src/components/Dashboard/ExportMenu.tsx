@@ -0,0 +1,73 @@
+// src/components/Dashboard/ExportMenu.tsx
+import React, { useState } from 'react';
+import type { ConversationEntry } from '../../types';
+import { useUiText } from '../../hooks/useUiText';
+import {
+  downloadConversation,
+  printConversation,
+  type ExportFormat,
+  type ExportMeta
+} from '../../utils/exportConversation';
+
+interface ExportMenuProps {
+  entries: ConversationEntry[];
+  title: string;
+  room: string | null;
+  className?: string;
+}
+
+const FORMATS: ExportFormat[] = ['markdown', 'json', 'srt', 'vtt', 'html'];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ entries, title, room, className = '' }) => {
+  const text = useUiText();
+  const [isOpen, setIsOpen] = useState(false);
+  const disabled = entries.length === 0;
+  const meta: ExportMeta = { title, room, text };
+
+  const handleDownload = (format: ExportFormat) => {
+    downloadConversation(format, entries, meta);
+    setIsOpen(false);
+  };
+
+  const handlePrint = () => {
+    if (!printConversation(entries, meta)) {
+      alert(text.exportMenu.popupBlocked);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={`relative inline-block ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm disabled:opacity-40"
+        title={disabled ? text.exportMenu.empty : text.exportMenu.title}
+      >
+        {text.exportMenu.button}
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute end-0 z-50 mt-1 w-60 bg-purple-800 rounded-lg shadow-xl border border-white/20 overflow-hidden">
+          {FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              className="block w-full text-start px-3 py-2 text-sm hover:bg-white/20"
+            >
+              {text.exportMenu.formats[format]}
+            </button>
+          ))}
+          <button
+            onClick={handlePrint}
+            className="block w-full text-start px-3 py-2 text-sm hover:bg-white/20 border-t border-white/20"
+          >
+            {text.exportMenu.print}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,324 @@
+// src/components/Dashboard/GlossaryManager.tsx
+import React, { useEffect, useState } from 'react';
+import * as api from '../../services/api';
+import { useUiText } from '../../hooks/useUiText';
+import { languageLabel } from '../../config/languagePairs';
+import type {
+  GlossaryEntry,
+  GlossaryInput,
+  GlossaryListItem,
+  GlossarySummary,
+  Language,
+  LanguagePair
+} from '../../types';
+
+interface GlossaryManagerProps {
+  languages: Language[];
+  /** Языки нового глоссария по умолчанию */
+  languagePair: LanguagePair;
+  active: GlossarySummary | null;
+  /** В комнате выбор глоссария действует на всех участников */
+  inRoom: boolean;
+  onSelect: (glossary: GlossarySummary | null) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  /** null - новый глоссарий */
+  id: string | null;
+  glossary: GlossaryInput;
+}
+
+const EMPTY_ENTRY: GlossaryEntry = { source: '', target: '', note: '' };
+
+const toSummary = ({ id, name, source_language, target_language }: GlossarySummary): GlossarySummary =>
+  ({ id, name, source_language, target_language });
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({
+  languages,
+  languagePair,
+  active,
+  inRoom,
+  onSelect,
+  onClose
+}) => {
+  const text = useUiText();
+  const [glossaries, setGlossaries] = useState<GlossaryListItem[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Список перечитывается после каждой правки
+  const [listVersion, setListVersion] = useState(0);
+  const reload = () => setListVersion(version => version + 1);
+
+  useEffect(() => {
+    api.getGlossaries()
+      .then(result => {
+        setGlossaries(result.glossaries);
+        setLoadFailed(false);
+      })
+      .catch(() => setLoadFailed(true));
+  }, [listVersion]);
+
+  const startCreate = () => {
+    setSaveError(null);
+    setDraft({
+      id: null,
+      glossary: {
+        name: '',
+        source_language: languagePair.source,
+        target_language: languagePair.target,
+        entries: [{ ...EMPTY_ENTRY }]
+      }
+    });
+  };
+
+  const startEdit = async (id: string) => {
+    setSaveError(null);
+    try {
+      const { glossary } = await api.getGlossary(id);
+      setDraft({
+        id,
+        glossary: {
+          name: glossary.name,
+          source_language: glossary.source_language,
+          target_language: glossary.target_language,
+          entries: glossary.entries.length > 0 ? glossary.entries : [{ ...EMPTY_ENTRY }]
+        }
+      });
+    } catch {
+      setLoadFailed(true);
+    }
+  };
+
+  const updateDraft = (patch: Partial<GlossaryInput>) =>
+    setDraft(current => (current ? { ...current, glossary: { ...current.glossary, ...patch } } : current));
+
+  const updateEntry = (index: number, patch: Partial<GlossaryEntry>) => {
+    if (!draft) return;
+    updateDraft({
+      entries: draft.glossary.entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry))
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    // Недописанные строки не отправляем - сервер отклонил бы их целиком
+    const glossary = {
+      ...draft.glossary,
+      entries: draft.glossary.entries.filter(entry => entry.source.trim() && entry.target.trim())
+    };
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const result = draft.id
+        ? await api.updateGlossary(draft.id, glossary)
+        : await api.createGlossary(glossary);
+      // Подключённый глоссарий переименовали - обновляем и его
+      if (active?.id === result.glossary.id) onSelect(toSummary(result.glossary));
+      setDraft(null);
+      reload();
+    } catch (error) {
+      setSaveError(text.glossary.saveFailed((error as Error).message));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (glossary: GlossaryListItem) => {
+    if (!confirm(text.glossary.confirmDelete(glossary.name))) return;
+    try {
+      await api.deleteGlossary(glossary.id);
+      if (active?.id === glossary.id) onSelect(null);
+      reload();
+    } catch {
+      setLoadFailed(true);
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1 rounded bg-white/20 placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-white/50';
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/40" onClick={onClose}>
+      <aside
+        className="w-full max-w-lg h-full bg-gradient-to-b from-purple-700 to-blue-700 text-white flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-white/20">
+          <h2 className="text-xl font-semibold">{text.glossary.title}</h2>
+          <button onClick={onClose} className="text-3xl leading-none opacity-70 hover:opacity-100" title={text.glossary.close}>
+            ×
+          </button>
+        </div>
+
+        <div className="px-4 pt-3 text-sm opacity-80">
+          {inRoom && <p>{text.glossary.roomShared}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-3">
+              <input
+                value={draft.glossary.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder={text.glossary.name}
+                className={inputClass}
+                required
+              />
+              <div className="flex gap-2">
+                {(['source_language', 'target_language'] as const).map(field => (
+                  <select
+                    key={field}
+                    value={draft.glossary[field]}
+                    onChange={(e) => updateDraft({ [field]: e.target.value })}
+                    className={inputClass}
+                  >
+                    {languages.map(language => (
+                      <option key={language.code} value={language.code} className="text-gray-900">
+                        {language.flag} {language.name}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {draft.glossary.entries.map((entry, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    <input
+                      value={entry.source}
+                      onChange={(e) => updateEntry(index, { source: e.target.value })}
+                      placeholder={text.glossary.source}
+                      className={inputClass}
+                    />
+                    <span aria-hidden>→</span>
+                    <input
+                      value={entry.target}
+                      onChange={(e) => updateEntry(index, { target: e.target.value })}
+                      placeholder={text.glossary.target}
+                      className={inputClass}
+                    />
+                    <input
+                      value={entry.note ?? ''}
+                      onChange={(e) => updateEntry(index, { note: e.target.value })}
+                      placeholder={text.glossary.note}
+                      className={`${inputClass} max-w-28`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateDraft({ entries: draft.glossary.entries.filter((_, i) => i !== index) })}
+                      className="px-2 py-1 bg-red-500/70 hover:bg-red-600 rounded text-sm"
+                      title={text.glossary.removeEntry}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ entries: [...draft.glossary.entries, { ...EMPTY_ENTRY }] })}
+                  className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm"
+                >
+                  {text.glossary.addEntry}
+                </button>
+              </div>
+
+              {saveError && <p className="text-sm text-red-200">{saveError}</p>}
+
+              <div className="flex gap-2 justify-end">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg"
+                >
+                  {text.glossary.cancel}
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving || draft.glossary.source_language === draft.glossary.target_language}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold disabled:opacity-50"
+                >
+                  {text.glossary.save}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="flex justify-between items-center gap-2">
+                <button
+                  onClick={startCreate}
+                  className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm"
+                >
+                  {text.glossary.create}
+                </button>
+                {active && (
+                  <button
+                    onClick={() => onSelect(null)}
+                    className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm"
+                  >
+                    {text.glossary.disable}
+                  </button>
+                )}
+              </div>
+
+              {loadFailed && <p className="text-red-200 text-center">{text.glossary.loadFailed}</p>}
+
+              {glossaries !== null && glossaries.length === 0 && (
+                <p className="text-white/60 text-center py-4">{text.glossary.empty}</p>
+              )}
+
+              {glossaries?.map(glossary => (
+                <div
+                  key={glossary.id}
+                  className={`rounded-lg p-3 flex justify-between items-center gap-2 ${active?.id === glossary.id ? 'bg-white/30' : 'bg-white/10'}`}
+                >
+                  <div>
+                    <div className="font-semibold">{glossary.name}</div>
+                    <div className="text-sm opacity-70">
+                      {languageLabel(languages, glossary.source_language)} ↔ {languageLabel(languages, glossary.target_language)}
+                      {' · '}
+                      {text.glossary.entryCount(glossary.entry_count)}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {active?.id === glossary.id ? (
+                      <span className="px-2 py-1 text-sm">{text.glossary.inUse}</span>
+                    ) : (
+                      <button
+                        onClick={() => onSelect(toSummary(glossary))}
+                        className="px-2 py-1 bg-green-600/80 hover:bg-green-700 rounded text-sm"
+                      >
+                        {text.glossary.use}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startEdit(glossary.id)}
+                      className="px-2 py-1 bg-white/20 hover:bg-white/30 rounded text-sm"
+                      title={text.glossary.edit}
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => handleDelete(glossary)}
+                      className="px-2 py-1 bg-red-500/70 hover:bg-red-600 rounded text-sm"
+                      title={text.glossary.delete}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,164 @@
+// src/components/Dashboard/HistorySidebar.tsx
+import React, { useEffect, useState } from 'react';
+import type { HistoryEntry, HistorySession } from '../../types';
+import ExportMenu from './ExportMenu';
+import { useUiText } from '../../hooks/useUiText';
+
+interface HistorySidebarProps {
+  sessions: HistorySession[];
+  currentSessionId: string | null;
+  getSessionEntries: (sessionId: string) => Promise<HistoryEntry[]>;
+  searchEntries: (query: string) => Promise<HistoryEntry[]>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const EntryCard: React.FC<{ entry: HistoryEntry; locale: string }> = ({ entry, locale }) => (
+  <div className="bg-white/10 rounded-lg p-3 border-s-4 border-white/30">
+    <div className="flex justify-between items-center mb-1 text-sm">
+      <span className="font-semibold">
+        {entry.speaker}
+        <span className="ms-2 font-normal opacity-70">{entry.from} → {entry.to}</span>
+      </span>
+      <span className="opacity-70">{formatDate(entry.timestamp, locale)}</span>
+    </div>
+    <p className="mb-1">{entry.text}</p>
+    <p className="text-white/80 italic">→ {entry.translation}</p>
+  </div>
+);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  sessions,
+  currentSessionId,
+  getSessionEntries,
+  searchEntries,
+  deleteSession,
+  onClose
+}) => {
+  const text = useUiText();
+  const { locale } = text.meta;
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [selectedEntries, setSelectedEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<HistoryEntry[] | null>(null);
+
+  const selectedSession = sessions.find(session => session.id === selectedSessionId);
+
+  useEffect(() => {
+    if (!selectedSessionId) return;
+    getSessionEntries(selectedSessionId).then(setSelectedEntries);
+  }, [selectedSessionId, getSessionEntries]);
+
+  // Поиск с небольшой задержкой, чтобы не читать базу на каждую букву
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchEntries(query).then(setResults);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query, searchEntries]);
+
+  const handleDelete = async (session: HistorySession) => {
+    if (!confirm(text.history.confirmDelete(formatDate(session.startedAt, locale)))) return;
+    await deleteSession(session.id);
+    if (selectedSessionId === session.id) {
+      setSelectedSessionId(null);
+      setSelectedEntries([]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/40" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-gradient-to-b from-purple-700 to-blue-700 text-white flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-white/20">
+          <h2 className="text-xl font-semibold">{text.history.sidebarTitle}</h2>
+          <button onClick={onClose} className="text-3xl leading-none opacity-70 hover:opacity-100" title={text.history.close}>
+            ×
+          </button>
+        </div>
+
+        <div className="p-4">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={text.history.searchPlaceholder}
+            className="w-full px-3 py-2 rounded-lg bg-white/20 placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-white/50"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+          {results !== null ? (
+            results.length === 0 ? (
+              <p className="text-white/60 text-center py-4">{text.history.nothingFound}</p>
+            ) : (
+              results.map(entry => <EntryCard key={`${entry.sessionId}:${entry.id}`} entry={entry} locale={locale} />)
+            )
+          ) : selectedSessionId ? (
+            <>
+              <div className="flex justify-between items-center">
+                <button
+                  onClick={() => setSelectedSessionId(null)}
+                  className="text-sm opacity-80 hover:opacity-100"
+                >
+                  {text.history.backToSessions}
+                </button>
+                {selectedSession && (
+                  <ExportMenu
+                    entries={selectedEntries}
+                    title={text.exportMenu.sessionTitle(formatDate(selectedSession.startedAt, locale))}
+                    room={selectedSession.room}
+                  />
+                )}
+              </div>
+              {selectedEntries.map(entry => <EntryCard key={entry.id} entry={entry} locale={locale} />)}
+            </>
+          ) : sessions.length === 0 ? (
+            <p className="text-white/60 text-center py-4">{text.history.empty}</p>
+          ) : (
+            sessions.map(session => (
+              <div
+                key={session.id}
+                className="bg-white/10 hover:bg-white/20 rounded-lg p-3 flex justify-between items-center cursor-pointer"
+                onClick={() => setSelectedSessionId(session.id)}
+              >
+                <div>
+                  <div className="font-semibold">
+                    {session.room ? `🚪 ${session.room}` : text.history.localSession}
+                    {session.id === currentSessionId && (
+                      <span className="ms-2 text-xs opacity-70">{text.history.currentSession}</span>
+                    )}
+                  </div>
+                  <div className="text-sm opacity-70">
+                    {formatDate(session.startedAt, locale)} · {text.history.messageCount(session.messageCount)}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(session);
+                  }}
+                  className="px-2 py-1 bg-red-500/70 hover:bg-red-600 rounded text-sm"
+                  title={text.history.deleteTitle}
+                >
+                  🗑️
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,44 @@
+// src/components/Dashboard/LanguagePairControls.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+import { languageForRole, languageLabel } from '../../config/languagePairs';
+import LanguageSelector from './LanguageSelector';
+
+/** Пара языков (каждая сторона выбирает свой) и кто сейчас говорит */
+const LanguagePairControls: React.FC = () => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const languages = useTranslatorState(s => s.languages);
+  const languagePair = useTranslatorState(s => s.languagePair);
+  const currentRole = useTranslatorState(s => s.currentRole);
+  const speakerLang = languageForRole(languagePair, currentRole);
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <LanguageSelector
+        label={text.languageSelector.sourceLabel}
+        value={languagePair.source}
+        languages={languages}
+        exclude={languagePair.target}
+        onChange={(code) => store.setLanguagePair({ ...languagePair, source: code })}
+      />
+      <LanguageSelector
+        label={text.languageSelector.targetLabel}
+        value={languagePair.target}
+        languages={languages}
+        exclude={languagePair.source}
+        onChange={(code) => store.setLanguagePair({ ...languagePair, target: code })}
+      />
+      <button
+        onClick={store.switchSpeaker}
+        className="px-4 py-2 bg-white/20 text-white rounded-lg font-semibold hover:bg-white/30"
+        title={text.languageSelector.switchSpeakerTitle}
+      >
+        🎤 {languageLabel(languages, speakerLang)}
+      </button>
+    </div>
+  );
+};
+
+export default LanguagePairControls;
@@ -0,0 +1,38 @@
+// src/components/Dashboard/LanguageSelector.tsx
+import React from 'react';
+import type { Language } from '../../types';
+
+interface LanguageSelectorProps {
+  label: string;
+  /** Подсказка, если label - только значок */
+  title?: string;
+  value: string;
+  languages: Language[];
+  onChange: (code: string) => void;
+  /** Язык другой стороны - его нельзя выбрать второй раз */
+  exclude?: string;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ label, title, value, languages, onChange, exclude }) => (
+  <label className="flex items-center gap-2 bg-white/10 rounded-lg px-3 py-2 text-white text-sm" title={title}>
+    <span className="opacity-80">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-transparent font-semibold focus:outline-none cursor-pointer"
+    >
+      {languages.map(language => (
+        <option
+          key={language.code}
+          value={language.code}
+          disabled={language.code === exclude}
+          className="text-gray-900"
+        >
+          {language.flag} {language.name}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default LanguageSelector;
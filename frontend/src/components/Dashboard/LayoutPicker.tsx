@@ -0,0 +1,33 @@
+// src/components/Dashboard/LayoutPicker.tsx
+import React from 'react';
+import { LAYOUT_CHOICES, isLayoutChoice } from '../../config/layoutSettings';
+import { useLayout } from '../../hooks/useLayout';
+import { useUiText } from '../../hooks/useUiText';
+
+/** Раскладка: по устройству или принудительно телефон / планшет / компьютер */
+const LayoutPicker: React.FC = () => {
+  const text = useUiText();
+  const { choice, detected, setChoice } = useLayout();
+
+  return (
+    <label className="flex items-center gap-1 bg-white/10 rounded-lg px-2 py-2 text-white text-sm" title={text.layout.label}>
+      <span aria-hidden>🖥️</span>
+      <select
+        value={choice}
+        onChange={(e) => {
+          if (isLayoutChoice(e.target.value)) setChoice(e.target.value);
+        }}
+        aria-label={text.layout.label}
+        className="bg-transparent font-semibold focus:outline-none cursor-pointer"
+      >
+        {LAYOUT_CHOICES.map(value => (
+          <option key={value} value={value} className="text-gray-900">
+            {value === 'auto' ? text.layout.auto(text.layout[detected]) : text.layout[value]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LayoutPicker;
@@ -0,0 +1,83 @@
+// src/components/Dashboard/OriginalPanel.tsx
+import React, { useEffect, useRef } from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState } from '../../hooks/useTranslator';
+import { findLanguage } from '../../config/languagePairs';
+import type { Dashboard } from '../../hooks/useDashboard';
+import BackTranslationCheck from './BackTranslationCheck';
+
+interface OriginalPanelProps {
+  dashboard: Dashboard;
+  className?: string;
+}
+
+/** Речь говорящего: распознанный или введённый текст и проверка его перевода */
+const OriginalPanel: React.FC<OriginalPanelProps> = ({ dashboard, className = '' }) => {
+  const text = useUiText();
+  const originalText = useTranslatorState(s => s.originalText);
+  const { setOriginalText, performTranslation, languages, speakerLang } = dashboard;
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (textareaRef.current) textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+  }, [originalText]);
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-sm rounded-2xl p-4 sm:p-6 flex flex-col ${className}`}>
+      <div className="flex justify-between items-center gap-2 mb-4 flex-wrap">
+        <h2 className="text-white text-xl font-semibold flex items-center gap-2">
+          <span>{findLanguage(languages, speakerLang)?.flag}</span>
+          <span>{text.panels.original}</span>
+        </h2>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={dashboard.pasteToOriginal}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-white text-sm"
+          >
+            {text.buttons.paste}
+          </button>
+          <button
+            onClick={() => navigator.clipboard.writeText(originalText)}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-white text-sm"
+            disabled={!originalText}
+          >
+            {text.buttons.copy}
+          </button>
+          <button
+            onClick={dashboard.eraseAll}
+            className="px-3 py-1 bg-red-500/70 hover:bg-red-600 rounded-lg text-white text-sm"
+          >
+            {text.buttons.erase}
+          </button>
+          <button
+            onClick={dashboard.stopRecording}
+            className="px-3 py-1 bg-yellow-500/70 hover:bg-yellow-600 rounded-lg text-white text-sm"
+          >
+            {text.buttons.stop}
+          </button>
+        </div>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={originalText}
+        onChange={(e) => setOriginalText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.ctrlKey && e.key === 'v') {
+            e.preventDefault();
+            dashboard.pasteToOriginal();
+          }
+          if (e.ctrlKey && e.key === 'Enter') {
+            e.preventDefault();
+            performTranslation(originalText);
+          }
+        }}
+        placeholder={text.placeholders.inputText}
+        className="flex-1 min-h-32 bg-white/5 rounded-xl p-4 text-white text-lg leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-white/50"
+      />
+      <BackTranslationCheck />
+    </div>
+  );
+};
+
+export default OriginalPanel;
@@ -0,0 +1,38 @@
+// src/components/Dashboard/ParticipantList.tsx
+import React from 'react';
+import type { RoomParticipant } from '../../types';
+import { useUiText } from '../../hooks/useUiText';
+
+interface ParticipantListProps {
+  participants: RoomParticipant[];
+  /** Своё имя - выделяется в списке */
+  self?: string;
+}
+
+const ParticipantList: React.FC<ParticipantListProps> = ({ participants, self }) => {
+  const text = useUiText();
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-sm opacity-70">👥 {participants.length}</span>
+      {participants.map(participant => (
+        <span
+          key={participant.client_id}
+          className={`px-2 py-0.5 rounded-full text-sm ${
+            participant.username === self ? 'bg-white/40 font-semibold' : 'bg-white/20'
+          }`}
+          title={text.participants.joinedAt(new Date(participant.joined_at).toLocaleTimeString(text.meta.locale))}
+        >
+          <span className="inline-block w-2 h-2 rounded-full bg-green-400 me-1" />
+          {participant.role === 'owner' && (
+            <span className="me-1" title={text.participants.owner}>👑</span>
+          )}
+          {participant.username}
+          {participant.language && <span className="ms-1 opacity-70">{participant.language}</span>}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ParticipantList;
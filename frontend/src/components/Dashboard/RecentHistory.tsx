@@ -0,0 +1,67 @@
+// src/components/Dashboard/RecentHistory.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import type { Dashboard } from '../../hooks/useDashboard';
+import ExportMenu from './ExportMenu';
+
+interface RecentHistoryProps {
+  dashboard: Dashboard;
+  /** Сколько последних реплик показать; без ограничения - вся сессия */
+  limit?: number;
+  /** Контейнер списка: высота и прокрутка под раскладку */
+  listClassName?: string;
+  className?: string;
+}
+
+/** Реплики текущей сессии, экспорт и переход ко всей истории */
+const RecentHistory: React.FC<RecentHistoryProps> = ({ dashboard, limit, listClassName = '', className = '' }) => {
+  const text = useUiText();
+  const { history, room, setShowHistory } = dashboard;
+  const entries = limit ? history.entries.slice(-limit) : history.entries;
+
+  return (
+    <section className={`bg-white/10 backdrop-blur-sm text-white ${className}`}>
+      <div className="flex justify-between items-center gap-2 mb-3 flex-wrap">
+        <h3 className="font-semibold text-lg">{text.history.title}</h3>
+        <div className="flex gap-2">
+          <ExportMenu
+            entries={history.entries}
+            title={text.exportMenu.conversationTitle}
+            room={room?.code ?? null}
+          />
+          <button
+            onClick={() => setShowHistory(true)}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm"
+          >
+            {text.history.showAll}
+          </button>
+        </div>
+      </div>
+      <div className={`space-y-3 pe-2 ${listClassName}`}>
+        {entries.length === 0 ? (
+          <p className="text-white/50 text-center py-4">{text.history.empty}</p>
+        ) : (
+          entries.map(msg => (
+            <div key={msg.id} className="bg-white/10 rounded-lg p-3 border-s-4 border-white/30">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-semibold">
+                  {msg.speaker}
+                  <span className="ms-2 text-sm font-normal opacity-70">{msg.from} → {msg.to}</span>
+                </span>
+                <span className="text-sm opacity-70">
+                  {new Date(msg.timestamp).toLocaleTimeString(text.meta.locale, { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              <div className="text-base">
+                <p className="mb-1">{msg.text}</p>
+                <p className="text-white/80 italic">→ {msg.translation}</p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default RecentHistory;
@@ -0,0 +1,54 @@
+// src/components/Dashboard/RecordButton.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState } from '../../hooks/useTranslator';
+import type { Dashboard } from '../../hooks/useDashboard';
+
+interface RecordButtonProps {
+  dashboard: Dashboard;
+  /** Размер и форма кнопки под раскладку */
+  className?: string;
+}
+
+/** Старт/стоп записи - каким бы движком ни распознавалась речь */
+const RecordButton: React.FC<RecordButtonProps> = ({ dashboard, className = 'px-8 py-4 rounded-xl text-lg' }) => {
+  const text = useUiText();
+  const recognitionEngine = useTranslatorState(s => s.recognitionEngine);
+  const pendingClips = useTranslatorState(s => s.pendingClips);
+  const { isRecording, toggleRecording } = dashboard;
+
+  if (!recognitionEngine) {
+    return (
+      <button
+        disabled
+        className={`font-semibold text-white bg-gray-500 opacity-60 ${className}`}
+        title={text.recognition.unsupported}
+      >
+        {text.header.start}
+      </button>
+    );
+  }
+
+  const title = recognitionEngine === 'whisper'
+    ? text.recognition.serverTitle
+    : recognitionEngine === 'scripted' ? text.recognition.demoTitle : undefined;
+
+  return (
+    <button
+      onClick={toggleRecording}
+      className={`relative font-semibold text-white shadow-lg transition-all ${className} ${
+        isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-green-600 hover:bg-green-700'
+      }`}
+      title={title}
+    >
+      {isRecording ? text.header.stop : text.header.start}
+      {pendingClips > 0 && (
+        <span className="absolute -top-2 -end-2 min-w-6 h-6 px-1 rounded-full bg-yellow-400 text-purple-900 text-xs leading-6">
+          {pendingClips}
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default RecordButton;
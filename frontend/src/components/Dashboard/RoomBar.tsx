@@ -0,0 +1,31 @@
+// src/components/Dashboard/RoomBar.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+import ParticipantList from './ParticipantList';
+import LanguageSelector from './LanguageSelector';
+
+/** Участники комнаты и язык, на котором мне приходят её сообщения */
+const RoomBar: React.FC = () => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const room = useTranslatorState(s => s.room);
+  const participants = useTranslatorState(s => s.participants);
+  const languages = useTranslatorState(s => s.languages);
+  if (!room) return null;
+
+  return (
+    <div className="flex justify-center items-center gap-3 flex-wrap">
+      <ParticipantList participants={participants} self={room.username} />
+      <LanguageSelector
+        label="📥"
+        title={text.languageSelector.roomLanguageTitle}
+        value={room.language}
+        languages={languages}
+        onChange={store.setRoomLanguage}
+      />
+    </div>
+  );
+};
+
+export default RoomBar;
@@ -0,0 +1,47 @@
+// src/components/Dashboard/RoomControls.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import type { Dashboard } from '../../hooks/useDashboard';
+
+/** Вход в комнату, приглашение и выход */
+const RoomControls: React.FC<{ dashboard: Dashboard }> = ({ dashboard }) => {
+  const text = useUiText();
+  const { connectionStatus, room, setShowRoomJoin, openInvite, leaveRoom } = dashboard;
+
+  return (
+    <>
+      {/* Кнопка входа в комнату - показывается только когда backend готов */}
+      {connectionStatus.ai && connectionStatus.ws && !room && (
+        <button
+          onClick={() => setShowRoomJoin(true)}
+          className="px-4 py-2 bg-purple-500 hover:bg-purple-600 rounded-lg text-white text-sm font-semibold transition-all"
+          title={text.header.joinRoomTitle}
+        >
+          {text.header.joinRoom}
+        </button>
+      )}
+
+      {/* Гость защищённой комнаты приглашать не может */}
+      {room && room.role !== 'guest' && (
+        <button
+          onClick={openInvite}
+          className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg text-white text-sm font-semibold transition-all"
+          title={text.header.inviteTitle}
+        >
+          {text.header.invite}
+        </button>
+      )}
+
+      {room && (
+        <button
+          onClick={leaveRoom}
+          className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg text-white text-sm font-semibold transition-all"
+        >
+          {text.header.leaveRoom}
+        </button>
+      )}
+    </>
+  );
+};
+
+export default RoomControls;
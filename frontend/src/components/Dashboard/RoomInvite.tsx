@@ -0,0 +1,82 @@
+// src/components/Dashboard/RoomInvite.tsx
+import React, { useEffect, useState } from 'react';
+import { toDataURL } from 'qrcode';
+import { useUiText } from '../../hooks/useUiText';
+
+interface RoomInviteProps {
+  room: string;
+  /** null - приглашение ещё готовится на сервере */
+  link: string | null;
+  /** Срок приглашения; ссылка в открытую комнату бессрочна */
+  expiresAt?: string;
+  onCopy: (link: string) => void;
+  onClose: () => void;
+}
+
+/** Код комнаты, ссылка и QR-код для собеседника напротив. QR рисуется в браузере */
+const RoomInvite: React.FC<RoomInviteProps> = ({ room, link, expiresAt, onCopy, onClose }) => {
+  const text = useUiText();
+  const [qr, setQr] = useState<{ link: string; image: string } | null>(null);
+
+  useEffect(() => {
+    if (!link) return;
+    let cancelled = false;
+    toDataURL(link, { margin: 1, width: 256, errorCorrectionLevel: 'M' })
+      .then(image => {
+        if (!cancelled) setQr({ link, image });
+      })
+      .catch(error => console.error('QR code error:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [link]);
+
+  const qrImage = qr && qr.link === link ? qr.image : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl p-8 max-w-sm w-full mx-4 relative shadow-2xl text-center"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-gray-400 hover:text-gray-600 transition-colors text-3xl leading-none"
+          title={text.roomInvite.close}
+        >
+          ×
+        </button>
+
+        <h2 className="text-2xl font-bold mb-4 text-gray-800">{text.roomInvite.title}</h2>
+
+        <div className="text-sm text-gray-500">{text.roomInvite.code}</div>
+        <div className="text-4xl font-mono font-bold tracking-[0.3em] text-purple-700 mb-4">{room}</div>
+
+        <div className="mx-auto mb-4 w-64 h-64 flex items-center justify-center bg-gray-50 rounded-lg">
+          {qrImage ? (
+            <img src={qrImage} alt={link ?? ''} className="w-64 h-64" />
+          ) : (
+            <span className="text-sm text-gray-400">{text.roomInvite.pending}</span>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600 mb-1">{text.roomInvite.scanHint}</p>
+        {expiresAt && (
+          <p className="text-xs text-gray-400 mb-4">
+            {text.roomInvite.validUntil(new Date(expiresAt).toLocaleString(text.meta.locale))}
+          </p>
+        )}
+
+        <button
+          onClick={() => link && onCopy(link)}
+          disabled={!link}
+          className="w-full bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-semibold py-3 rounded-lg transition-colors shadow-lg"
+        >
+          {text.roomInvite.copy}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoomInvite;
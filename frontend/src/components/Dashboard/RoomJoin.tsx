@@ -1,21 +1,58 @@
 import React, { useState } from 'react';
+import type { Language } from '../../types';
+import type { RoomCredentials } from '../../services/websocket';
+import { parseInvite, type RoomLink } from '../../config/roomLinks';
+import { useUiText } from '../../hooks/useUiText';
+
+type RoomJoinMode = 'join' | 'create';
 
 interface RoomJoinProps {
-  onJoin: (roomCode: string, username: string) => void;
+  onJoin: (roomCode: string, username: string, language: string, credentials: RoomCredentials) => void;
+  /** Создать защищённую комнату; без пароля в неё входят только по приглашению, без кода его выдаёт сервер */
+  onCreate: (roomCode: string | undefined, username: string, language: string, passphrase?: string) => void;
   onClose?: () => void; // Опциональный callback для закрытия
+  error?: string | null; // Отказ сервера, например занятое имя
+  languages: Language[];
+  defaultLanguage: string; // Язык, на котором участник будет читать переводы
+  initial?: RoomLink | null; // Поля из ссылки ?room=...&name=...
 }
 
-const RoomJoin: React.FC<RoomJoinProps> = ({ onJoin, onClose }) => {
-  const [roomCode, setRoomCode] = useState('');
-  const [username, setUsername] = useState('');
+const RoomJoin: React.FC<RoomJoinProps> = ({ onJoin, onCreate, onClose, error, languages, defaultLanguage, initial }) => {
+  const text = useUiText();
+  const [mode, setMode] = useState<RoomJoinMode>('join');
+  const [roomCode, setRoomCode] = useState(initial?.room ?? '');
+  const [username, setUsername] = useState(initial?.name ?? '');
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [passphrase, setPassphrase] = useState('');
+  const [invite, setInvite] = useState(initial?.invite ?? '');
+
+  // Вставленная ссылка-приглашение сама подставляет код комнаты
+  const handleInviteChange = (value: string) => {
+    setInvite(value);
+    const parsed = parseInvite(value);
+    if (parsed.room) setRoomCode(parsed.room);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (roomCode.trim() && username.trim()) {
-      onJoin(roomCode.trim(), username.trim());
+    if (!username.trim() || (mode === 'join' && !roomCode.trim())) return;
+
+    if (mode === 'create') {
+      onCreate(roomCode.trim() || undefined, username.trim(), language, passphrase || undefined);
+      return;
     }
+
+    onJoin(roomCode.trim(), username.trim(), language, {
+      passphrase: passphrase || undefined,
+      token: invite.trim() ? parseInvite(invite).token : undefined
+    });
   };
 
+  const modeButtonClass = (value: RoomJoinMode) =>
+    `flex-1 py-2 rounded-md text-sm font-semibold transition-colors ${
+      mode === value ? 'bg-white text-purple-700 shadow' : 'text-gray-600 hover:text-gray-800'
+    }`;
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
       <div className="bg-white rounded-2xl p-8 max-w-md w-full mx-4 relative shadow-2xl">
@@ -23,36 +60,51 @@ const RoomJoin: React.FC<RoomJoinProps> = ({ onJoin, onClose }) => {
         {onClose && (
           <button
             onClick={onClose}
-            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors text-3xl leading-none"
-            title="Закрыть"
+            className="absolute top-4 end-4 text-gray-400 hover:text-gray-600 transition-colors text-3xl leading-none"
+            title={text.roomJoin.close}
           >
             ×
           </button>
         )}
         
         <h2 className="text-2xl font-bold mb-6 text-center text-gray-800">
-          Подключиться к сессии
+          {text.roomJoin.title}
         </h2>
+
+        <div className="flex gap-1 p-1 mb-6 bg-gray-100 rounded-lg">
+          <button type="button" onClick={() => setMode('join')} className={modeButtonClass('join')}>
+            {text.roomJoin.modeJoin}
+          </button>
+          <button type="button" onClick={() => setMode('create')} className={modeButtonClass('create')}>
+            {text.roomJoin.modeCreate}
+          </button>
+        </div>
         
+        {error && (
+          <div className="mb-4 px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label htmlFor="roomCode" className="block text-sm font-medium text-gray-700 mb-2">
-              Код комнаты
+              {text.roomJoin.roomCode}
             </label>
             <input
               id="roomCode"
               type="text"
               value={roomCode}
               onChange={(e) => setRoomCode(e.target.value)}
-              placeholder="DE"
+              placeholder={mode === 'create' ? text.roomJoin.roomCodeGenerated : 'K7HQ4'}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              required
+              required={mode === 'join'}
             />
           </div>
 
           <div>
             <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-              Ваше имя
+              {text.roomJoin.username}
             </label>
             <input
               id="username"
@@ -65,11 +117,62 @@ const RoomJoin: React.FC<RoomJoinProps> = ({ onJoin, onClose }) => {
             />
           </div>
 
+          <div>
+            <label htmlFor="language" className="block text-sm font-medium text-gray-700 mb-2">
+              {text.roomJoin.myLanguage}
+            </label>
+            <select
+              id="language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              {languages.map(option => (
+                <option key={option.code} value={option.code}>
+                  {option.flag} {option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="passphrase" className="block text-sm font-medium text-gray-700 mb-2">
+              {text.roomJoin.passphrase}
+              {mode === 'join' && <span className="ms-1 font-normal text-gray-400">({text.roomJoin.passphraseOptional})</span>}
+            </label>
+            <input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          {mode === 'join' ? (
+            <div>
+              <label htmlFor="invite" className="block text-sm font-medium text-gray-700 mb-2">
+                {text.roomJoin.invite}
+              </label>
+              <input
+                id="invite"
+                type="text"
+                value={invite}
+                onChange={(e) => handleInviteChange(e.target.value)}
+                placeholder={text.roomJoin.invitePlaceholder}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{text.roomJoin.createHint}</p>
+          )}
+
           <button
             type="submit"
             className="w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 rounded-lg transition-colors shadow-lg"
           >
-            Подключиться
+            {mode === 'create' ? text.roomJoin.createSubmit : text.roomJoin.submit}
           </button>
         </form>
       </div>
@@ -0,0 +1,160 @@
+// src/components/Dashboard/SpeechSettingsMenu.tsx
+import React, { useEffect, useState } from 'react';
+import * as api from '../../services/api';
+import { speechPlayer } from '../../services/speechPlayer';
+import { useUiText } from '../../hooks/useUiText';
+import { languageLabel } from '../../config/languagePairs';
+import {
+  MAX_RATE,
+  MIN_RATE,
+  SPEECH_MODES,
+  loadSpeechSettings,
+  saveSpeechSettings,
+  voiceSettingsFor,
+  type SpeechSettings,
+  type VoiceSettings
+} from '../../config/speechSettings';
+import type { Language, LanguagePair } from '../../types';
+
+interface SpeechSettingsMenuProps {
+  languages: Language[];
+  languagePair: LanguagePair;
+  className?: string;
+}
+
+const readBrowserVoices = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? speechSynthesis.getVoices() : [];
+
+/** Режим озвучки и голос со скоростью для каждого языка пары */
+const SpeechSettingsMenu: React.FC<SpeechSettingsMenuProps> = ({ languages, languagePair, className = '' }) => {
+  const text = useUiText();
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>(readBrowserVoices);
+  // null - список ещё не загружен, [] - сервер недоступен
+  const [serverVoices, setServerVoices] = useState<string[] | null>(null);
+
+  // Голоса устройства подгружаются асинхронно
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const update = () => setBrowserVoices(speechSynthesis.getVoices());
+    speechSynthesis.addEventListener('voiceschanged', update);
+    return () => speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || settings.mode !== 'server' || serverVoices !== null) return;
+    api.getVoices()
+      .then(result => setServerVoices(result.voices))
+      .catch(() => setServerVoices([]));
+  }, [isOpen, settings.mode, serverVoices]);
+
+  const updateSettings = (next: SpeechSettings) => {
+    setSettings(next);
+    saveSpeechSettings(next);
+    speechPlayer.configure(next);
+  };
+
+  const updateVoice = (language: string, patch: Partial<VoiceSettings>) => {
+    const code = language.toUpperCase();
+    updateSettings({
+      ...settings,
+      voices: { ...settings.voices, [code]: { ...voiceSettingsFor(settings, code), ...patch } }
+    });
+  };
+
+  const renderVoiceSelect = (language: string, voice: VoiceSettings) => {
+    if (settings.mode === 'server') {
+      if (serverVoices !== null && serverVoices.length === 0) {
+        return <p className="text-xs opacity-70">{text.speech.voicesUnavailable}</p>;
+      }
+      return (
+        <select
+          value={voice.serverVoice ?? ''}
+          onChange={(e) => updateVoice(language, { serverVoice: e.target.value || undefined })}
+          aria-label={text.speech.voice}
+          className="w-full bg-white/10 rounded px-2 py-1 focus:outline-none"
+        >
+          <option value="" className="text-gray-900">{text.speech.autoVoice}</option>
+          {(serverVoices ?? []).map(name => (
+            <option key={name} value={name} className="text-gray-900">{name}</option>
+          ))}
+        </select>
+      );
+    }
+
+    const prefix = language.toLowerCase();
+    const matching = browserVoices.filter(v => v.lang.toLowerCase().startsWith(prefix));
+    if (matching.length === 0) {
+      return <p className="text-xs opacity-70">{text.speech.noBrowserVoices}</p>;
+    }
+    return (
+      <select
+        value={voice.browserVoice ?? ''}
+        onChange={(e) => updateVoice(language, { browserVoice: e.target.value || undefined })}
+        aria-label={text.speech.voice}
+        className="w-full bg-white/10 rounded px-2 py-1 focus:outline-none"
+      >
+        <option value="" className="text-gray-900">{text.speech.autoVoice}</option>
+        {matching.map(v => (
+          <option key={v.voiceURI} value={v.name} className="text-gray-900">{v.name}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className={`relative inline-block ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm"
+        title={text.speech.title}
+      >
+        {settings.mode === 'off' ? '🔇' : text.speech.button}
+      </button>
+
+      {isOpen && (
+        <div className="absolute end-0 z-50 mt-1 w-72 bg-purple-800 rounded-lg shadow-xl border border-white/20 p-3 text-white text-sm space-y-3">
+          <div className="flex flex-col gap-1">
+            {SPEECH_MODES.map(mode => (
+              <label key={mode} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="speech-mode"
+                  checked={settings.mode === mode}
+                  onChange={() => updateSettings({ ...settings, mode })}
+                />
+                {text.speech.modes[mode]}
+              </label>
+            ))}
+          </div>
+
+          {settings.mode !== 'off' && [languagePair.source, languagePair.target].map(language => {
+            const voice = voiceSettingsFor(settings, language);
+            return (
+              <div key={language} className="border-t border-white/20 pt-2 space-y-2">
+                <div className="font-semibold">{languageLabel(languages, language)}</div>
+                {renderVoiceSelect(language, voice)}
+                <label className="flex items-center gap-2">
+                  <span className="opacity-80">{text.speech.rate}</span>
+                  <input
+                    type="range"
+                    min={MIN_RATE}
+                    max={MAX_RATE}
+                    step={0.1}
+                    value={voice.rate}
+                    onChange={(e) => updateVoice(language, { rate: Number(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="w-8 text-end">{voice.rate.toFixed(1)}</span>
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechSettingsMenu;
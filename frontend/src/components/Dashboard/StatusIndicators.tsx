@@ -0,0 +1,41 @@
+// src/components/Dashboard/StatusIndicators.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+
+/** Состояние backend и сокета; кнопка пробуждения - пока backend спит */
+const StatusIndicators: React.FC = () => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const connectionStatus = useTranslatorState(s => s.connectionStatus);
+  const isWakingUp = useTranslatorState(s => s.isWakingUp);
+
+  return (
+    <>
+      <div className="flex items-center gap-2 bg-white/10 rounded-lg px-3 py-2">
+        <span className="text-white text-sm font-medium">{text.header.apiLabel}</span>
+        <div
+          className={`w-3 h-3 rounded-full ${connectionStatus.ai ? 'bg-green-400' : 'bg-red-400'}`}
+          title={connectionStatus.ai ? text.header.backendUp : text.header.backendDown}
+        />
+        <div
+          className={`w-3 h-3 rounded-full ${connectionStatus.ws ? 'bg-green-400' : 'bg-red-400'}`}
+          title={connectionStatus.ws ? text.header.socketUp : text.header.socketDown}
+        />
+      </div>
+
+      {!connectionStatus.ai && (
+        <button
+          onClick={store.wakeUp}
+          disabled={isWakingUp}
+          className="px-3 py-1 bg-yellow-500 hover:bg-yellow-600 disabled:bg-yellow-300 rounded text-white text-xs font-semibold transition-all"
+          title={text.header.wakeUpTitle}
+        >
+          {isWakingUp ? '⏳' : text.header.wakeUp}
+        </button>
+      )}
+    </>
+  );
+};
+
+export default StatusIndicators;
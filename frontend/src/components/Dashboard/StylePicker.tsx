@@ -0,0 +1,65 @@
+// src/components/Dashboard/StylePicker.tsx
+import React from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState, useTranslatorStore } from '../../hooks/useTranslator';
+import { languageLabel } from '../../config/languagePairs';
+import {
+  ADDRESSEE_GENDERS,
+  REGISTERS,
+  hasAddresseeGender,
+  hasRegister,
+  isAddresseeGender,
+  isRegister,
+  styleForLanguage
+} from '../../config/styleSettings';
+
+/** Обращение к собеседнику в языке, на который сейчас переводим; без «вы / ты» в языке не показывается */
+const StylePicker: React.FC = () => {
+  const text = useUiText();
+  const store = useTranslatorStore();
+  const languages = useTranslatorState(s => s.languages);
+  const styles = useTranslatorState(s => s.styles);
+  // Переводим с языка говорящего на другой язык пары
+  const target = useTranslatorState(s =>
+    s.recognitionLang.code === s.languagePair.source ? s.languagePair.target : s.languagePair.source
+  );
+
+  if (!hasRegister(target)) return null;
+
+  const style = styleForLanguage(styles, target);
+  const label = text.style.label(languageLabel(languages, target));
+
+  return (
+    <label className="flex items-center gap-1 bg-white/10 rounded-lg px-2 py-2 text-white text-sm" title={text.style.title}>
+      <span aria-hidden>🎩</span>
+      <select
+        value={style.register}
+        onChange={(e) => {
+          if (isRegister(e.target.value)) store.setStyle(target, { ...style, register: e.target.value });
+        }}
+        aria-label={label}
+        className="bg-transparent font-semibold focus:outline-none cursor-pointer"
+      >
+        {REGISTERS.map(value => (
+          <option key={value} value={value} className="text-gray-900">{text.style.registers[value]}</option>
+        ))}
+      </select>
+      {hasAddresseeGender(target) && (
+        <select
+          value={style.addressee_gender}
+          onChange={(e) => {
+            if (isAddresseeGender(e.target.value)) store.setStyle(target, { ...style, addressee_gender: e.target.value });
+          }}
+          aria-label={text.style.title}
+          className="bg-transparent focus:outline-none cursor-pointer"
+        >
+          {ADDRESSEE_GENDERS.map(value => (
+            <option key={value} value={value} className="text-gray-900">{text.style.genders[value]}</option>
+          ))}
+        </select>
+      )}
+    </label>
+  );
+};
+
+export default StylePicker;
@@ -0,0 +1,50 @@
+// src/components/Dashboard/TranslationPanel.tsx
+import React, { useEffect, useRef } from 'react';
+import { useUiText } from '../../hooks/useUiText';
+import { useTranslatorState } from '../../hooks/useTranslator';
+import type { Dashboard } from '../../hooks/useDashboard';
+
+interface TranslationPanelProps {
+  dashboard: Dashboard;
+  className?: string;
+}
+
+/** Перевод и соблюдённые в нём термины глоссария */
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ dashboard, className = '' }) => {
+  const text = useUiText();
+  const translatedText = useTranslatorState(s => s.translatedText);
+  const glossaryTerms = useTranslatorState(s => s.glossaryTerms);
+  const { copyToClipboard } = dashboard;
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (outputRef.current) outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [translatedText]);
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-sm rounded-2xl p-4 sm:p-6 flex flex-col ${className}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-white text-xl font-semibold">{text.panels.translation}</h2>
+        <button
+          onClick={() => copyToClipboard(translatedText, text.placeholders.outputLabel)}
+          className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-white text-sm"
+        >
+          {text.buttons.copy}
+        </button>
+      </div>
+      <div ref={outputRef} className="flex-1 min-h-32 bg-white/5 rounded-xl p-4 overflow-y-auto">
+        <p className="text-white text-lg leading-relaxed whitespace-pre-wrap">
+          {translatedText || text.placeholders.translationEmpty}
+        </p>
+      </div>
+      {glossaryTerms.length > 0 && (
+        <p className="mt-2 text-white/80 text-sm">
+          {text.glossary.applied}{' '}
+          {glossaryTerms.map(term => `${term.source} → ${term.target}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,31 @@
+// src/components/Dashboard/UiLanguagePicker.tsx
+import React from 'react';
+import { UI_LANGUAGES, isUiLanguageCode } from '../../config/languages';
+import { useUiLanguage } from '../../hooks/useUiText';
+
+/** Язык интерфейса - отдельно от пары языков перевода */
+const UiLanguagePicker: React.FC = () => {
+  const { code, text, setLanguage } = useUiLanguage();
+
+  return (
+    <label className="flex items-center gap-1 bg-white/10 rounded-lg px-2 py-2 text-white text-sm" title={text.header.uiLanguage}>
+      <span aria-hidden>🌍</span>
+      <select
+        value={code}
+        onChange={(e) => {
+          if (isUiLanguageCode(e.target.value)) setLanguage(e.target.value);
+        }}
+        aria-label={text.header.uiLanguage}
+        className="bg-transparent font-semibold focus:outline-none cursor-pointer"
+      >
+        {Object.entries(UI_LANGUAGES).map(([value, config]) => (
+          <option key={value} value={value} className="text-gray-900">
+            {config.meta.flag} {config.meta.nativeName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default UiLanguagePicker;
@@ -0,0 +1,186 @@
+// src/components/Dashboard/VoiceRecorder.tsx
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import * as api from '../../services/api';
+import { ApiError } from '../../services/api';
+import { audioRecordingSupported } from '../../services/recognition';
+import { useUiText } from '../../hooks/useUiText';
+import type { Dashboard } from '../../hooks/useDashboard';
+
+export interface VoiceRecorderHandle {
+  toggle: () => void;
+  stop: () => void;
+}
+
+interface VoiceRecorderProps {
+  dashboard: Dashboard;
+  /** Размер и форма кнопки под раскладку */
+  className?: string;
+}
+
+// Длинная речь уходит на сервер кусками - перевод появляется, не дожидаясь конца записи
+const CLIP_DURATION = 20000;
+
+// Whisper принимает все эти контейнеры; берём первый, который умеет браузер
+const CLIP_FORMATS = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'mp4' },
+  { mimeType: 'audio/webm', extension: 'webm' }
+];
+
+const pickClipFormat = () =>
+  CLIP_FORMATS.find(format => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+
+/**
+ * Голосовое сообщение: MediaRecorder пишет клипы, каждый клип отправляется
+ * в POST /voice-translate, ответ (с озвучкой в audioUrl) получает handleVoiceResult.
+ * В отличие от кнопки записи, переводит и озвучивает сервер.
+ */
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ dashboard, className = 'px-6 py-4 rounded-xl text-lg' }) => {
+  const text = useUiText();
+  const { voiceFromLang, voiceToLang, handleVoiceResult, setStatus, voiceRecorderRef } = dashboard;
+  const [isRecording, setIsRecording] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState(0);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const clipTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const isRecordingRef = useRef(false);
+  // Клипы загружаются строго по порядку записи
+  const uploadQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const clipIndexRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Запись идёт через таймеры и события MediaRecorder - текущие значения читаем через ref
+  const latestRef = useRef({ voiceFromLang, voiceToLang, handleVoiceResult, setStatus, text });
+  useEffect(() => {
+    latestRef.current = { voiceFromLang, voiceToLang, handleVoiceResult, setStatus, text };
+  });
+
+  useEffect(() => () => {
+    isRecordingRef.current = false;
+    clearTimeout(clipTimerRef.current);
+    abortRef.current?.abort();
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const uploadClip = (audio: Blob, fileName: string, segment: boolean) => {
+    const signal = abortRef.current?.signal;
+    setPendingUploads(count => count + 1);
+
+    uploadQueueRef.current = uploadQueueRef.current.then(async () => {
+      const { voiceFromLang: fromLang, voiceToLang: toLang, handleVoiceResult: handleResult, setStatus: report, text: uiText } =
+        latestRef.current;
+      if (signal?.aborted) return;
+      report(uiText.voiceRecorder.uploading);
+      try {
+        const result = await api.voiceTranslate({ audio, fileName, fromLang, toLang }, signal);
+        handleResult(result, { segment });
+      } catch (error) {
+        if (signal?.aborted) return;
+        // 422 - в клипе тишина или шум, это не ошибка записи
+        if (error instanceof ApiError && error.status === 422) {
+          report(uiText.recognition.noSpeech);
+        } else {
+          report(uiText.voiceRecorder.failed((error as Error).message));
+        }
+      } finally {
+        setPendingUploads(count => count - 1);
+      }
+    });
+  };
+
+  // Один MediaRecorder - один клип: у каждого файла свой заголовок контейнера
+  const recordClip = (stream: MediaStream, format: { mimeType: string; extension: string }) => {
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      clearTimeout(clipTimerRef.current);
+      const clip = new Blob(chunks, { type: recorder.mimeType || format.mimeType });
+      if (clip.size > 0) {
+        const index = clipIndexRef.current++;
+        uploadClip(clip, `recording-${index + 1}.${format.extension}`, index > 0);
+      }
+
+      if (isRecordingRef.current) {
+        recordClip(stream, format);
+      } else {
+        stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+      }
+    };
+
+    recorder.start();
+    recorderRef.current = recorder;
+    clipTimerRef.current = setTimeout(() => {
+      if (recorder.state === 'recording') recorder.stop();
+    }, CLIP_DURATION);
+  };
+
+  const start = async () => {
+    const format = pickClipFormat();
+    if (!format) {
+      setStatus(text.recognition.unsupported);
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setStatus(text.recognition.micDenied);
+      return;
+    }
+
+    streamRef.current = stream;
+    abortRef.current = new AbortController();
+    clipIndexRef.current = 0;
+    isRecordingRef.current = true;
+    setIsRecording(true);
+    setStatus(text.voiceRecorder.recording);
+    recordClip(stream, format);
+  };
+
+  // Последний клип дописывается и уходит на сервер в onstop
+  const stop = () => {
+    if (!isRecordingRef.current) return;
+    isRecordingRef.current = false;
+    setIsRecording(false);
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const toggle = () => {
+    if (isRecordingRef.current) stop();
+    else start();
+  };
+
+  useImperativeHandle(voiceRecorderRef, () => ({ toggle, stop }));
+
+  // Без MediaRecorder голосовое сообщение записать нечем
+  if (!audioRecordingSupported()) return null;
+
+  return (
+    <button
+      onClick={toggle}
+      className={`relative font-semibold text-white shadow-lg transition-all ${className} ${
+        isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-white/20 hover:bg-white/30'
+      }`}
+      title={text.voiceRecorder.title}
+    >
+      {isRecording ? text.header.stop : text.voiceRecorder.button}
+      {pendingUploads > 0 && (
+        <span className="absolute -top-2 -end-2 min-w-6 h-6 px-1 rounded-full bg-yellow-400 text-purple-900 text-xs leading-6">
+          {pendingUploads}
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default VoiceRecorder;
@@ -0,0 +1,38 @@
+// src/components/LayoutProvider.tsx
+import React, { useMemo, useState } from 'react';
+import { useMediaQuery } from 'react-responsive';
+import {
+  PHONE_MAX_HEIGHT,
+  PHONE_MAX_WIDTH,
+  TABLET_MAX_WIDTH,
+  detectLayout,
+  loadLayoutChoice,
+  saveLayoutChoice,
+  type LayoutChoice
+} from '../config/layoutSettings';
+import { LayoutContext } from '../config/layoutContext';
+
+const LayoutProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [choice, setChoiceState] = useState<LayoutChoice>(loadLayoutChoice);
+
+  // Медиазапросы следят за поворотом экрана и изменением окна
+  const narrowAsPhone = useMediaQuery({ maxWidth: PHONE_MAX_WIDTH });
+  const narrowAsTablet = useMediaQuery({ maxWidth: TABLET_MAX_WIDTH });
+  const short = useMediaQuery({ maxHeight: PHONE_MAX_HEIGHT });
+  const touchOnly = useMediaQuery({ query: '(pointer: coarse) and (hover: none)' });
+  const detected = detectLayout({ narrowAsPhone, narrowAsTablet, short, touchOnly });
+
+  const value = useMemo(() => ({
+    choice,
+    detected,
+    layout: choice === 'auto' ? detected : choice,
+    setChoice: (next: LayoutChoice) => {
+      setChoiceState(next);
+      saveLayoutChoice(next);
+    }
+  }), [choice, detected]);
+
+  return <LayoutContext.Provider value={value}>{children}</LayoutContext.Provider>;
+};
+
+export default LayoutProvider;
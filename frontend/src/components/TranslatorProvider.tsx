@@ -0,0 +1,33 @@
+// src/components/TranslatorProvider.tsx
+import React, { useEffect, useState } from 'react';
+import { TranslatorStore } from '../services/translatorStore';
+import { ScriptedRecognitionEngine } from '../services/recognition';
+import { TranslatorContext } from '../config/translatorContext';
+import { demoScript, isDemoMode } from '../config/demoMode';
+import { useUiText } from '../hooks/useUiText';
+
+const TranslatorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const text = useUiText();
+  const [store] = useState(() => new TranslatorStore({
+    text,
+    // Демо-режим: сценарий вместо микрофона, повторяется по кругу
+    ...(isDemoMode() && {
+      createRecognition: language => new ScriptedRecognitionEngine(demoScript, language, { loop: true })
+    })
+  }));
+
+  // Статусы пишутся на текущем языке интерфейса
+  useEffect(() => {
+    store.setText(text);
+  }, [store, text]);
+
+  // Сокет и распознавание живут, пока смонтировано приложение
+  useEffect(() => {
+    store.start();
+    return store.dispose;
+  }, [store]);
+
+  return <TranslatorContext.Provider value={store}>{children}</TranslatorContext.Provider>;
+};
+
+export default TranslatorProvider;
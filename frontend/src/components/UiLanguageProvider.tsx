@@ -0,0 +1,29 @@
+// src/components/UiLanguageProvider.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { UI_LANGUAGES, type UiLanguageCode } from '../config/languages';
+import { loadUiLanguage, saveUiLanguage } from '../config/currentLanguage';
+import { UiLanguageContext } from '../config/uiLanguageContext';
+
+const UiLanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [code, setCode] = useState<UiLanguageCode>(loadUiLanguage);
+  const text = UI_LANGUAGES[code];
+
+  // meta.direction и язык документа - для RTL-раскладки, озвучки скринридером и переносов
+  useEffect(() => {
+    document.documentElement.lang = text.meta.code;
+    document.documentElement.dir = text.meta.direction;
+  }, [text]);
+
+  const value = useMemo(() => ({
+    code,
+    text,
+    setLanguage: (next: UiLanguageCode) => {
+      setCode(next);
+      saveUiLanguage(next);
+    }
+  }), [code, text]);
+
+  return <UiLanguageContext.Provider value={value}>{children}</UiLanguageContext.Provider>;
+};
+
+export default UiLanguageProvider;
@@ -0,0 +1,21 @@
+// src/config/apiToken.ts
+// Токен доступа к закрытому backend (JWT, подписанный JWT_SECRET). В сборку
+// ничего не зашивается: токен приходит ссылкой ?token=... и живёт в
+// sessionStorage до закрытия вкладки. API-ключи (API_KEYS) - только для серверов
+
+const API_TOKEN_STORAGE_KEY = 'dashka.apiToken';
+const API_TOKEN_PARAM = 'token';
+
+export const loadApiToken = (): string | undefined =>
+  sessionStorage.getItem(API_TOKEN_STORAGE_KEY) || undefined;
+
+/** Забирает токен из ссылки, с которой открыто приложение, и убирает его из адресной строки */
+export const takeApiTokenFromLink = () => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get(API_TOKEN_PARAM)?.trim();
+  if (!token) return;
+
+  sessionStorage.setItem(API_TOKEN_STORAGE_KEY, token);
+  url.searchParams.delete(API_TOKEN_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+};
@@ -1,3 +1,17 @@
 // ГЛАВНЫЙ ФАЙЛ ДЛЯ ПЕРЕКЛЮЧЕНИЯ ЯЗЫКА
-import { polishConfig } from './languages/polish';
-export const currentLanguageConfig = polishConfig;
+// Выбор языка интерфейса: сохранённый, иначе язык браузера, иначе по умолчанию
+import { DEFAULT_UI_LANGUAGE, isUiLanguageCode, type UiLanguageCode } from './languages';
+
+const UI_LANGUAGE_STORAGE_KEY = 'dashka.uiLanguage';
+
+export const loadUiLanguage = (): UiLanguageCode => {
+  const stored = localStorage.getItem(UI_LANGUAGE_STORAGE_KEY);
+  if (isUiLanguageCode(stored)) return stored;
+
+  const browser = navigator.language.slice(0, 2).toLowerCase();
+  return isUiLanguageCode(browser) ? browser : DEFAULT_UI_LANGUAGE;
+};
+
+export const saveUiLanguage = (code: UiLanguageCode) => {
+  localStorage.setItem(UI_LANGUAGE_STORAGE_KEY, code);
+};
@@ -0,0 +1,30 @@
+// src/config/demoMode.ts
+// Демо-режим (?demo в адресе): вместо микрофона речь "произносится" по сценарию,
+// перевод, озвучка и комната работают как обычно
+import { scriptFromPhrases, type RecognitionLanguage, type RecognitionStep } from '../services/recognition';
+
+// Фразы на языке говорящей стороны; для остальных языков - английские
+const DEMO_PHRASES: Record<string, string[]> = {
+  RU: [
+    'Здравствуйте, я хотела бы уточнить сроки подачи декларации.',
+    'Какие документы нужно принести на следующую встречу?'
+  ],
+  PL: [
+    'Dzień dobry, chciałbym zapytać o termin złożenia zeznania podatkowego.',
+    'Jakie dokumenty mam przynieść na następne spotkanie?'
+  ],
+  DE: [
+    'Guten Tag, die Frist für die Steuererklärung endet am einunddreißigsten Juli.',
+    'Bitte bringen Sie die Lohnsteuerbescheinigung und die Belege mit.'
+  ],
+  EN: [
+    'Hello, I would like to ask about the tax return deadline.',
+    'Which documents should I bring to the next meeting?'
+  ]
+};
+
+export const isDemoMode = (search: string = window.location.search): boolean =>
+  new URLSearchParams(search).has('demo');
+
+export const demoScript = (language: RecognitionLanguage): RecognitionStep[] =>
+  scriptFromPhrases(DEMO_PHRASES[language.code.toUpperCase()] ?? DEMO_PHRASES.EN);
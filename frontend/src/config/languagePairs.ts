@@ -0,0 +1,46 @@
+// ========================================
+// Языки перевода и пара по умолчанию
+// ========================================
+// Список приходит с backend (GET /languages); здесь - запасной вариант,
+// пока backend спит, и вспомогательные функции для пары языков.
+import type { Language, LanguagePair, TranslatorRole } from '../types';
+
+export const FALLBACK_LANGUAGES: Language[] = [
+  { code: 'RU', name: 'Русский', flag: '🇷🇺', nativeName: 'Русский', locale: 'ru-RU' },
+  { code: 'PL', name: 'Polski', flag: '🇵🇱', nativeName: 'Polski', locale: 'pl-PL' }
+];
+
+export const DEFAULT_PAIR: LanguagePair = { source: 'RU', target: 'PL' };
+
+const PAIR_STORAGE_KEY = 'dashka.languagePair';
+
+export const findLanguage = (languages: Language[], code: string): Language | undefined =>
+  languages.find(language => language.code === code.toUpperCase());
+
+export const localeFor = (languages: Language[], code: string): string =>
+  findLanguage(languages, code)?.locale ?? `${code.toLowerCase()}-${code.toUpperCase()}`;
+
+export const languageLabel = (languages: Language[], code: string): string => {
+  const language = findLanguage(languages, code);
+  return language ? `${language.flag} ${language.name}` : code.toUpperCase();
+};
+
+/** Язык стороны разговора */
+export const languageForRole = (pair: LanguagePair, role: TranslatorRole): string =>
+  role === 'user' ? pair.source : pair.target;
+
+export const loadLanguagePair = (): LanguagePair => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PAIR_STORAGE_KEY) || 'null');
+    if (stored && typeof stored.source === 'string' && typeof stored.target === 'string') {
+      return stored;
+    }
+  } catch {
+    // повреждённое значение - используем пару по умолчанию
+  }
+  return DEFAULT_PAIR;
+};
+
+export const saveLanguagePair = (pair: LanguagePair) => {
+  localStorage.setItem(PAIR_STORAGE_KEY, JSON.stringify(pair));
+};
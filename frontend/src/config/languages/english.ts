@@ -0,0 +1,277 @@
+import type { LanguageConfig } from '../types';
+
+const plural = (count: number, one: string, many: string) => (count === 1 ? one : many);
+
+export const englishConfig: LanguageConfig = {
+  meta: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    flag: '🇬🇧',
+    direction: 'ltr',
+    locale: 'en-GB'
+  },
+  app: {
+    title: '🎤 Dual Translator',
+    subtitle: 'Voice translator for two'
+  },
+  header: {
+    apiLabel: 'API',
+    backendUp: 'Backend is available',
+    backendDown: 'Backend is unavailable',
+    socketUp: 'WebSocket connected',
+    socketDown: 'WebSocket disconnected',
+    wakeUp: '⏰ Wake up',
+    wakeUpTitle: 'Wake up the backend on Render',
+    joinRoom: '🚪 Join room',
+    joinRoomTitle: 'Create or join a room',
+    leaveRoom: '🚪 Leave room',
+    invite: '🔗 Invite',
+    inviteTitle: 'Show a QR code and link to this room',
+    start: '▶️ Start',
+    stop: '⏹️ Stop',
+    uiLanguage: 'Interface language'
+  },
+  buttons: {
+    translate: 'Translate',
+    translating: '⏳ Translating...',
+    clear: 'Clear all',
+    record: 'Recording... Press when you are done',
+    paste: '📥 Paste',
+    copy: '📋 Copy',
+    erase: '🗑️ Erase',
+    stop: '⏹️ Stop'
+  },
+  placeholders: {
+    inputText: 'Start speaking or paste text...',
+    outputLabel: 'Translation:',
+    sourceText: 'Source text:',
+    translationEmpty: 'The translation will appear here...'
+  },
+  panels: {
+    original: 'Original',
+    translation: '🌐 Translation'
+  },
+  languageSelector: {
+    sourceLabel: '👤 Client',
+    targetLabel: '💼 Consultant',
+    switchSpeakerTitle: 'Enter - switch speaker',
+    roomLanguageTitle: 'Language you receive room messages in'
+  },
+  statusBar: {
+    room: (code, username) => `Room: ${code} | ${username}`,
+    shortcuts: '(Enter = language | Space = recording)'
+  },
+  clipboard: {
+    copied: (label) => `${label}: copied`,
+    failed: 'Could not copy'
+  },
+  status: {
+    ready: '🟢 Ready',
+    systemReady: '🟢 DualTranslator ready',
+    recording: '🎤 Recording...',
+    listening: '🎤 Listening...',
+    stopped: '⏸️ Stopped',
+    translating: '🔄 Translating...',
+    done: (from, to) => `✅ Done (${from} → ${to})`,
+    copied: '📄 Copied',
+    autoMode: '🤖 Auto mode',
+    manualMode: '🎯 Manual mode',
+    speechUnavailable: '❌ Speech recognition unavailable',
+    speechError: (error) => `❌ Recognition error: ${error}`,
+    waking: '⏰ Waking up the backend...',
+    awake: '✅ Backend is awake!',
+    notResponding: '❌ Backend is not responding',
+    incoming: (username, from, to) => `💬 ${username}: ${from} → ${to}`,
+    backlogLoaded: (count, truncated) =>
+      `📜 Loaded ${count} missed ${plural(count, 'message', 'messages')}${truncated ? ' (older ones are no longer available)' : ''}`,
+    roomJoined: (room, count) => `🚪 Room ${room} (${count} ${plural(count, 'person', 'people')})`,
+    userJoined: (username, count) => `✅ ${username} joined (${count} ${plural(count, 'person', 'people')})`,
+    userLeft: (username, count) => `👋 ${username} left (${count} ${plural(count, 'person', 'people')})`,
+    glossaryChanged: (username, name) =>
+      name ? `📘 ${username} attached the glossary "${name}"` : `📘 ${username} detached the glossary`,
+    styleChanged: (username, language) =>
+      `🎩 ${username} changed the form of address${language ? ` for ${language}` : ''}`,
+    roomCreated: (room, withPassphrase) =>
+      `🔒 Room ${room} created${withPassphrase ? ' with a passphrase' : ' - invite only'}`
+  },
+  apiErrors: {
+    rateLimited: '⏳ Too many requests, please wait a minute',
+    unavailable: '😴 The backend is asleep or unavailable - press “Wake up”',
+    timeout: '⌛ The backend did not answer in time',
+    badRequest: (message) => `⚠️ ${message}`,
+    server: (message) => `❌ Server error: ${message}`,
+    unknown: (message) => `❌ Error: ${message}`
+  },
+  roomErrors: {
+    invalid_request: 'Room code or name is missing',
+    username_taken: 'This name is already taken in the room - choose another one',
+    glossary_not_found: 'Glossary not found - it may have been deleted',
+    room_exists: 'A room with this code already exists - choose another code',
+    passphrase_required: 'This room is protected - enter the passphrase or an invite',
+    passphrase_invalid: 'Wrong room passphrase',
+    invite_required: 'This room can only be joined with an invite from its owner',
+    invite_invalid: 'The invite is not valid',
+    invite_expired: 'The invite has expired - ask for a new one',
+    too_many_attempts: 'Too many wrong attempts - wait a minute',
+    not_room_owner: 'Only the room owner can invite',
+    room_expired: 'The room protection has expired - create the room again'
+  },
+  roomJoin: {
+    title: 'Join a session',
+    roomCode: 'Room code',
+    roomCodeGenerated: 'leave empty to get a new code',
+    username: 'Your name',
+    myLanguage: 'My language',
+    submit: 'Join',
+    close: 'Close',
+    modeJoin: 'Join',
+    modeCreate: 'Create protected',
+    passphrase: 'Room passphrase',
+    passphraseOptional: 'if the room is protected',
+    invite: 'Invite',
+    invitePlaceholder: 'invite link or code',
+    createHint: 'You will own the room. Without a passphrase, people can only join with your invite.',
+    createSubmit: 'Create and join'
+  },
+  participants: {
+    joinedAt: (time) => `Joined at ${time}`,
+    owner: 'Room owner'
+  },
+  layout: {
+    label: 'Layout',
+    auto: (detected) => `Auto: ${detected}`,
+    mobile: '📱 Phone',
+    tablet: '📲 Tablet',
+    desktop: '💻 Desktop'
+  },
+  roomInvite: {
+    title: 'Invite to the room',
+    scanHint: 'Scan the code with a phone camera to join',
+    code: 'Room code',
+    pending: 'Preparing an invite…',
+    validUntil: (time) => `Valid until ${time}`,
+    copy: '📋 Copy link',
+    copied: 'Invite link',
+    close: 'Close'
+  },
+  history: {
+    title: '🕐 Conversation history',
+    showAll: '📚 All sessions and search',
+    empty: 'History is empty',
+    sidebarTitle: '📚 Saved conversations',
+    searchPlaceholder: '🔍 Search originals and translations...',
+    nothingFound: 'Nothing found',
+    backToSessions: '← All sessions',
+    localSession: '💻 Local',
+    currentSession: '(current)',
+    messageCount: (count) => `${count} ${plural(count, 'message', 'messages')}`,
+    deleteTitle: 'Delete session',
+    confirmDelete: (date) => `Delete the session from ${date}?`,
+    close: 'Close'
+  },
+  exportMenu: {
+    button: '⬇️ Export',
+    title: 'Export the conversation',
+    empty: 'Nothing to export yet',
+    formats: {
+      markdown: '📝 Markdown (bilingual)',
+      json: '🧾 JSON',
+      srt: '🎬 SRT subtitles',
+      vtt: '🎬 WebVTT subtitles',
+      html: '🌐 HTML file'
+    },
+    print: '🖨️ Print / sign',
+    popupBlocked: 'The browser blocked the print window. Allow pop-ups for this site.',
+    conversationTitle: 'Conversation via Dashka translator',
+    sessionTitle: (date) => `Conversation of ${date}`
+  },
+  exportDocument: {
+    room: 'Room',
+    languages: 'Languages',
+    started: 'Started',
+    exported: 'Exported',
+    time: 'Time',
+    speaker: 'Speaker',
+    original: 'Original',
+    translation: 'Translation',
+    timeAndSpeaker: 'Time / speaker',
+    clientSignature: 'Client: signature, date',
+    consultantSignature: 'Consultant: signature, date'
+  },
+  recognition: {
+    serverTitle: 'This browser cannot recognize speech - the server transcribes the recording',
+    demoTitle: 'Demo mode: speech is replayed from a script, no microphone needed',
+    unsupported: '❌ This browser cannot record audio',
+    micDenied: '🚫 No access to the microphone',
+    serverRecording: '🎙️ Recording... the server transcribes',
+    demoRecording: '🎭 Demo: speaking from a script...',
+    uploading: '📤 Transcribing the recording...',
+    noSpeech: '🤫 No speech heard',
+    failed: (message) => `❌ Speech recognition failed: ${message}`
+  },
+  voiceRecorder: {
+    button: '🎙️ Voice message',
+    title: 'Record a voice message - the server transcribes, translates and voices it',
+    recording: '🎙️ Recording a voice message...',
+    uploading: '📤 Transcribing and translating the voice message...',
+    failed: (message) => `❌ Voice translation failed: ${message}`
+  },
+  speech: {
+    button: '🔊 Speech',
+    title: 'Reading translations aloud',
+    modes: {
+      browser: '📱 Device voice',
+      server: '☁️ Server voice',
+      off: '🔇 No speech'
+    },
+    voice: 'Voice',
+    autoVoice: 'Automatic',
+    rate: 'Speed',
+    voicesUnavailable: 'Server voices are unavailable',
+    noBrowserVoices: 'This device has no voice for this language'
+  },
+  verification: {
+    toggle: '↩️ Check',
+    toggleTitle: 'Translate each translation back and warn when the meaning changed',
+    backTranslation: 'Back-translation - what the other side will understand:',
+    similarity: (percent) => `meaning match ${percent}%`,
+    drift: '⚠️ The meaning may have changed - the translation was not spoken or sent',
+    driftStatus: '⚠️ Check the back-translation before sending',
+    release: '🔊 Correct, send it',
+    discard: '✕ Discard'
+  },
+  style: {
+    label: (language) => `Address in ${language}`,
+    title: 'How translations address the other person',
+    registers: { auto: 'As spoken', formal: 'Formal', informal: 'Informal' },
+    genders: { unspecified: 'Any gender', female: 'To a woman', male: 'To a man' }
+  },
+  glossary: {
+    button: '📘 Glossary',
+    title: 'Term glossaries',
+    none: 'No glossary',
+    roomShared: 'In a room the glossary is shared by all participants',
+    applied: 'Glossary terms:',
+    empty: 'No glossaries yet',
+    loadFailed: 'Could not load glossaries',
+    saveFailed: (message) => `Could not save: ${message}`,
+    entryCount: (count) => `${count} ${plural(count, 'term', 'terms')}`,
+    use: 'Use',
+    inUse: '✓ In use',
+    disable: 'Detach',
+    create: '➕ New glossary',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: (name) => `Delete the glossary "${name}"?`,
+    name: 'Name',
+    source: 'Term',
+    target: 'Translation',
+    note: 'Note',
+    addEntry: '➕ Term',
+    removeEntry: 'Remove term',
+    save: 'Save',
+    cancel: 'Cancel',
+    close: 'Close'
+  }
+};
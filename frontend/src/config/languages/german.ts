@@ -0,0 +1,277 @@
+import type { LanguageConfig } from '../types';
+
+const plural = (count: number, one: string, many: string) => (count === 1 ? one : many);
+
+export const germanConfig: LanguageConfig = {
+  meta: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    flag: '🇩🇪',
+    direction: 'ltr',
+    locale: 'de-DE'
+  },
+  app: {
+    title: '🎤 Dual Translator',
+    subtitle: 'Sprachübersetzer für zwei'
+  },
+  header: {
+    apiLabel: 'API',
+    backendUp: 'Backend erreichbar',
+    backendDown: 'Backend nicht erreichbar',
+    socketUp: 'WebSocket verbunden',
+    socketDown: 'WebSocket getrennt',
+    wakeUp: '⏰ Aufwecken',
+    wakeUpTitle: 'Backend auf Render aufwecken',
+    joinRoom: '🚪 Raum betreten',
+    joinRoomTitle: 'Raum erstellen oder betreten',
+    leaveRoom: '🚪 Raum verlassen',
+    invite: '🔗 Einladen',
+    inviteTitle: 'QR-Code und Link zu diesem Raum anzeigen',
+    start: '▶️ Starten',
+    stop: '⏹️ Anhalten',
+    uiLanguage: 'Sprache der Oberfläche'
+  },
+  buttons: {
+    translate: 'Übersetzen',
+    translating: '⏳ Wird übersetzt...',
+    clear: 'Alles löschen',
+    record: 'Aufnahme läuft... Drücken Sie, wenn Sie fertig sind',
+    paste: '📥 Einfügen',
+    copy: '📋 Kopieren',
+    erase: '🗑️ Löschen',
+    stop: '⏹️ Stopp'
+  },
+  placeholders: {
+    inputText: 'Sprechen Sie oder fügen Sie Text ein...',
+    outputLabel: 'Übersetzung:',
+    sourceText: 'Ausgangstext:',
+    translationEmpty: 'Die Übersetzung erscheint hier...'
+  },
+  panels: {
+    original: 'Original',
+    translation: '🌐 Übersetzung'
+  },
+  languageSelector: {
+    sourceLabel: '👤 Mandant',
+    targetLabel: '💼 Berater',
+    switchSpeakerTitle: 'Enter - Sprecher wechseln',
+    roomLanguageTitle: 'Sprache, in der Sie Nachrichten des Raums erhalten'
+  },
+  statusBar: {
+    room: (code, username) => `Raum: ${code} | ${username}`,
+    shortcuts: '(Enter = Sprache | Leertaste = Aufnahme)'
+  },
+  clipboard: {
+    copied: (label) => `${label}: kopiert`,
+    failed: 'Kopieren fehlgeschlagen'
+  },
+  status: {
+    ready: '🟢 Bereit',
+    systemReady: '🟢 DualTranslator bereit',
+    recording: '🎤 Aufnahme...',
+    listening: '🎤 Höre zu...',
+    stopped: '⏸️ Angehalten',
+    translating: '🔄 Übersetze...',
+    done: (from, to) => `✅ Fertig (${from} → ${to})`,
+    copied: '📄 Kopiert',
+    autoMode: '🤖 Automatischer Modus',
+    manualMode: '🎯 Manueller Modus',
+    speechUnavailable: '❌ Spracherkennung nicht verfügbar',
+    speechError: (error) => `❌ Erkennungsfehler: ${error}`,
+    waking: '⏰ Backend wird aufgeweckt...',
+    awake: '✅ Backend ist wach!',
+    notResponding: '❌ Backend antwortet nicht',
+    incoming: (username, from, to) => `💬 ${username}: ${from} → ${to}`,
+    backlogLoaded: (count, truncated) =>
+      `📜 ${count} verpasste ${plural(count, 'Nachricht', 'Nachrichten')} geladen${truncated ? ' (ältere sind nicht mehr verfügbar)' : ''}`,
+    roomJoined: (room, count) => `🚪 Raum ${room} (${count} ${plural(count, 'Person', 'Personen')})`,
+    userJoined: (username, count) => `✅ ${username} ist beigetreten (${count} ${plural(count, 'Person', 'Personen')})`,
+    userLeft: (username, count) => `👋 ${username} hat den Raum verlassen (${count} ${plural(count, 'Person', 'Personen')})`,
+    glossaryChanged: (username, name) =>
+      name ? `📘 ${username} hat das Glossar „${name}“ aktiviert` : `📘 ${username} hat das Glossar deaktiviert`,
+    styleChanged: (username, language) =>
+      `🎩 ${username} hat die Anrede geändert${language ? ` (${language})` : ''}`,
+    roomCreated: (room, withPassphrase) =>
+      `🔒 Raum ${room} erstellt${withPassphrase ? ' mit Passwort' : ' - nur mit Einladung'}`
+  },
+  apiErrors: {
+    rateLimited: '⏳ Zu viele Anfragen, bitte eine Minute warten',
+    unavailable: '😴 Das Backend schläft oder ist nicht erreichbar - „Aufwecken“ drücken',
+    timeout: '⌛ Das Backend hat nicht rechtzeitig geantwortet',
+    badRequest: (message) => `⚠️ ${message}`,
+    server: (message) => `❌ Serverfehler: ${message}`,
+    unknown: (message) => `❌ Fehler: ${message}`
+  },
+  roomErrors: {
+    invalid_request: 'Raumcode oder Name fehlt',
+    username_taken: 'Dieser Name ist im Raum bereits vergeben - bitte einen anderen wählen',
+    glossary_not_found: 'Glossar nicht gefunden - vielleicht wurde es gelöscht',
+    room_exists: 'Ein Raum mit diesem Code existiert bereits - bitte einen anderen Code wählen',
+    passphrase_required: 'Dieser Raum ist geschützt - Passwort oder Einladung eingeben',
+    passphrase_invalid: 'Falsches Raumpasswort',
+    invite_required: 'Diesem Raum kann man nur mit einer Einladung des Besitzers beitreten',
+    invite_invalid: 'Die Einladung ist ungültig',
+    invite_expired: 'Die Einladung ist abgelaufen - bitte um eine neue',
+    too_many_attempts: 'Zu viele Fehlversuche - bitte eine Minute warten',
+    not_room_owner: 'Nur der Raumbesitzer kann einladen',
+    room_expired: 'Der Raumschutz ist abgelaufen - erstellen Sie den Raum neu'
+  },
+  roomJoin: {
+    title: 'Sitzung beitreten',
+    roomCode: 'Raumcode',
+    roomCodeGenerated: 'leer lassen für einen neuen Code',
+    username: 'Ihr Name',
+    myLanguage: 'Meine Sprache',
+    submit: 'Beitreten',
+    close: 'Schließen',
+    modeJoin: 'Beitreten',
+    modeCreate: 'Geschützt erstellen',
+    passphrase: 'Raumpasswort',
+    passphraseOptional: 'falls der Raum geschützt ist',
+    invite: 'Einladung',
+    invitePlaceholder: 'Einladungslink oder -code',
+    createHint: 'Sie werden Besitzer des Raums. Ohne Passwort kann man nur mit Ihrer Einladung beitreten.',
+    createSubmit: 'Erstellen und beitreten'
+  },
+  participants: {
+    joinedAt: (time) => `Beigetreten um ${time}`,
+    owner: 'Raumbesitzer'
+  },
+  layout: {
+    label: 'Layout',
+    auto: (detected) => `Automatisch: ${detected}`,
+    mobile: '📱 Smartphone',
+    tablet: '📲 Tablet',
+    desktop: '💻 Computer'
+  },
+  roomInvite: {
+    title: 'Einladung in den Raum',
+    scanHint: 'Code mit der Handykamera scannen, um beizutreten',
+    code: 'Raumcode',
+    pending: 'Einladung wird erstellt…',
+    validUntil: (time) => `Gültig bis ${time}`,
+    copy: '📋 Link kopieren',
+    copied: 'Einladungslink',
+    close: 'Schließen'
+  },
+  history: {
+    title: '🕐 Gesprächsverlauf',
+    showAll: '📚 Alle Sitzungen und Suche',
+    empty: 'Der Verlauf ist leer',
+    sidebarTitle: '📚 Gespeicherte Gespräche',
+    searchPlaceholder: '🔍 In Original und Übersetzung suchen...',
+    nothingFound: 'Nichts gefunden',
+    backToSessions: '← Alle Sitzungen',
+    localSession: '💻 Lokal',
+    currentSession: '(aktuell)',
+    messageCount: (count) => `${count} ${plural(count, 'Beitrag', 'Beiträge')}`,
+    deleteTitle: 'Sitzung löschen',
+    confirmDelete: (date) => `Sitzung vom ${date} löschen?`,
+    close: 'Schließen'
+  },
+  exportMenu: {
+    button: '⬇️ Export',
+    title: 'Gespräch exportieren',
+    empty: 'Noch nichts zu exportieren',
+    formats: {
+      markdown: '📝 Markdown (zweisprachig)',
+      json: '🧾 JSON',
+      srt: '🎬 SRT-Untertitel',
+      vtt: '🎬 WebVTT-Untertitel',
+      html: '🌐 HTML-Datei'
+    },
+    print: '🖨️ Drucken / unterschreiben',
+    popupBlocked: 'Der Browser hat das Druckfenster blockiert. Erlauben Sie Pop-ups für diese Seite.',
+    conversationTitle: 'Gespräch über den Dashka-Übersetzer',
+    sessionTitle: (date) => `Gespräch vom ${date}`
+  },
+  exportDocument: {
+    room: 'Raum',
+    languages: 'Sprachen',
+    started: 'Beginn',
+    exported: 'Exportiert',
+    time: 'Zeit',
+    speaker: 'Sprecher',
+    original: 'Original',
+    translation: 'Übersetzung',
+    timeAndSpeaker: 'Zeit / Sprecher',
+    clientSignature: 'Mandant: Unterschrift, Datum',
+    consultantSignature: 'Berater: Unterschrift, Datum'
+  },
+  recognition: {
+    serverTitle: 'Der Browser erkennt keine Sprache - der Server transkribiert die Aufnahme',
+    demoTitle: 'Demo-Modus: Sprache wird nach Skript abgespielt, kein Mikrofon nötig',
+    unsupported: '❌ Der Browser kann keinen Ton aufnehmen',
+    micDenied: '🚫 Kein Zugriff auf das Mikrofon',
+    serverRecording: '🎙️ Aufnahme... der Server erkennt die Sprache',
+    demoRecording: '🎭 Demo: Sprache nach Skript...',
+    uploading: '📤 Aufnahme wird erkannt...',
+    noSpeech: '🤫 Keine Sprache zu hören',
+    failed: (message) => `❌ Spracherkennung fehlgeschlagen: ${message}`
+  },
+  voiceRecorder: {
+    button: '🎙️ Sprachnachricht',
+    title: 'Sprachnachricht aufnehmen - der Server transkribiert, übersetzt und vertont sie',
+    recording: '🎙️ Sprachnachricht wird aufgenommen...',
+    uploading: '📤 Sprachnachricht wird erkannt und übersetzt...',
+    failed: (message) => `❌ Sprachübersetzung fehlgeschlagen: ${message}`
+  },
+  speech: {
+    button: '🔊 Sprachausgabe',
+    title: 'Übersetzungen vorlesen',
+    modes: {
+      browser: '📱 Gerätestimme',
+      server: '☁️ Serverstimme',
+      off: '🔇 Keine Sprachausgabe'
+    },
+    voice: 'Stimme',
+    autoVoice: 'Automatisch',
+    rate: 'Tempo',
+    voicesUnavailable: 'Serverstimmen sind nicht verfügbar',
+    noBrowserVoices: 'Auf diesem Gerät gibt es keine Stimme für diese Sprache'
+  },
+  verification: {
+    toggle: '↩️ Prüfen',
+    toggleTitle: 'Jede Übersetzung zurückübersetzen und warnen, wenn sich der Sinn geändert hat',
+    backTranslation: 'Rückübersetzung - so versteht es die andere Seite:',
+    similarity: (percent) => `Sinnübereinstimmung ${percent} %`,
+    drift: '⚠️ Der Sinn hat sich möglicherweise geändert - die Übersetzung wurde weder vorgelesen noch gesendet',
+    driftStatus: '⚠️ Rückübersetzung vor dem Senden prüfen',
+    release: '🔊 Stimmt, senden',
+    discard: '✕ Verwerfen'
+  },
+  style: {
+    label: (language) => `Anrede: ${language}`,
+    title: 'Wie die Übersetzung das Gegenüber anspricht',
+    registers: { auto: 'Wie gesprochen', formal: 'Siezen', informal: 'Duzen' },
+    genders: { unspecified: 'Geschlecht egal', female: 'An eine Frau', male: 'An einen Mann' }
+  },
+  glossary: {
+    button: '📘 Glossar',
+    title: 'Fachglossare',
+    none: 'Kein Glossar',
+    roomShared: 'Im Raum gilt das Glossar für alle Teilnehmer',
+    applied: 'Glossarbegriffe:',
+    empty: 'Noch keine Glossare',
+    loadFailed: 'Glossare konnten nicht geladen werden',
+    saveFailed: (message) => `Speichern fehlgeschlagen: ${message}`,
+    entryCount: (count) => `${count} ${plural(count, 'Begriff', 'Begriffe')}`,
+    use: 'Verwenden',
+    inUse: '✓ Aktiv',
+    disable: 'Deaktivieren',
+    create: '➕ Neues Glossar',
+    edit: 'Bearbeiten',
+    delete: 'Löschen',
+    confirmDelete: (name) => `Glossar „${name}“ löschen?`,
+    name: 'Name',
+    source: 'Begriff',
+    target: 'Übersetzung',
+    note: 'Hinweis',
+    addEntry: '➕ Begriff',
+    removeEntry: 'Begriff entfernen',
+    save: 'Speichern',
+    cancel: 'Abbrechen',
+    close: 'Schließen'
+  }
+};
@@ -0,0 +1,22 @@
+import type { LanguageConfig } from '../types';
+import { englishConfig } from './english';
+import { germanConfig } from './german';
+import { polishConfig } from './polish';
+import { russianConfig } from './russian';
+
+/** Все языки интерфейса; ключ - meta.code */
+export const UI_LANGUAGES = {
+  ru: russianConfig,
+  en: englishConfig,
+  de: germanConfig,
+  pl: polishConfig
+} satisfies Record<string, LanguageConfig>;
+
+export type UiLanguageCode = keyof typeof UI_LANGUAGES;
+
+export const DEFAULT_UI_LANGUAGE: UiLanguageCode = 'ru';
+
+export const isUiLanguageCode = (code: unknown): code is UiLanguageCode =>
+  typeof code === 'string' && Object.prototype.hasOwnProperty.call(UI_LANGUAGES, code);
+
+export { englishConfig, germanConfig, polishConfig, russianConfig };
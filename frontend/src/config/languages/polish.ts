@@ -1,33 +1,286 @@
 import type { LanguageConfig } from '../types';
 
+// 1 wiadomość, 2 wiadomości, 5 wiadomości... ale 1 osoba, 2 osoby, 5 osób
+const plural = (count: number, one: string, few: string, many: string) => {
+  if (count === 1) return one;
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+};
+
+const people = (count: number) => `${count} ${plural(count, 'osoba', 'osoby', 'osób')}`;
+
 export const polishConfig: LanguageConfig = {
   meta: {
     code: 'pl',
-    name: 'Polish', 
+    name: 'Polish',
     nativeName: 'Polski',
     flag: '🇵🇱',
-    direction: 'ltr'
+    direction: 'ltr',
+    locale: 'pl-PL'
   },
   app: {
-    title: '🚀 Dual Translator',
-    subtitle: 'Galaxy S24 - Russian ⇄ Polish Voice Translator 2.1'
+    title: '🎤 Dual Translator',
+    subtitle: 'Tłumacz głosowy dla dwojga'
+  },
+  header: {
+    apiLabel: 'API',
+    backendUp: 'Backend dostępny',
+    backendDown: 'Backend niedostępny',
+    socketUp: 'WebSocket połączony',
+    socketDown: 'WebSocket rozłączony',
+    wakeUp: '⏰ Obudź',
+    wakeUpTitle: 'Obudź backend na Render',
+    joinRoom: '🚪 Wejdź do pokoju',
+    joinRoomTitle: 'Utwórz pokój lub do niego dołącz',
+    leaveRoom: '🚪 Opuść pokój',
+    invite: '🔗 Zaproś',
+    inviteTitle: 'Pokaż kod QR i link do pokoju',
+    start: '▶️ Uruchom',
+    stop: '⏹️ Zatrzymaj',
+    uiLanguage: 'Język interfejsu'
   },
   buttons: {
-    translate: 'Перевести',
-    clear: 'Очистить всё',
-    record: 'Записываю... Нажмите когда закончите'
+    translate: 'Przetłumacz',
+    translating: '⏳ Tłumaczę...',
+    clear: 'Wyczyść wszystko',
+    record: 'Nagrywam... Naciśnij, gdy skończysz',
+    paste: '📥 Wklej',
+    copy: '📋 Kopiuj',
+    erase: '🗑️ Wymaż',
+    stop: '⏹️ Stop'
   },
   placeholders: {
-    inputText: 'Привет',
-    outputLabel: 'Перевод:',
-    sourceText: 'Исходный текст:'  // ← ДОБАВЛЕНО
+    inputText: 'Zacznij mówić lub wklej tekst...',
+    outputLabel: 'Tłumaczenie:',
+    sourceText: 'Tekst źródłowy:',
+    translationEmpty: 'Tłumaczenie pojawi się tutaj...'
+  },
+  panels: {
+    original: 'Oryginał',
+    translation: '🌐 Tłumaczenie'
+  },
+  languageSelector: {
+    sourceLabel: '👤 Klient',
+    targetLabel: '💼 Konsultant',
+    switchSpeakerTitle: 'Enter - zmień mówiącego',
+    roomLanguageTitle: 'Język, w którym otrzymujesz wiadomości pokoju'
+  },
+  statusBar: {
+    room: (code, username) => `Pokój: ${code} | ${username}`,
+    shortcuts: '(Enter = język | Spacja = nagrywanie)'
+  },
+  clipboard: {
+    copied: (label) => `${label}: skopiowano`,
+    failed: 'Nie udało się skopiować'
+  },
+  status: {
+    ready: '🟢 Gotowe',
+    systemReady: '🟢 DualTranslator gotowy',
+    recording: '🎤 Nagrywanie...',
+    listening: '🎤 Słucham...',
+    stopped: '⏸️ Zatrzymano',
+    translating: '🔄 Tłumaczę...',
+    done: (from, to) => `✅ Gotowe (${from} → ${to})`,
+    copied: '📄 Skopiowano',
+    autoMode: '🤖 Tryb automatyczny',
+    manualMode: '🎯 Tryb ręczny',
+    speechUnavailable: '❌ Rozpoznawanie mowy niedostępne',
+    speechError: (error) => `❌ Błąd rozpoznawania: ${error}`,
+    waking: '⏰ Budzę backend...',
+    awake: '✅ Backend się obudził!',
+    notResponding: '❌ Backend nie odpowiada',
+    incoming: (username, from, to) => `💬 ${username}: ${from} → ${to}`,
+    backlogLoaded: (count, truncated) =>
+      `📜 Wczytano pominięte wiadomości: ${count}${truncated ? ' (starsze nie są już dostępne)' : ''}`,
+    roomJoined: (room, count) => `🚪 Pokój ${room} (${people(count)})`,
+    userJoined: (username, count) => `✅ ${username} dołączył(a) (${people(count)})`,
+    userLeft: (username, count) => `👋 ${username} wyszedł/wyszła (${people(count)})`,
+    glossaryChanged: (username, name) =>
+      name ? `📘 ${username} włączył(a) glosariusz „${name}”` : `📘 ${username} wyłączył(a) glosariusz`,
+    styleChanged: (username, language) =>
+      `🎩 ${username} zmienił(a) formę zwracania się${language ? ` (${language})` : ''}`,
+    roomCreated: (room, withPassphrase) =>
+      `🔒 Utworzono pokój ${room}${withPassphrase ? ' z hasłem' : ' - tylko z zaproszeniem'}`
+  },
+  apiErrors: {
+    rateLimited: '⏳ Zbyt wiele zapytań, poczekaj minutę',
+    unavailable: '😴 Backend śpi lub jest niedostępny - naciśnij „Obudź”',
+    timeout: '⌛ Backend nie odpowiedział na czas',
+    badRequest: (message) => `⚠️ ${message}`,
+    server: (message) => `❌ Błąd serwera: ${message}`,
+    unknown: (message) => `❌ Błąd: ${message}`
+  },
+  roomErrors: {
+    invalid_request: 'Brak kodu pokoju lub imienia',
+    username_taken: 'To imię jest już zajęte w pokoju - wybierz inne',
+    glossary_not_found: 'Nie znaleziono glosariusza - być może został usunięty',
+    room_exists: 'Pokój o tym kodzie już istnieje - wybierz inny kod',
+    passphrase_required: 'Pokój jest chroniony - podaj hasło lub zaproszenie',
+    passphrase_invalid: 'Nieprawidłowe hasło pokoju',
+    invite_required: 'Do tego pokoju można dołączyć tylko z zaproszeniem właściciela',
+    invite_invalid: 'Zaproszenie jest nieważne',
+    invite_expired: 'Zaproszenie wygasło - poproś o nowe',
+    too_many_attempts: 'Zbyt wiele błędnych prób - odczekaj minutę',
+    not_room_owner: 'Zapraszać może tylko właściciel pokoju',
+    room_expired: 'Ochrona pokoju wygasła - utwórz pokój ponownie'
+  },
+  roomJoin: {
+    title: 'Dołącz do sesji',
+    roomCode: 'Kod pokoju',
+    roomCodeGenerated: 'zostaw puste, aby dostać nowy kod',
+    username: 'Twoje imię',
+    myLanguage: 'Mój język',
+    submit: 'Dołącz',
+    close: 'Zamknij',
+    modeJoin: 'Dołącz',
+    modeCreate: 'Utwórz chroniony',
+    passphrase: 'Hasło pokoju',
+    passphraseOptional: 'jeśli pokój jest chroniony',
+    invite: 'Zaproszenie',
+    invitePlaceholder: 'link lub kod zaproszenia',
+    createHint: 'Zostaniesz właścicielem pokoju. Bez hasła dołączyć będzie można tylko z Twoim zaproszeniem.',
+    createSubmit: 'Utwórz i dołącz'
+  },
+  participants: {
+    joinedAt: (time) => `Dołączył(a) o ${time}`,
+    owner: 'Właściciel pokoju'
+  },
+  layout: {
+    label: 'Układ',
+    auto: (detected) => `Auto: ${detected}`,
+    mobile: '📱 Telefon',
+    tablet: '📲 Tablet',
+    desktop: '💻 Komputer'
+  },
+  roomInvite: {
+    title: 'Zaproszenie do pokoju',
+    scanHint: 'Zeskanuj kod aparatem telefonu, aby dołączyć',
+    code: 'Kod pokoju',
+    pending: 'Przygotowujemy zaproszenie…',
+    validUntil: (time) => `Ważne do ${time}`,
+    copy: '📋 Kopiuj link',
+    copied: 'Link z zaproszeniem',
+    close: 'Zamknij'
+  },
+  history: {
+    title: '🕐 Historia rozmowy',
+    showAll: '📚 Wszystkie sesje i wyszukiwanie',
+    empty: 'Historia jest pusta',
+    sidebarTitle: '📚 Zapisane rozmowy',
+    searchPlaceholder: '🔍 Szukaj w oryginale i tłumaczeniu...',
+    nothingFound: 'Nic nie znaleziono',
+    backToSessions: '← Wszystkie sesje',
+    localSession: '💻 Lokalnie',
+    currentSession: '(bieżąca)',
+    messageCount: (count) => `${count} ${plural(count, 'wypowiedź', 'wypowiedzi', 'wypowiedzi')}`,
+    deleteTitle: 'Usuń sesję',
+    confirmDelete: (date) => `Usunąć sesję z ${date}?`,
+    close: 'Zamknij'
+  },
+  exportMenu: {
+    button: '⬇️ Eksport',
+    title: 'Eksportuj rozmowę',
+    empty: 'Nie ma jeszcze czego eksportować',
+    formats: {
+      markdown: '📝 Markdown (dwujęzyczny)',
+      json: '🧾 JSON',
+      srt: '🎬 Napisy SRT',
+      vtt: '🎬 Napisy WebVTT',
+      html: '🌐 Plik HTML'
+    },
+    print: '🖨️ Drukuj / podpisz',
+    popupBlocked: 'Przeglądarka zablokowała okno drukowania. Zezwól na wyskakujące okna dla tej strony.',
+    conversationTitle: 'Rozmowa przez tłumacza Dashka',
+    sessionTitle: (date) => `Rozmowa z ${date}`
+  },
+  exportDocument: {
+    room: 'Pokój',
+    languages: 'Języki',
+    started: 'Początek',
+    exported: 'Wyeksportowano',
+    time: 'Czas',
+    speaker: 'Mówiący',
+    original: 'Oryginał',
+    translation: 'Tłumaczenie',
+    timeAndSpeaker: 'Czas / mówiący',
+    clientSignature: 'Klient: podpis, data',
+    consultantSignature: 'Konsultant: podpis, data'
+  },
+  recognition: {
+    serverTitle: 'Przeglądarka nie rozpoznaje mowy - nagranie rozpoznaje serwer',
+    demoTitle: 'Tryb demo: mowa odtwarzana według scenariusza, mikrofon niepotrzebny',
+    unsupported: '❌ Przeglądarka nie potrafi nagrywać dźwięku',
+    micDenied: '🚫 Brak dostępu do mikrofonu',
+    serverRecording: '🎙️ Nagrywanie... rozpoznaje serwer',
+    demoRecording: '🎭 Demo: mówię według scenariusza...',
+    uploading: '📤 Rozpoznaję nagranie...',
+    noSpeech: '🤫 Nie słychać mowy',
+    failed: (message) => `❌ Rozpoznawanie mowy nie powiodło się: ${message}`
+  },
+  voiceRecorder: {
+    button: '🎙️ Wiadomość głosowa',
+    title: 'Nagraj wiadomość głosową - serwer ją rozpozna, przetłumaczy i odczyta',
+    recording: '🎙️ Nagrywanie wiadomości głosowej...',
+    uploading: '📤 Rozpoznaję i tłumaczę wiadomość głosową...',
+    failed: (message) => `❌ Tłumaczenie głosowe nie powiodło się: ${message}`
+  },
+  speech: {
+    button: '🔊 Czytanie',
+    title: 'Czytanie tłumaczeń na głos',
+    modes: {
+      browser: '📱 Głos urządzenia',
+      server: '☁️ Głos serwera',
+      off: '🔇 Bez czytania'
+    },
+    voice: 'Głos',
+    autoVoice: 'Automatycznie',
+    rate: 'Tempo',
+    voicesUnavailable: 'Głosy serwera są niedostępne',
+    noBrowserVoices: 'Na urządzeniu nie ma głosu dla tego języka'
+  },
+  verification: {
+    toggle: '↩️ Sprawdzanie',
+    toggleTitle: 'Tłumaczyć każde tłumaczenie z powrotem i ostrzegać, gdy zmienił się sens',
+    backTranslation: 'Tłumaczenie zwrotne - tak zrozumie to rozmówca:',
+    similarity: (percent) => `zgodność sensu ${percent}%`,
+    drift: '⚠️ Sens mógł się zmienić - tłumaczenie nie zostało odczytane ani wysłane',
+    driftStatus: '⚠️ Sprawdź tłumaczenie zwrotne przed wysłaniem',
+    release: '🔊 Zgadza się, wyślij',
+    discard: '✕ Odrzuć'
   },
-  languageSelector: {               // ← ДОБАВЛЕНО
-    sourceLabel: 'Russian Speaker',
-    targetLabel: 'Polish Speaker'
+  style: {
+    label: (language) => `Zwracanie się: ${language}`,
+    title: 'Jak tłumaczenie zwraca się do rozmówcy',
+    registers: { auto: 'Jak powiedziano', formal: 'Per Pan / Pani', informal: 'Na „ty”' },
+    genders: { unspecified: 'Płeć bez znaczenia', female: 'Do kobiety', male: 'Do mężczyzny' }
   },
-  translationLanguages: {
-    source: { code: 'ru', name: 'Русский', flag: '🇷🇺' },
-    target: { code: 'pl', name: 'Polski', flag: '🇵🇱' }
+  glossary: {
+    button: '📘 Glosariusz',
+    title: 'Glosariusze terminów',
+    none: 'Bez glosariusza',
+    roomShared: 'W pokoju glosariusz jest wspólny dla wszystkich uczestników',
+    applied: 'Terminy z glosariusza:',
+    empty: 'Nie ma jeszcze glosariuszy',
+    loadFailed: 'Nie udało się wczytać glosariuszy',
+    saveFailed: (message) => `Nie udało się zapisać: ${message}`,
+    entryCount: (count) => `${count} ${plural(count, 'termin', 'terminy', 'terminów')}`,
+    use: 'Używaj',
+    inUse: '✓ W użyciu',
+    disable: 'Wyłącz',
+    create: '➕ Nowy glosariusz',
+    edit: 'Edytuj',
+    delete: 'Usuń',
+    confirmDelete: (name) => `Usunąć glosariusz „${name}”?`,
+    name: 'Nazwa',
+    source: 'Termin',
+    target: 'Tłumaczenie',
+    note: 'Uwaga',
+    addEntry: '➕ Termin',
+    removeEntry: 'Usuń termin',
+    save: 'Zapisz',
+    cancel: 'Anuluj',
+    close: 'Zamknij'
   }
 };
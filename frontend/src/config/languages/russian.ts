@@ -0,0 +1,284 @@
+import type { LanguageConfig } from '../types';
+
+// 1 реплика, 2 реплики, 5 реплик
+const plural = (count: number, one: string, few: string, many: string) => {
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+};
+
+export const russianConfig: LanguageConfig = {
+  meta: {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    flag: '🇷🇺',
+    direction: 'ltr',
+    locale: 'ru-RU'
+  },
+  app: {
+    title: '🎤 Dual Translator',
+    subtitle: 'Голосовой переводчик для двоих'
+  },
+  header: {
+    apiLabel: 'API',
+    backendUp: 'Backend доступен',
+    backendDown: 'Backend недоступен',
+    socketUp: 'WebSocket подключен',
+    socketDown: 'WebSocket отключен',
+    wakeUp: '⏰ Разбудить',
+    wakeUpTitle: 'Разбудить backend на Render',
+    joinRoom: '🚪 Войти в комнату',
+    joinRoomTitle: 'Создать или войти в комнату',
+    leaveRoom: '🚪 Выйти из комнаты',
+    invite: '🔗 Пригласить',
+    inviteTitle: 'Показать QR-код и ссылку на комнату',
+    start: '▶️ Запустить',
+    stop: '⏹️ Остановить',
+    uiLanguage: 'Язык интерфейса'
+  },
+  buttons: {
+    translate: 'Перевести',
+    translating: '⏳ Переводим...',
+    clear: 'Очистить всё',
+    record: 'Записываю... Нажмите, когда закончите',
+    paste: '📥 Вставить',
+    copy: '📋 Копировать',
+    erase: '🗑️ Стереть',
+    stop: '⏹️ Стоп'
+  },
+  placeholders: {
+    inputText: 'Начните говорить или вставьте текст...',
+    outputLabel: 'Перевод:',
+    sourceText: 'Исходный текст:',
+    translationEmpty: 'Перевод появится здесь...'
+  },
+  panels: {
+    original: 'Оригинал',
+    translation: '🌐 Перевод'
+  },
+  languageSelector: {
+    sourceLabel: '👤 Клиент',
+    targetLabel: '💼 Консультант',
+    switchSpeakerTitle: 'Enter - сменить говорящего',
+    roomLanguageTitle: 'Язык, на котором приходят сообщения комнаты'
+  },
+  statusBar: {
+    room: (code, username) => `Комната: ${code} | ${username}`,
+    shortcuts: '(Enter = язык | Space = запись)'
+  },
+  clipboard: {
+    copied: (label) => `${label}: скопировано`,
+    failed: 'Не удалось скопировать'
+  },
+  status: {
+    ready: '🟢 Готово',
+    systemReady: '🟢 DualTranslator готов',
+    recording: '🎤 Запись...',
+    listening: '🎤 Слушаю...',
+    stopped: '⏸️ Остановлено',
+    translating: '🔄 Перевожу...',
+    done: (from, to) => `✅ Готово (${from} → ${to})`,
+    copied: '📄 Скопировано',
+    autoMode: '🤖 Автоматический режим',
+    manualMode: '🎯 Ручной режим',
+    speechUnavailable: '❌ Распознавание речи недоступно',
+    speechError: (error) => `❌ Ошибка распознавания: ${error}`,
+    waking: '⏰ Пробуждаю backend...',
+    awake: '✅ Backend проснулся!',
+    notResponding: '❌ Backend не отвечает',
+    incoming: (username, from, to) => `💬 ${username}: ${from} → ${to}`,
+    backlogLoaded: (count, truncated) =>
+      `📜 Загружено пропущенных сообщений: ${count}${truncated ? ' (старые уже недоступны)' : ''}`,
+    roomJoined: (room, count) => `🚪 Комната ${room} (${count} чел.)`,
+    userJoined: (username, count) => `✅ ${username} подключился (${count} чел.)`,
+    userLeft: (username, count) => `👋 ${username} вышел (${count} чел.)`,
+    glossaryChanged: (username, name) =>
+      name ? `📘 ${username} подключил глоссарий «${name}»` : `📘 ${username} отключил глоссарий`,
+    styleChanged: (username, language) =>
+      `🎩 ${username} изменил(а) обращение${language ? ` (${language})` : ''}`,
+    roomCreated: (room, withPassphrase) =>
+      `🔒 Комната ${room} создана${withPassphrase ? ' с паролем' : ' - вход только по приглашению'}`
+  },
+  apiErrors: {
+    rateLimited: '⏳ Слишком много запросов, подождите минуту',
+    unavailable: '😴 Backend спит или недоступен - нажмите «Разбудить»',
+    timeout: '⌛ Backend не ответил вовремя',
+    badRequest: (message) => `⚠️ ${message}`,
+    server: (message) => `❌ Ошибка сервера: ${message}`,
+    unknown: (message) => `❌ Ошибка: ${message}`
+  },
+  roomErrors: {
+    invalid_request: 'Не указан код комнаты или имя',
+    username_taken: 'Это имя уже занято в комнате - выберите другое',
+    glossary_not_found: 'Глоссарий не найден - возможно, его уже удалили',
+    room_exists: 'Комната с таким кодом уже существует - выберите другой код',
+    passphrase_required: 'Комната защищена - введите пароль или приглашение',
+    passphrase_invalid: 'Неверный пароль комнаты',
+    invite_required: 'В эту комнату можно войти только по приглашению владельца',
+    invite_invalid: 'Приглашение недействительно',
+    invite_expired: 'Срок приглашения истёк - попросите новое',
+    too_many_attempts: 'Слишком много неверных попыток - подождите минуту',
+    not_room_owner: 'Приглашать может только владелец комнаты',
+    room_expired: 'Защита комнаты истекла - создайте комнату заново'
+  },
+  roomJoin: {
+    title: 'Подключиться к сессии',
+    roomCode: 'Код комнаты',
+    roomCodeGenerated: 'пусто - сервер выдаст новый код',
+    username: 'Ваше имя',
+    myLanguage: 'Мой язык',
+    submit: 'Подключиться',
+    close: 'Закрыть',
+    modeJoin: 'Войти',
+    modeCreate: 'Создать защищённую',
+    passphrase: 'Пароль комнаты',
+    passphraseOptional: 'если комната защищена',
+    invite: 'Приглашение',
+    invitePlaceholder: 'ссылка или код приглашения',
+    createHint: 'Вы станете владельцем комнаты. Без пароля войти можно будет только по вашему приглашению.',
+    createSubmit: 'Создать и войти'
+  },
+  participants: {
+    joinedAt: (time) => `Вошёл в ${time}`,
+    owner: 'Владелец комнаты'
+  },
+  layout: {
+    label: 'Раскладка',
+    auto: (detected) => `Авто: ${detected}`,
+    mobile: '📱 Телефон',
+    tablet: '📲 Планшет',
+    desktop: '💻 Компьютер'
+  },
+  roomInvite: {
+    title: 'Приглашение в комнату',
+    scanHint: 'Наведите камеру телефона на код, чтобы войти',
+    code: 'Код комнаты',
+    pending: 'Готовим приглашение…',
+    validUntil: (time) => `Действует до ${time}`,
+    copy: '📋 Скопировать ссылку',
+    copied: 'Ссылка-приглашение',
+    close: 'Закрыть'
+  },
+  history: {
+    title: '🕐 История разговора',
+    showAll: '📚 Все сессии и поиск',
+    empty: 'История пуста',
+    sidebarTitle: '📚 Сохранённые разговоры',
+    searchPlaceholder: '🔍 Поиск по оригиналу и переводу...',
+    nothingFound: 'Ничего не найдено',
+    backToSessions: '← Все сессии',
+    localSession: '💻 Локально',
+    currentSession: '(текущая)',
+    messageCount: (count) => `${count} ${plural(count, 'реплика', 'реплики', 'реплик')}`,
+    deleteTitle: 'Удалить сессию',
+    confirmDelete: (date) => `Удалить сессию от ${date}?`,
+    close: 'Закрыть'
+  },
+  exportMenu: {
+    button: '⬇️ Экспорт',
+    title: 'Экспорт разговора',
+    empty: 'Нет реплик для экспорта',
+    formats: {
+      markdown: '📝 Markdown (двуязычный)',
+      json: '🧾 JSON',
+      srt: '🎬 Субтитры SRT',
+      vtt: '🎬 Субтитры WebVTT',
+      html: '🌐 HTML-файл'
+    },
+    print: '🖨️ Печать / подпись',
+    popupBlocked: 'Браузер заблокировал окно печати. Разрешите всплывающие окна для этого сайта.',
+    conversationTitle: 'Разговор через переводчик Dashka',
+    sessionTitle: (date) => `Разговор от ${date}`
+  },
+  exportDocument: {
+    room: 'Комната',
+    languages: 'Языки',
+    started: 'Начало',
+    exported: 'Экспортировано',
+    time: 'Время',
+    speaker: 'Говорящий',
+    original: 'Оригинал',
+    translation: 'Перевод',
+    timeAndSpeaker: 'Время / говорящий',
+    clientSignature: 'Клиент: подпись, дата',
+    consultantSignature: 'Консультант: подпись, дата'
+  },
+  recognition: {
+    serverTitle: 'Браузер не распознаёт речь сам - запись распознаёт сервер',
+    demoTitle: 'Демо-режим: речь воспроизводится по сценарию, микрофон не нужен',
+    unsupported: '❌ Браузер не умеет записывать звук',
+    micDenied: '🚫 Нет доступа к микрофону',
+    serverRecording: '🎙️ Запись... распознаёт сервер',
+    demoRecording: '🎭 Демо: говорю по сценарию...',
+    uploading: '📤 Распознаю запись...',
+    noSpeech: '🤫 Речь не слышна',
+    failed: (message) => `❌ Распознавание не удалось: ${message}`
+  },
+  voiceRecorder: {
+    button: '🎙️ Голосовое',
+    title: 'Записать голосовое сообщение - сервер распознает, переведёт и озвучит его',
+    recording: '🎙️ Запись голосового сообщения...',
+    uploading: '📤 Распознаю и перевожу голосовое сообщение...',
+    failed: (message) => `❌ Голосовой перевод не удался: ${message}`
+  },
+  speech: {
+    button: '🔊 Озвучка',
+    title: 'Озвучка переводов',
+    modes: {
+      browser: '📱 Голос устройства',
+      server: '☁️ Голос сервера',
+      off: '🔇 Без озвучки'
+    },
+    voice: 'Голос',
+    autoVoice: 'Автоматически',
+    rate: 'Скорость',
+    voicesUnavailable: 'Голоса сервера недоступны',
+    noBrowserVoices: 'На устройстве нет голоса для этого языка'
+  },
+  verification: {
+    toggle: '↩️ Проверка',
+    toggleTitle: 'Переводить перевод обратно и предупреждать, если смысл изменился',
+    backTranslation: 'Обратный перевод - так поймёт собеседник:',
+    similarity: (percent) => `совпадение смысла ${percent}%`,
+    drift: '⚠️ Смысл мог измениться - перевод не озвучен и не отправлен',
+    driftStatus: '⚠️ Проверьте обратный перевод перед отправкой',
+    release: '🔊 Всё верно, отправить',
+    discard: '✕ Отменить'
+  },
+  style: {
+    label: (language) => `Обращение: ${language}`,
+    title: 'Как перевод обращается к собеседнику',
+    registers: { auto: 'Как сказано', formal: 'На «вы»', informal: 'На «ты»' },
+    genders: { unspecified: 'Род не важен', female: 'К женщине', male: 'К мужчине' }
+  },
+  glossary: {
+    button: '📘 Глоссарий',
+    title: 'Глоссарии терминов',
+    none: 'Без глоссария',
+    roomShared: 'В комнате глоссарий общий для всех участников',
+    applied: 'Термины глоссария:',
+    empty: 'Глоссариев пока нет',
+    loadFailed: 'Не удалось загрузить глоссарии',
+    saveFailed: (message) => `Не удалось сохранить: ${message}`,
+    entryCount: (count) => `${count} ${plural(count, 'термин', 'термина', 'терминов')}`,
+    use: 'Использовать',
+    inUse: '✓ Используется',
+    disable: 'Отключить',
+    create: '➕ Новый глоссарий',
+    edit: 'Изменить',
+    delete: 'Удалить',
+    confirmDelete: (name) => `Удалить глоссарий «${name}»?`,
+    name: 'Название',
+    source: 'Термин',
+    target: 'Перевод',
+    note: 'Примечание',
+    addEntry: '➕ Термин',
+    removeEntry: 'Убрать термин',
+    save: 'Сохранить',
+    cancel: 'Отмена',
+    close: 'Закрыть'
+  }
+};
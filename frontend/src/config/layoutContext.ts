@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import type { LayoutChoice, LayoutKind } from './layoutSettings';
+
+export interface LayoutContextValue {
+  /** Выбор пользователя */
+  choice: LayoutChoice;
+  /** Раскладка по устройству - для choice: 'auto' */
+  detected: LayoutKind;
+  /** Действующая раскладка */
+  layout: LayoutKind;
+  setChoice: (choice: LayoutChoice) => void;
+}
+
+// Без провайдера - раскладка компьютера, переключение ничего не делает
+export const LayoutContext = createContext<LayoutContextValue>({
+  choice: 'auto',
+  detected: 'desktop',
+  layout: 'desktop',
+  setChoice: () => {}
+});
@@ -0,0 +1,46 @@
+// src/config/layoutSettings.ts
+// Раскладка интерфейса: по экрану и способу ввода, либо выбранная пользователем
+
+export type LayoutKind = 'mobile' | 'tablet' | 'desktop';
+/** auto - определять по устройству */
+export type LayoutChoice = LayoutKind | 'auto';
+
+export const LAYOUT_CHOICES: LayoutChoice[] = ['auto', 'mobile', 'tablet', 'desktop'];
+
+const LAYOUT_STORAGE_KEY = 'dashka.layout';
+
+// Границы ширины, px - как sm и lg в Tailwind
+export const PHONE_MAX_WIDTH = 639;
+export const TABLET_MAX_WIDTH = 1023;
+// Телефон, повёрнутый горизонтально: широкий, но низкий
+export const PHONE_MAX_HEIGHT = 499;
+
+export const isLayoutChoice = (value: unknown): value is LayoutChoice =>
+  LAYOUT_CHOICES.includes(value as LayoutChoice);
+
+export interface LayoutSignals {
+  narrowAsPhone: boolean;
+  narrowAsTablet: boolean;
+  short: boolean;
+  /** Только сенсорный ввод: нет мыши и наведения */
+  touchOnly: boolean;
+}
+
+/**
+ * Телефон - узкий экран или низкий сенсорный; планшет - средняя ширина
+ * или большой сенсорный экран без мыши; остальное - компьютер.
+ */
+export const detectLayout = ({ narrowAsPhone, narrowAsTablet, short, touchOnly }: LayoutSignals): LayoutKind => {
+  if (narrowAsPhone || (touchOnly && short)) return 'mobile';
+  if (narrowAsTablet || touchOnly) return 'tablet';
+  return 'desktop';
+};
+
+export const loadLayoutChoice = (): LayoutChoice => {
+  const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+  return isLayoutChoice(stored) ? stored : 'auto';
+};
+
+export const saveLayoutChoice = (choice: LayoutChoice) => {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, choice);
+};
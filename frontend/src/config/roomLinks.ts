@@ -0,0 +1,53 @@
+// src/config/roomLinks.ts
+// Ссылки на комнату: ?room=КОД&name=ИМЯ&invite=ТОКЕН. Открывают окно входа
+// с заполненными полями, а с именем - сразу входят в комнату
+
+export interface RoomLink {
+  room: string;
+  name?: string;
+  /** Приглашение в защищённую комнату */
+  invite?: string;
+}
+
+const ROOM_LINK_PARAMS = ['room', 'name', 'invite'] as const;
+
+export const roomLink = ({ room, name, invite }: RoomLink): string => {
+  const url = new URL(window.location.href);
+  const params = new URLSearchParams({ room });
+  if (name) params.set('name', name);
+  if (invite) params.set('invite', invite);
+  url.search = params.toString();
+  url.hash = '';
+  return url.toString();
+};
+
+/** Ссылка, с которой открыто приложение; null - в адресе нет комнаты */
+export const readRoomLink = (search: string = window.location.search): RoomLink | null => {
+  const params = new URLSearchParams(search);
+  const room = params.get('room')?.trim();
+  if (!room) return null;
+  return {
+    room,
+    name: params.get('name')?.trim() || undefined,
+    invite: params.get('invite') || undefined
+  };
+};
+
+/** Убирает комнату из адресной строки: приглашение не должно оставаться в истории и закладках */
+export const clearRoomLink = () => {
+  const url = new URL(window.location.href);
+  ROOM_LINK_PARAMS.forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, '', url);
+};
+
+/** В поле приглашения можно вставить и ссылку целиком, и сам токен */
+export const parseInvite = (value: string): { room?: string; token: string } => {
+  const trimmed = value.trim();
+  try {
+    const link = readRoomLink(new URL(trimmed).search);
+    if (link?.invite) return { room: link.room, token: link.invite };
+  } catch {
+    // не ссылка - значит, токен
+  }
+  return { token: trimmed };
+};
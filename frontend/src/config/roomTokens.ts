@@ -0,0 +1,27 @@
+// src/config/roomTokens.ts
+// Токены владельца защищённых комнат - в localStorage, чтобы владелец
+// входил без пароля и после перезагрузки страницы
+
+const ROOM_TOKENS_STORAGE_KEY = 'dashka.roomTokens';
+
+const loadTokens = (): Record<string, string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ROOM_TOKENS_STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') return stored;
+  } catch {
+    // повреждённое значение - токенов нет
+  }
+  return {};
+};
+
+export const loadOwnerToken = (room: string): string | undefined => loadTokens()[room];
+
+export const saveOwnerToken = (room: string, token: string) => {
+  localStorage.setItem(ROOM_TOKENS_STORAGE_KEY, JSON.stringify({ ...loadTokens(), [room]: token }));
+};
+
+export const forgetOwnerToken = (room: string) => {
+  const tokens = loadTokens();
+  delete tokens[room];
+  localStorage.setItem(ROOM_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+};
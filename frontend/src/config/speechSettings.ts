@@ -0,0 +1,50 @@
+// ========================================
+// Настройки озвучки переводов
+// ========================================
+// browser - speechSynthesis устройства, server - голоса OpenAI (POST /speech),
+// off - без озвучки. Голос и скорость - отдельно для каждого языка.
+
+export type SpeechMode = 'browser' | 'server' | 'off';
+
+export const SPEECH_MODES: SpeechMode[] = ['browser', 'server', 'off'];
+
+export interface VoiceSettings {
+  /** Имя голоса speechSynthesis (SpeechSynthesisVoice.name) */
+  browserVoice?: string;
+  /** Голос OpenAI (GET /voices) */
+  serverVoice?: string;
+  rate: number;
+}
+
+export interface SpeechSettings {
+  mode: SpeechMode;
+  /** Ключ - код языка перевода (RU, PL...) */
+  voices: Record<string, VoiceSettings>;
+}
+
+export const DEFAULT_RATE = 0.9;
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { mode: 'browser', voices: {} };
+
+const SPEECH_STORAGE_KEY = 'dashka.speech';
+
+export const voiceSettingsFor = (settings: SpeechSettings, language: string): VoiceSettings =>
+  settings.voices[language.toUpperCase()] ?? { rate: DEFAULT_RATE };
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SPEECH_STORAGE_KEY) || 'null');
+    if (stored && SPEECH_MODES.includes(stored.mode) && typeof stored.voices === 'object' && stored.voices) {
+      return stored;
+    }
+  } catch {
+    // повреждённое значение - настройки по умолчанию
+  }
+  return DEFAULT_SPEECH_SETTINGS;
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SPEECH_STORAGE_KEY, JSON.stringify(settings));
+};
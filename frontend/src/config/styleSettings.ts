@@ -0,0 +1,42 @@
+// src/config/styleSettings.ts
+// Обращение к читателю перевода: регистр (вы / ты) и род собеседника.
+// Вне комнаты - свои настройки по языкам, в комнате - общие для участников
+import type { AddresseeGender, Register, TranslationStyle, TranslationStyles } from '../types';
+
+export const REGISTERS: Register[] = ['auto', 'formal', 'informal'];
+export const ADDRESSEE_GENDERS: AddresseeGender[] = ['unspecified', 'female', 'male'];
+
+export const DEFAULT_STYLE: TranslationStyle = { register: 'auto', addressee_gender: 'unspecified' };
+
+// Как на сервере (services/translationStyle.js): где есть «вы / ты» и где от рода зависят формы
+const REGISTER_LANGUAGES = ['RU', 'DE', 'FR', 'ES', 'CS', 'PL', 'LT', 'LV', 'NO'];
+const GENDERED_LANGUAGES = ['RU', 'FR', 'ES', 'CS', 'PL', 'LT', 'LV'];
+
+export const hasRegister = (language: string) => REGISTER_LANGUAGES.includes(language);
+export const hasAddresseeGender = (language: string) => GENDERED_LANGUAGES.includes(language);
+
+export const isRegister = (value: unknown): value is Register => REGISTERS.includes(value as Register);
+export const isAddresseeGender = (value: unknown): value is AddresseeGender =>
+  ADDRESSEE_GENDERS.includes(value as AddresseeGender);
+
+/** Стиль для языка получателя: свой для языка или общий ('*') */
+export const styleForLanguage = (styles: TranslationStyles, language: string): TranslationStyle =>
+  styles[language] ?? styles['*'] ?? DEFAULT_STYLE;
+
+const STYLES_STORAGE_KEY = 'dashka.styles';
+
+export const loadStyles = (): TranslationStyles => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STYLES_STORAGE_KEY) ?? '{}');
+    if (!stored || typeof stored !== 'object') return {};
+    return Object.fromEntries(Object.entries(stored).filter(([, style]) =>
+      isRegister(style?.register) && isAddresseeGender(style?.addressee_gender)
+    ));
+  } catch {
+    return {};
+  }
+};
+
+export const saveStyles = (styles: TranslationStyles) => {
+  localStorage.setItem(STYLES_STORAGE_KEY, JSON.stringify(styles));
+};
@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import type { TranslatorStore } from '../services/translatorStore';
+
+// Хранилище одно на приложение - без провайдера переводчика нет
+export const TranslatorContext = createContext<TranslatorStore | null>(null);
@@ -1,3 +1,12 @@
+import type { AddresseeGender, Register, RoomErrorCode } from '../types';
+import type { ExportFormat } from '../utils/exportConversation';
+import type { SpeechMode } from './speechSettings';
+
+/**
+ * Каталог строк интерфейса. Каждый язык интерфейса - полный объект этого типа,
+ * поэтому пропущенный ключ - ошибка компиляции. Строки с подстановками - функции.
+ * Язык интерфейса не связан с парой языков перевода.
+ */
 export interface LanguageConfig {
   meta: {
     code: string;
@@ -5,27 +14,259 @@ export interface LanguageConfig {
     nativeName: string;
     flag: string;
     direction: 'ltr' | 'rtl';
+    /** Локаль для дат и времени */
+    locale: string;
   };
   app: {
     title: string;
     subtitle: string;
   };
+  header: {
+    apiLabel: string;
+    backendUp: string;
+    backendDown: string;
+    socketUp: string;
+    socketDown: string;
+    wakeUp: string;
+    wakeUpTitle: string;
+    joinRoom: string;
+    joinRoomTitle: string;
+    leaveRoom: string;
+    invite: string;
+    inviteTitle: string;
+    start: string;
+    stop: string;
+    uiLanguage: string;
+  };
   buttons: {
     translate: string;
+    translating: string;
     clear: string;
     record: string;
+    paste: string;
+    copy: string;
+    erase: string;
+    stop: string;
   };
   placeholders: {
     inputText: string;
     outputLabel: string;
-    sourceText: string;  // ← ДОБАВЛЕНО
+    sourceText: string;
+    translationEmpty: string;
+  };
+  panels: {
+    original: string;
+    translation: string;
   };
-  languageSelector: {     // ← ДОБАВЛЕНО
+  languageSelector: {
     sourceLabel: string;
     targetLabel: string;
+    switchSpeakerTitle: string;
+    roomLanguageTitle: string;
+  };
+  statusBar: {
+    room: (code: string, username: string) => string;
+    shortcuts: string;
+  };
+  clipboard: {
+    copied: (label: string) => string;
+    failed: string;
+  };
+  status: {
+    ready: string;
+    systemReady: string;
+    recording: string;
+    listening: string;
+    stopped: string;
+    translating: string;
+    done: (from: string, to: string) => string;
+    copied: string;
+    autoMode: string;
+    manualMode: string;
+    speechUnavailable: string;
+    speechError: (error: string) => string;
+    waking: string;
+    awake: string;
+    notResponding: string;
+    incoming: (username: string, from: string, to: string) => string;
+    backlogLoaded: (count: number, truncated: boolean) => string;
+    roomJoined: (room: string, count: number) => string;
+    userJoined: (username: string, count: number) => string;
+    userLeft: (username: string, count: number) => string;
+    /** name: null - глоссарий отключён */
+    glossaryChanged: (username: string, name: string | null) => string;
+    /** language - название языка получателей или null, если для всех */
+    styleChanged: (username: string, language: string | null) => string;
+    /** withPassphrase: false - войти можно только по приглашению */
+    roomCreated: (room: string, withPassphrase: boolean) => string;
+  };
+  apiErrors: {
+    rateLimited: string;
+    unavailable: string;
+    timeout: string;
+    badRequest: (message: string) => string;
+    server: (message: string) => string;
+    unknown: (message: string) => string;
+  };
+  roomErrors: Record<RoomErrorCode, string>;
+  roomJoin: {
+    title: string;
+    roomCode: string;
+    /** Подсказка в режиме создания: код можно не вводить */
+    roomCodeGenerated: string;
+    username: string;
+    myLanguage: string;
+    submit: string;
+    close: string;
+    modeJoin: string;
+    modeCreate: string;
+    passphrase: string;
+    passphraseOptional: string;
+    invite: string;
+    invitePlaceholder: string;
+    createHint: string;
+    createSubmit: string;
+  };
+  participants: {
+    joinedAt: (time: string) => string;
+    owner: string;
+  };
+  layout: {
+    label: string;
+    /** detected - название раскладки, определённой по устройству */
+    auto: (detected: string) => string;
+    mobile: string;
+    tablet: string;
+    desktop: string;
+  };
+  roomInvite: {
+    title: string;
+    scanHint: string;
+    code: string;
+    pending: string;
+    validUntil: (time: string) => string;
+    copy: string;
+    /** Подпись для сообщения о копировании */
+    copied: string;
+    close: string;
+  };
+  history: {
+    title: string;
+    showAll: string;
+    empty: string;
+    sidebarTitle: string;
+    searchPlaceholder: string;
+    nothingFound: string;
+    backToSessions: string;
+    localSession: string;
+    currentSession: string;
+    messageCount: (count: number) => string;
+    deleteTitle: string;
+    confirmDelete: (date: string) => string;
+    close: string;
+  };
+  exportMenu: {
+    button: string;
+    title: string;
+    empty: string;
+    formats: Record<ExportFormat, string>;
+    print: string;
+    popupBlocked: string;
+    conversationTitle: string;
+    sessionTitle: (date: string) => string;
+  };
+  /** Подписи внутри экспортированных файлов */
+  exportDocument: {
+    room: string;
+    languages: string;
+    started: string;
+    exported: string;
+    time: string;
+    speaker: string;
+    original: string;
+    translation: string;
+    timeAndSpeaker: string;
+    clientSignature: string;
+    consultantSignature: string;
+  };
+  /** Распознавание речи: запись через сервер, демо-режим и ошибки */
+  recognition: {
+    /** Подсказка кнопки записи, когда речь распознаёт сервер */
+    serverTitle: string;
+    /** Подсказка кнопки записи в демо-режиме */
+    demoTitle: string;
+    unsupported: string;
+    micDenied: string;
+    serverRecording: string;
+    demoRecording: string;
+    uploading: string;
+    noSpeech: string;
+    failed: (message: string) => string;
+  };
+  /** Голосовое сообщение: сервер распознаёт, переводит и озвучивает запись (/voice-translate) */
+  voiceRecorder: {
+    button: string;
+    title: string;
+    recording: string;
+    uploading: string;
+    failed: (message: string) => string;
   };
-  translationLanguages: {
-    source: { code: string; name: string; flag: string; };
-    target: { code: string; name: string; flag: string; };
+  /** Озвучка переводов: режим, голос и скорость по языкам */
+  speech: {
+    button: string;
+    title: string;
+    modes: Record<SpeechMode, string>;
+    voice: string;
+    autoVoice: string;
+    rate: string;
+    voicesUnavailable: string;
+    noBrowserVoices: string;
+  };
+  /** Проверка перевода обратным переводом */
+  verification: {
+    toggle: string;
+    toggleTitle: string;
+    backTranslation: string;
+    similarity: (percent: number) => string;
+    drift: string;
+    driftStatus: string;
+    release: string;
+    discard: string;
+  };
+  /** Обращение к читателю перевода */
+  style: {
+    /** language - название языка, на который переводим */
+    label: (language: string) => string;
+    title: string;
+    registers: Record<Register, string>;
+    genders: Record<AddresseeGender, string>;
+  };
+  /** Глоссарии терминов и их подключение к переводу */
+  glossary: {
+    button: string;
+    title: string;
+    none: string;
+    roomShared: string;
+    applied: string;
+    empty: string;
+    loadFailed: string;
+    saveFailed: (message: string) => string;
+    entryCount: (count: number) => string;
+    use: string;
+    inUse: string;
+    disable: string;
+    create: string;
+    edit: string;
+    delete: string;
+    confirmDelete: (name: string) => string;
+    name: string;
+    source: string;
+    target: string;
+    note: string;
+    addEntry: string;
+    removeEntry: string;
+    save: string;
+    cancel: string;
+    close: string;
   };
 }
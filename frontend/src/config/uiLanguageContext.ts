@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import { DEFAULT_UI_LANGUAGE, UI_LANGUAGES, type UiLanguageCode } from './languages';
+import type { LanguageConfig } from './types';
+
+export interface UiLanguageContextValue {
+  code: UiLanguageCode;
+  text: LanguageConfig;
+  setLanguage: (code: UiLanguageCode) => void;
+}
+
+// Без провайдера - язык по умолчанию, переключение ничего не делает
+export const UiLanguageContext = createContext<UiLanguageContextValue>({
+  code: DEFAULT_UI_LANGUAGE,
+  text: UI_LANGUAGES[DEFAULT_UI_LANGUAGE],
+  setLanguage: () => {}
+});
@@ -0,0 +1,10 @@
+// src/config/verifySettings.ts
+// Проверка переводов обратным переводом: включается пользователем и запоминается
+
+const VERIFY_STORAGE_KEY = 'dashka.verify';
+
+export const loadVerifyMode = (): boolean => localStorage.getItem(VERIFY_STORAGE_KEY) === 'on';
+
+export const saveVerifyMode = (enabled: boolean) => {
+  localStorage.setItem(VERIFY_STORAGE_KEY, enabled ? 'on' : 'off');
+};
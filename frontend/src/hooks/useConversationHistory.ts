@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as historyStore from '../services/historyStore';
+import type { ConversationEntry, HistorySession } from '../types';
+
+/**
+ * История текущего разговора + доступ к прошлым сессиям.
+ * Сессия создаётся лениво при первой реплике; реплика из другой комнаты
+ * (или startNewSession) начинает новую.
+ */
+export const useConversationHistory = () => {
+  const [entries, setEntries] = useState<ConversationEntry[]>([]);
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+
+  const sessionPromiseRef = useRef<Promise<HistorySession> | null>(null);
+  const sessionRoomRef = useRef<string | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await historyStore.listSessions());
+    } catch (error) {
+      console.error('[History] failed to list sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const startNewSession = useCallback(() => {
+    sessionPromiseRef.current = null;
+    setCurrentSessionId(null);
+    setEntries([]);
+  }, []);
+
+  /** Новая сессия, если текущая относится к другой комнате (или её ещё нет) */
+  const switchRoom = useCallback((room: string | null) => {
+    if (sessionPromiseRef.current && sessionRoomRef.current === room) return;
+    startNewSession();
+  }, [startNewSession]);
+
+  const addEntry = useCallback(async (entry: ConversationEntry) => {
+    if (sessionPromiseRef.current && sessionRoomRef.current !== entry.room) {
+      startNewSession();
+    }
+
+    // Показываем сразу, не дожидаясь IndexedDB; тот же id заменяет запись
+    setEntries(prev => {
+      const index = prev.findIndex(existing => existing.id === entry.id);
+      if (index === -1) return [...prev, entry];
+      const next = [...prev];
+      next[index] = entry;
+      return next;
+    });
+
+    try {
+      if (!sessionPromiseRef.current) {
+        sessionRoomRef.current = entry.room;
+        sessionPromiseRef.current = historyStore.createSession(entry.room);
+      }
+      const session = await sessionPromiseRef.current;
+      setCurrentSessionId(session.id);
+      await historyStore.saveEntry(session.id, entry);
+      refreshSessions();
+    } catch (error) {
+      console.error('[History] failed to save entry:', error);
+    }
+  }, [refreshSessions, startNewSession]);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    await historyStore.deleteSession(sessionId);
+    if (sessionId === currentSessionId) {
+      startNewSession();
+    }
+    await refreshSessions();
+  }, [currentSessionId, refreshSessions, startNewSession]);
+
+  return {
+    entries,
+    sessions,
+    currentSessionId,
+    addEntry,
+    startNewSession,
+    switchRoom,
+    deleteSession,
+    refreshSessions,
+    getSessionEntries: historyStore.getSessionEntries,
+    searchEntries: historyStore.searchEntries
+  };
+};
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslator, useTranslatorStore } from './useTranslator';
+import { useConversationHistory } from './useConversationHistory';
+import { useUiText } from './useUiText';
+import { languageForRole } from '../config/languagePairs';
+import { clearRoomLink, readRoomLink } from '../config/roomLinks';
+import { speechPlayer } from '../services/speechPlayer';
+import type { VoiceRecorderHandle } from '../components/Dashboard/VoiceRecorder';
+
+/**
+ * Общее для всех раскладок: переводчик, история, окна (комната, приглашение,
+ * история, глоссарии) и действия панелей. Раскладки отличаются только разметкой.
+ */
+export const useDashboard = () => {
+  const text = useUiText();
+  const history = useConversationHistory();
+  const store = useTranslatorStore();
+  const translator = useTranslator();
+  const {
+    isRecording,
+    toggleRecording,
+    connectionStatus,
+    currentRole,
+    languagePair,
+    room,
+    joinRoom,
+    createInvite,
+    setOriginalText,
+    setTranslatedText,
+    clearVerification
+  } = translator;
+
+  // Язык текущего говорящего
+  const speakerLang = languageForRole(languagePair, currentRole);
+
+  // Вход подтверждает сервер (room_joined), а не факт отправки запроса
+  const isConnected = room !== null;
+  const username = room?.username ?? '';
+
+  const [showRoomJoin, setShowRoomJoin] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGlossaries, setShowGlossaries] = useState(false);
+
+  // Ссылка ?room=...&name=..., с которой открыто приложение: заполняет окно входа
+  const [linkedRoom] = useState(readRoomLink);
+  const [linkPending, setLinkPending] = useState(linkedRoom !== null);
+
+  // Голосовое сообщение пишет VoiceRecorder - его тоже останавливают «Стоп» и «Стереть»
+  const voiceRecorderRef = useRef<VoiceRecorderHandle>(null);
+
+  // Приглашение не должно остаться в адресной строке
+  useEffect(() => {
+    if (linkedRoom) clearRoomLink();
+  }, [linkedRoom]);
+
+  // По ссылке с именем входим сразу, как только готов сокет. Окно входа
+  // открыто и с заполненными полями: при отказе в нём видна причина
+  useEffect(() => {
+    if (!linkPending || !linkedRoom || !connectionStatus.ws) return;
+    setLinkPending(false);
+    setShowRoomJoin(true);
+    if (linkedRoom.name) {
+      joinRoom(linkedRoom.room, linkedRoom.name, speakerLang, { token: linkedRoom.invite });
+    }
+  }, [linkPending, linkedRoom, connectionStatus.ws, joinRoom, speakerLang]);
+
+  // Реплики разговора - свои и из комнаты - идут в историю
+  const { addEntry } = history;
+  useEffect(() => store.onEntry(addEntry), [store, addEntry]);
+
+  // Вход в комнату или выход из неё начинает новую сессию истории
+  // (если реплики из новой комнаты - например, backlog - её ещё не начали)
+  const { switchRoom } = history;
+  useEffect(() => {
+    switchRoom(room?.code ?? null);
+  }, [room?.code, switchRoom]);
+
+  // Владельцу защищённой комнаты нужно свежее приглашение, открытую комнату откроет и код
+  const openInvite = () => {
+    if (room?.role === 'owner') createInvite();
+    setShowInvite(true);
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      alert(text.clipboard.copied(label));
+    } catch {
+      alert(text.clipboard.failed);
+    }
+  };
+
+  const pasteToOriginal = async () => {
+    try {
+      setOriginalText(await navigator.clipboard.readText());
+    } catch (err) {
+      console.error('Не удалось вставить текст:', err);
+    }
+  };
+
+  // Стереть всё: тексты, запись и озвучку
+  const eraseAll = () => {
+    setOriginalText('');
+    setTranslatedText('');
+    clearVerification();
+    if (isRecording) toggleRecording();
+    voiceRecorderRef.current?.stop();
+    speechPlayer.stop();
+  };
+
+  const stopRecording = () => {
+    voiceRecorderRef.current?.stop();
+    if (isRecording) toggleRecording();
+  };
+
+  return {
+    ...translator,
+    history,
+    speakerLang,
+    isConnected,
+    username,
+    linkedRoom,
+    showRoomJoin,
+    setShowRoomJoin,
+    showInvite,
+    setShowInvite,
+    showHistory,
+    setShowHistory,
+    showGlossaries,
+    setShowGlossaries,
+    voiceRecorderRef,
+    openInvite,
+    copyToClipboard,
+    pasteToOriginal,
+    eraseAll,
+    stopRecording
+  };
+};
+
+export type Dashboard = ReturnType<typeof useDashboard>;
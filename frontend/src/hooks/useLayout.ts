@@ -0,0 +1,5 @@
+import { useContext } from 'react';
+import { LayoutContext } from '../config/layoutContext';
+
+/** Действующая раскладка и выбор пользователя */
+export const useLayout = () => useContext(LayoutContext);
@@ -0,0 +1,8 @@
+import { useContext } from 'react';
+import { UiLanguageContext } from '../config/uiLanguageContext';
+
+/** Строки текущего языка интерфейса */
+export const useUiText = () => useContext(UiLanguageContext).text;
+
+/** Код языка интерфейса и его переключение */
+export const useUiLanguage = () => useContext(UiLanguageContext);
@@ -0,0 +1,305 @@
+// ========================================
+// REST клиент для DashkaBot backend
+// ========================================
+// src/services/api.ts
+import type {
+  ApiErrorBody,
+  BatchTranslateRequest,
+  BatchTranslateResponse,
+  DetectLanguageResponse,
+  GlossariesResponse,
+  GlossaryInput,
+  GlossaryResponse,
+  HealthResponse,
+  LanguagesResponse,
+  SpeechRequest,
+  SpeechResponse,
+  StatsResponse,
+  TranslateRequest,
+  TranslateResponse,
+  TranscribeRequest,
+  TranscribeResponse,
+  VoiceTranslateRequest,
+  VoiceTranslateResponse,
+  VoicesResponse
+} from '../types';
+import { loadApiToken } from '../config/apiToken';
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080';
+
+// Нужен, только если backend закрыт (JWT_SECRET); см. config/apiToken
+const withApiToken = (headers: Record<string, string> = {}): Record<string, string> => {
+  const token = loadApiToken();
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+};
+
+/** Ссылки из ответов backend (например, audioUrl) относительны - дополняем адресом API */
+export const apiUrl = (path: string) => new URL(path, API_URL).toString();
+
+/**
+ * bad_request  - backend отклонил входные данные (400/413/422)
+ * rate_limited - сработал rate limit (429)
+ * unavailable  - backend спит или недоступен (сеть, 502/503/504)
+ * timeout      - запрос не уложился в отведённое время
+ * server       - любая другая ошибка backend
+ */
+export type ApiErrorKind = 'bad_request' | 'rate_limited' | 'unavailable' | 'timeout' | 'server';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+const DEFAULT_TIMEOUT = 15000;
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 429) return 'rate_limited';
+  if (status === 502 || status === 503 || status === 504) return 'unavailable';
+  if (status >= 400 && status < 500) return 'bad_request';
+  return 'server';
+};
+
+const isErrorBody = (body: unknown): body is ApiErrorBody =>
+  typeof body === 'object' && body !== null && (body as ApiErrorBody).status === 'error';
+
+// Ошибка fetch: наш таймаут, отмена вызывающим (пробрасываем как есть) или недоступный backend
+const fetchError = (error: unknown, path: string, timeout: number, timedOut: boolean): unknown => {
+  if (timedOut) {
+    return new ApiError('timeout', `Request to ${path} timed out after ${timeout}ms`);
+  }
+  if ((error as Error)?.name === 'AbortError') {
+    return error;
+  }
+  // fetch падает с TypeError, когда сервер недоступен (например, Render ещё спит)
+  return new ApiError('unavailable', `Backend unreachable: ${(error as Error).message}`);
+};
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: BodyInit;
+  json?: unknown;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', json, timeout = DEFAULT_TIMEOUT, signal } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}${path}`, {
+      method,
+      headers: withApiToken(json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      body: json !== undefined ? JSON.stringify(json) : options.body,
+      signal: controller.signal
+    });
+  } catch (error) {
+    throw fetchError(error, path, timeout, controller.signal.aborted && !signal?.aborted);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Render отдаёт HTML-заглушку, пока сервис просыпается
+  }
+
+  if (!response.ok || isErrorBody(body)) {
+    const message = isErrorBody(body) ? body.message : `HTTP ${response.status}`;
+    throw new ApiError(kindFromStatus(response.status), message, response.status);
+  }
+
+  if (body === null) {
+    throw new ApiError('server', `Invalid JSON from ${path}`, response.status);
+  }
+
+  return body as T;
+}
+
+export const translate = (payload: TranslateRequest, signal?: AbortSignal) =>
+  request<TranslateResponse>('/translate', { method: 'POST', json: payload, timeout: 30000, signal });
+
+export const translateBatch = (payload: BatchTranslateRequest, signal?: AbortSignal) =>
+  request<BatchTranslateResponse>('/translate/batch', { method: 'POST', json: payload, timeout: 60000, signal });
+
+// Сколько ждать очередного куска потокового перевода
+const STREAM_IDLE_TIMEOUT = 30000;
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+const parseSseEvent = (block: string): SseEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+/**
+ * Потоковый перевод (POST /translate/stream, Server-Sent Events).
+ * onChunk получает куски перевода по мере генерации; промис завершается
+ * итоговым ответом - тем же, что у translate().
+ */
+export async function translateStream(
+  payload: TranslateRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<TranslateResponse> {
+  const path = '/translate/stream';
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, STREAM_IDLE_TIMEOUT);
+  };
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
+  restartTimer();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${API_URL}${path}`, {
+        method: 'POST',
+        headers: withApiToken({ 'Content-Type': 'application/json', Accept: 'text/event-stream' }),
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw fetchError(error, path, STREAM_IDLE_TIMEOUT, timedOut);
+    }
+
+    if (!response.ok || !response.body) {
+      let body: unknown = null;
+      try {
+        body = await response.json();
+      } catch {
+        // не JSON - хватит кода ответа
+      }
+      const message = isErrorBody(body) ? body.message : `HTTP ${response.status}`;
+      throw new ApiError(kindFromStatus(response.status), message, response.status);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+      let chunk: ReadableStreamReadResult<string>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        throw fetchError(error, path, STREAM_IDLE_TIMEOUT, timedOut);
+      }
+      if (chunk.done) break;
+      restartTimer();
+
+      buffer += chunk.value;
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const parsed = parseSseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (!parsed) continue;
+
+        let data: unknown;
+        try {
+          data = JSON.parse(parsed.data);
+        } catch {
+          throw new ApiError('server', `Invalid JSON in "${parsed.event}" event from ${path}`, response.status);
+        }
+        if (parsed.event === 'chunk') {
+          onChunk((data as { text: string }).text);
+        } else if (parsed.event === 'final') {
+          reader.cancel().catch(() => undefined);
+          return data as TranslateResponse;
+        } else if (parsed.event === 'error') {
+          throw new ApiError('server', isErrorBody(data) ? data.message : 'Streaming translation failed');
+        }
+      }
+    }
+
+    throw new ApiError('server', `Stream from ${path} ended without a final event`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+export const detectLanguage = (text: string, signal?: AbortSignal) =>
+  request<DetectLanguageResponse>('/detect-language', { method: 'POST', json: { text }, signal });
+
+export const getLanguages = () =>
+  request<LanguagesResponse>('/languages');
+
+export const voiceTranslate = (
+  { audio, fileName = 'recording.webm', fromLang, toLang }: VoiceTranslateRequest,
+  signal?: AbortSignal
+) => {
+  const form = new FormData();
+  form.append('audio', audio, fileName);
+  form.append('fromLang', fromLang);
+  form.append('toLang', toLang);
+  return request<VoiceTranslateResponse>('/voice-translate', { method: 'POST', body: form, timeout: 60000, signal });
+};
+
+export const transcribe = (
+  { audio, fileName = 'recording.webm', language }: TranscribeRequest,
+  signal?: AbortSignal
+) => {
+  const form = new FormData();
+  form.append('audio', audio, fileName);
+  form.append('language', language);
+  return request<TranscribeResponse>('/transcribe', { method: 'POST', body: form, timeout: 60000, signal });
+};
+
+export const speech = (payload: SpeechRequest, signal?: AbortSignal) =>
+  request<SpeechResponse>('/speech', { method: 'POST', json: payload, timeout: 30000, signal });
+
+export const getVoices = () =>
+  request<VoicesResponse>('/voices');
+
+export const getGlossaries = () =>
+  request<GlossariesResponse>('/glossaries');
+
+export const getGlossary = (id: string) =>
+  request<GlossaryResponse>(`/glossaries/${encodeURIComponent(id)}`);
+
+export const createGlossary = (glossary: GlossaryInput) =>
+  request<GlossaryResponse>('/glossaries', { method: 'POST', json: glossary });
+
+export const updateGlossary = (id: string, glossary: Partial<GlossaryInput>) =>
+  request<GlossaryResponse>(`/glossaries/${encodeURIComponent(id)}`, { method: 'PUT', json: glossary });
+
+export const deleteGlossary = (id: string) =>
+  request<{ status: 'success'; id: string }>(`/glossaries/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+/** Холодный старт на Render занимает до минуты - для пробуждения передаём больший timeout */
+export const getHealth = (timeout = 10000) =>
+  request<HealthResponse>('/health', { timeout });
+
+export const getStats = () =>
+  request<StatsResponse>('/stats');
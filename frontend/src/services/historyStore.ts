@@ -0,0 +1,153 @@
+// ========================================
+// История разговоров в IndexedDB
+// ========================================
+// src/services/historyStore.ts
+import type { ConversationEntry, HistoryEntry, HistorySession } from '../types';
+
+const DB_NAME = 'dashka-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          sessions.createIndex('updatedAt', 'updatedAt');
+          sessions.createIndex('room', 'room');
+        }
+        if (!db.objectStoreNames.contains(MESSAGES)) {
+          // Одна реплика может попасть в несколько сессий (журнал комнаты после переподключения)
+          const messages = db.createObjectStore(MESSAGES, { keyPath: ['sessionId', 'id'] });
+          messages.createIndex('sessionId', 'sessionId');
+          messages.createIndex('timestamp', 'timestamp');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Регистр и диакритика не мешают поиску: «Zaliczka» находит «zaliczkę» по «zaliczk»
+const normalize = (text: string) =>
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+const byTimestamp = (a: HistoryEntry, b: HistoryEntry) => a.timestamp.localeCompare(b.timestamp);
+
+export async function createSession(room: string | null): Promise<HistorySession> {
+  const db = await openDatabase();
+  const now = new Date().toISOString();
+  const session: HistorySession = {
+    id: crypto.randomUUID(),
+    room,
+    startedAt: now,
+    updatedAt: now,
+    messageCount: 0
+  };
+
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+  return session;
+}
+
+/**
+ * Сохраняет реплику. Запись с уже известным в этой сессии id перезаписывается,
+ * счётчик сессии при этом не растёт; другие сессии она не затрагивает.
+ */
+export async function saveEntry(sessionId: string, entry: ConversationEntry): Promise<HistoryEntry> {
+  const db = await openDatabase();
+  const record: HistoryEntry = { ...entry, sessionId };
+
+  const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+  const messages = tx.objectStore(MESSAGES);
+  const sessions = tx.objectStore(SESSIONS);
+
+  const existing = await requestToPromise(messages.get([sessionId, record.id]));
+  messages.put(record);
+
+  const session = await requestToPromise<HistorySession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({
+      ...session,
+      updatedAt: record.timestamp > session.updatedAt ? record.timestamp : session.updatedAt,
+      messageCount: session.messageCount + (existing ? 0 : 1)
+    });
+  }
+
+  await transactionDone(tx);
+  return record;
+}
+
+export async function listSessions(): Promise<HistorySession[]> {
+  const db = await openDatabase();
+  const sessions = await requestToPromise<HistorySession[]>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getSessionEntries(sessionId: string): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const entries = await requestToPromise<HistoryEntry[]>(
+    db.transaction(MESSAGES).objectStore(MESSAGES).index('sessionId').getAll(sessionId)
+  );
+  return entries.sort(byTimestamp);
+}
+
+/** Поиск по оригиналу и переводу: все слова запроса должны встретиться в реплике */
+export async function searchEntries(query: string, limit = 100): Promise<HistoryEntry[]> {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const db = await openDatabase();
+  const entries = await requestToPromise<HistoryEntry[]>(
+    db.transaction(MESSAGES).objectStore(MESSAGES).getAll()
+  );
+
+  return entries
+    .filter(entry => {
+      const haystack = normalize(`${entry.text}\n${entry.translation}`);
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => byTimestamp(b, a))
+    .slice(0, limit);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+  const messages = tx.objectStore(MESSAGES);
+
+  const keys = await requestToPromise(messages.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => messages.delete(key));
+  tx.objectStore(SESSIONS).delete(sessionId);
+
+  await transactionDone(tx);
+}
@@ -0,0 +1,81 @@
+// ========================================
+// Распознавание речи - общий интерфейс движков
+// ========================================
+// src/services/recognition/engine.ts
+// Хранилище переводчика знает только этот интерфейс: живой Web Speech API,
+// запись с распознаванием на сервере и сценарий для демо и тестов взаимозаменяемы.
+
+export type RecognitionEngineKind = 'web-speech' | 'whisper' | 'scripted';
+
+export type RecognitionErrorCode =
+  | 'not-supported'   // браузер не умеет ни распознавать, ни записывать
+  | 'not-allowed'     // нет разрешения на микрофон
+  | 'audio-capture'   // микрофон не найден или занят
+  | 'no-speech'       // в записи тишина или шум
+  | 'network'         // сервис распознавания недоступен
+  | 'aborted'         // распознавание прервано
+  | 'unknown';
+
+export interface RecognitionError {
+  code: RecognitionErrorCode;
+  message?: string;
+}
+
+/** Язык распознавания: код языка для сервера и BCP-47 локаль для браузера */
+export interface RecognitionLanguage {
+  code: string;
+  locale: string;
+}
+
+export interface RecognitionEvents {
+  /** Микрофон открыт, речь слушается */
+  start: () => void;
+  /** Незаконченная фраза целиком - каждый раз заменяет предыдущую */
+  interim: (text: string) => void;
+  /** Законченная фраза - приходит один раз */
+  final: (text: string) => void;
+  /** Сколько записанных фрагментов ещё ждут распознавания */
+  pending: (count: number) => void;
+  error: (error: RecognitionError) => void;
+  /** Распознавание закончилось - после stop() или само (ошибка, конец сценария) */
+  end: () => void;
+}
+
+export interface RecognitionEngine {
+  readonly kind: RecognitionEngineKind;
+  /** Язык действует со следующей фразы */
+  setLanguage(language: RecognitionLanguage): void;
+  start(): void;
+  /** Последняя фраза может прийти final уже после stop() */
+  stop(): void;
+  on<E extends keyof RecognitionEvents>(event: E, listener: RecognitionEvents[E]): () => void;
+  /** Остановить без событий и отписать всех */
+  dispose(): void;
+}
+
+type Listeners = { [E in keyof RecognitionEvents]: Set<RecognitionEvents[E]> };
+
+/** Подписки и события - общие для всех движков */
+export abstract class RecognitionEmitter {
+  private listeners: Listeners = {
+    start: new Set(),
+    interim: new Set(),
+    final: new Set(),
+    pending: new Set(),
+    error: new Set(),
+    end: new Set()
+  };
+
+  on<E extends keyof RecognitionEvents>(event: E, listener: RecognitionEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.listeners[event].delete(listener);
+  }
+
+  protected emit<E extends keyof RecognitionEvents>(event: E, ...args: Parameters<RecognitionEvents[E]>) {
+    this.listeners[event].forEach(listener => (listener as (...values: Parameters<RecognitionEvents[E]>) => void)(...args));
+  }
+
+  protected removeAllListeners() {
+    Object.values(this.listeners).forEach(set => set.clear());
+  }
+}
@@ -0,0 +1,17 @@
+// src/services/recognition/index.ts
+import type { RecognitionEngine, RecognitionLanguage } from './engine';
+import { WebSpeechRecognitionEngine, webSpeechSupported } from './webSpeech';
+import { WhisperRecognitionEngine, audioRecordingSupported } from './whisper';
+
+export * from './engine';
+export { WebSpeechRecognitionEngine, webSpeechSupported } from './webSpeech';
+export { WhisperRecognitionEngine, audioRecordingSupported } from './whisper';
+export { ScriptedRecognitionEngine, scriptFromPhrases } from './scripted';
+export type { RecognitionScript, RecognitionStep, ScriptedRecognitionOptions } from './scripted';
+
+/** Живое распознавание браузера, без него - запись с распознаванием на сервере */
+export const createRecognitionEngine = (language: RecognitionLanguage): RecognitionEngine | null => {
+  if (webSpeechSupported()) return new WebSpeechRecognitionEngine(language);
+  if (audioRecordingSupported()) return new WhisperRecognitionEngine(language);
+  return null;
+};
@@ -0,0 +1,131 @@
+// src/services/recognition/scripted.ts
+import {
+  RecognitionEmitter,
+  type RecognitionEngine,
+  type RecognitionErrorCode,
+  type RecognitionLanguage
+} from './engine';
+
+/** Шаг сценария: at - миллисекунды от start() */
+export type RecognitionStep =
+  | { at: number; interim: string }
+  | { at: number; final: string }
+  | { at: number; error: RecognitionErrorCode; message?: string };
+
+/** Сценарий целиком или по языку распознавания */
+export type RecognitionScript = RecognitionStep[] | ((language: RecognitionLanguage) => RecognitionStep[]);
+
+export interface ScriptedRecognitionOptions {
+  /** После последнего шага начать сценарий сначала вместо end */
+  loop?: boolean;
+  /** Пауза перед повтором сценария */
+  loopDelay?: number;
+}
+
+// Темп "речи" для scriptFromPhrases
+const WORD_INTERVAL = 300;
+const PHRASE_PAUSE = 1500;
+
+/**
+ * Сценарий из готовых фраз: каждая "произносится" по словам (interim),
+ * затем приходит целиком (final), между фразами - пауза.
+ */
+export const scriptFromPhrases = (phrases: string[], startAt = 500): RecognitionStep[] => {
+  const steps: RecognitionStep[] = [];
+  let at = startAt;
+
+  phrases.forEach(phrase => {
+    const words = phrase.split(/\s+/).filter(Boolean);
+    words.forEach((_, index) => {
+      steps.push({ at, interim: words.slice(0, index + 1).join(' ') });
+      at += WORD_INTERVAL;
+    });
+    steps.push({ at, final: phrase });
+    at += PHRASE_PAUSE;
+  });
+
+  return steps;
+};
+
+/**
+ * Распознавание по сценарию - для демо-режима без микрофона и для тестов
+ * записи, перевода и рассылки в комнату (jsdom, поддельные таймеры).
+ */
+export class ScriptedRecognitionEngine extends RecognitionEmitter implements RecognitionEngine {
+  readonly kind = 'scripted';
+  private script: RecognitionScript;
+  private options: ScriptedRecognitionOptions;
+  private language: RecognitionLanguage;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private listening = false;
+
+  constructor(script: RecognitionScript, language: RecognitionLanguage, options: ScriptedRecognitionOptions = {}) {
+    super();
+    this.script = script;
+    this.language = language;
+    this.options = options;
+  }
+
+  setLanguage(language: RecognitionLanguage) {
+    this.language = language;
+  }
+
+  start() {
+    if (this.listening) return;
+    this.listening = true;
+    this.emit('start');
+    this.play();
+  }
+
+  // Незаконченная фраза сценария так и остаётся незаконченной
+  stop() {
+    if (!this.listening) return;
+    this.finish();
+  }
+
+  dispose() {
+    this.listening = false;
+    this.clearTimers();
+    this.removeAllListeners();
+  }
+
+  private play() {
+    const steps = typeof this.script === 'function' ? this.script(this.language) : this.script;
+    const last = steps.reduce((latest, step) => Math.max(latest, step.at), 0);
+
+    steps.forEach(step => {
+      this.timers.push(setTimeout(() => this.runStep(step), step.at));
+    });
+
+    this.timers.push(setTimeout(() => {
+      this.clearTimers();
+      if (this.options.loop) {
+        this.timers.push(setTimeout(() => this.play(), this.options.loopDelay ?? PHRASE_PAUSE));
+      } else {
+        this.finish();
+      }
+    }, last));
+  }
+
+  private runStep(step: RecognitionStep) {
+    if ('interim' in step) {
+      this.emit('interim', step.interim);
+    } else if ('final' in step) {
+      this.emit('interim', '');
+      this.emit('final', step.final);
+    } else {
+      this.emit('error', { code: step.error, message: step.message });
+    }
+  }
+
+  private finish() {
+    this.listening = false;
+    this.clearTimers();
+    this.emit('end');
+  }
+
+  private clearTimers() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+}
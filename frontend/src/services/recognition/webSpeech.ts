@@ -0,0 +1,143 @@
+// src/services/recognition/webSpeech.ts
+import { RecognitionEmitter, type RecognitionEngine, type RecognitionErrorCode, type RecognitionLanguage } from './engine';
+
+// Web Speech API нет в lib.dom - описываем только то, чем пользуемся
+interface SpeechRecognitionErrorEventLike {
+  error: string;
+  message?: string;
+}
+
+interface SpeechRecognitionEventLike {
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onstart: (() => void) | null;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const speechRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+// Без Web Speech API (Firefox, часть WebView) остаётся запись с распознаванием на сервере
+export const webSpeechSupported = () => speechRecognitionConstructor() !== undefined;
+
+const ERROR_CODES: Record<string, RecognitionErrorCode> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'audio-capture': 'audio-capture',
+  'no-speech': 'no-speech',
+  network: 'network',
+  aborted: 'aborted'
+};
+
+// После этих ошибок перезапуск бесполезен - запись заканчивается
+const FATAL_ERRORS: ReadonlySet<RecognitionErrorCode> = new Set<RecognitionErrorCode>(['not-allowed', 'audio-capture']);
+
+/** Живое распознавание в браузере: промежуточный текст по ходу речи */
+export class WebSpeechRecognitionEngine extends RecognitionEmitter implements RecognitionEngine {
+  readonly kind = 'web-speech';
+  private recognition: SpeechRecognitionLike;
+  private listening = false;
+  // Сколько результатов текущего сеанса уже отправлено final - повторно не шлём
+  private processedResults = 0;
+
+  constructor(language: RecognitionLanguage) {
+    super();
+    const SpeechRecognition = speechRecognitionConstructor();
+    if (!SpeechRecognition) throw new Error('Web Speech API is not supported');
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = language.locale;
+
+    recognition.onstart = () => {
+      // Новый сеанс (в том числе автоперезапуск) - нумерация результатов с нуля
+      this.processedResults = 0;
+      this.emit('start');
+    };
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = 0; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (!result.isFinal) {
+          interim += result[0].transcript;
+        } else if (i >= this.processedResults) {
+          this.processedResults = i + 1;
+          const sentence = result[0].transcript.trim();
+          if (sentence) this.emit('final', sentence);
+        }
+      }
+      this.emit('interim', interim.trim());
+    };
+
+    recognition.onerror = (event) => {
+      const code = ERROR_CODES[event.error] ?? 'unknown';
+      if (FATAL_ERRORS.has(code)) this.listening = false;
+      this.emit('error', { code, message: event.message || event.error });
+    };
+
+    recognition.onend = () => {
+      // Chrome сам завершает распознавание после паузы - продолжаем запись
+      if (this.listening) {
+        try {
+          recognition.start();
+          return;
+        } catch {
+          this.listening = false;
+        }
+      }
+      this.emit('end');
+    };
+
+    this.recognition = recognition;
+  }
+
+  setLanguage(language: RecognitionLanguage) {
+    this.recognition.lang = language.locale;
+  }
+
+  start() {
+    if (this.listening) return;
+    this.listening = true;
+    try {
+      this.recognition.start();
+    } catch (error) {
+      this.listening = false;
+      this.emit('error', { code: 'unknown', message: (error as Error).message });
+      this.emit('end');
+    }
+  }
+
+  // Последняя фраза придёт с isFinal после stop()
+  stop() {
+    if (!this.listening) return;
+    this.listening = false;
+    this.recognition.stop();
+  }
+
+  dispose() {
+    this.listening = false;
+    this.removeAllListeners();
+    this.recognition.onend = null;
+    this.recognition.abort();
+  }
+}
@@ -0,0 +1,158 @@
+// src/services/recognition/whisper.ts
+import * as api from '../api';
+import { ApiError } from '../api';
+import { RecognitionEmitter, type RecognitionEngine, type RecognitionLanguage } from './engine';
+
+// Длинная речь уходит на сервер кусками - текст появляется, не дожидаясь конца записи
+const CLIP_DURATION = 20000;
+
+// Whisper принимает все эти контейнеры; берём первый, который умеет браузер
+const CLIP_FORMATS = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'mp4' },
+  { mimeType: 'audio/webm', extension: 'webm' }
+];
+
+type ClipFormat = (typeof CLIP_FORMATS)[number];
+
+export const audioRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const pickClipFormat = () =>
+  CLIP_FORMATS.find(format => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+
+/**
+ * Запись с распознаванием на сервере: MediaRecorder пишет клипы, каждый клип
+ * уходит в POST /transcribe, распознанный текст приходит событием final.
+ * Промежуточного текста нет. Текст переводится тем же путём, что и живая речь, -
+ * с глоссарием, стилем и проверкой; /voice-translate - у голосового сообщения (VoiceRecorder).
+ */
+export class WhisperRecognitionEngine extends RecognitionEmitter implements RecognitionEngine {
+  readonly kind = 'whisper';
+  private language: RecognitionLanguage;
+  private listening = false;
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private clipTimer: ReturnType<typeof setTimeout> | undefined;
+  // Клипы распознаются строго по порядку записи
+  private uploadQueue: Promise<void> = Promise.resolve();
+  private pendingUploads = 0;
+  private clipIndex = 0;
+  private abortController: AbortController | null = null;
+
+  constructor(language: RecognitionLanguage) {
+    super();
+    this.language = language;
+  }
+
+  setLanguage(language: RecognitionLanguage) {
+    this.language = language;
+  }
+
+  async start() {
+    if (this.listening) return;
+    const format = audioRecordingSupported() ? pickClipFormat() : null;
+    if (!format) {
+      this.emit('error', { code: 'not-supported' });
+      this.emit('end');
+      return;
+    }
+
+    this.listening = true;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      this.listening = false;
+      this.emit('error', { code: 'not-allowed', message: (error as Error).message });
+      this.emit('end');
+      return;
+    }
+    // stop() во время запроса разрешения
+    if (!this.listening) {
+      stream.getTracks().forEach(track => track.stop());
+      this.emit('end');
+      return;
+    }
+
+    this.stream = stream;
+    this.abortController = new AbortController();
+    this.clipIndex = 0;
+    this.emit('start');
+    this.recordClip(stream, format);
+  }
+
+  // Последний клип дописывается и уходит на сервер в onstop
+  stop() {
+    if (!this.listening) return;
+    this.listening = false;
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+  }
+
+  dispose() {
+    this.listening = false;
+    this.removeAllListeners();
+    clearTimeout(this.clipTimer);
+    this.abortController?.abort();
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  // Один MediaRecorder - один клип: у каждого файла свой заголовок контейнера
+  private recordClip(stream: MediaStream, format: ClipFormat) {
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      clearTimeout(this.clipTimer);
+      const clip = new Blob(chunks, { type: recorder.mimeType || format.mimeType });
+      if (clip.size > 0) {
+        this.uploadClip(clip, `recording-${++this.clipIndex}.${format.extension}`);
+      }
+
+      if (this.listening) {
+        this.recordClip(stream, format);
+      } else {
+        stream.getTracks().forEach(track => track.stop());
+        this.stream = null;
+        // Конец записи - когда распознан последний клип
+        this.uploadQueue = this.uploadQueue.then(() => this.emit('end'));
+      }
+    };
+
+    recorder.start();
+    this.recorder = recorder;
+    this.clipTimer = setTimeout(() => {
+      if (recorder.state === 'recording') recorder.stop();
+    }, CLIP_DURATION);
+  }
+
+  private uploadClip(audio: Blob, fileName: string) {
+    const signal = this.abortController?.signal;
+    this.emit('pending', ++this.pendingUploads);
+
+    this.uploadQueue = this.uploadQueue.then(async () => {
+      if (signal?.aborted) return;
+      try {
+        const result = await api.transcribe({ audio, fileName, language: this.language.code }, signal);
+        this.emit('final', result.text);
+      } catch (error) {
+        if (signal?.aborted) return;
+        // 422 - в клипе тишина или шум, это не ошибка записи
+        if (error instanceof ApiError && error.status === 422) {
+          this.emit('error', { code: 'no-speech' });
+        } else {
+          this.emit('error', { code: 'network', message: (error as Error).message });
+        }
+      } finally {
+        this.emit('pending', --this.pendingUploads);
+      }
+    });
+  }
+}
@@ -0,0 +1,145 @@
+// ========================================
+// Очередь озвучки переводов
+// ========================================
+// src/services/speechPlayer.ts
+// Реплики звучат строго по очереди и не перебивают друг друга.
+// Серверная озвучка запрашивается сразу при постановке в очередь,
+// чтобы между репликами не было паузы на генерацию.
+import * as api from './api';
+import { apiUrl } from './api';
+import {
+  loadSpeechSettings,
+  voiceSettingsFor,
+  type SpeechSettings,
+  type VoiceSettings
+} from '../config/speechSettings';
+
+const VOICES_WAIT_TIMEOUT = 2000;
+
+const browserSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Chrome загружает голоса асинхронно - первый getVoices() может быть пустым
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_WAIT_TIMEOUT);
+    speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+  });
+};
+
+export class SpeechPlayer {
+  private settings: SpeechSettings = loadSpeechSettings();
+  private queue: Promise<void> = Promise.resolve();
+  // stop() меняет поколение - задачи, поставленные раньше, пропускаются
+  private generation = 0;
+  private cancelCurrent: (() => void) | null = null;
+
+  configure(settings: SpeechSettings) {
+    this.settings = settings;
+  }
+
+  /** Озвучить перевод: language - код языка (PL), locale - для speechSynthesis (pl-PL) */
+  speak(text: string, language: string, locale: string) {
+    const { mode } = this.settings;
+    if (!text.trim() || mode === 'off') return;
+
+    const voice = voiceSettingsFor(this.settings, language);
+    if (mode === 'server') {
+      const pending = api.speech({
+        text,
+        language: language.toLowerCase(),
+        voice: voice.serverVoice,
+        speed: voice.rate
+      }).catch(error => {
+        console.error('[ERROR] Server speech failed, using browser voice:', error);
+        return null;
+      });
+
+      this.enqueue(async () => {
+        const result = await pending;
+        // Без ключа OpenAI сервер отдаёт беззвучный файл - говорим голосом устройства
+        if (result && result.provider !== 'mock-tts') {
+          await this.playAudio(apiUrl(result.audioUrl));
+        } else {
+          await this.playBrowser(text, language, locale, voice);
+        }
+      });
+    } else {
+      this.enqueue(() => this.playBrowser(text, language, locale, voice));
+    }
+  }
+
+  /** Готовый файл озвучки (audioUrl из /voice-translate) - в ту же очередь */
+  playUrl(url: string) {
+    if (this.settings.mode === 'off') return;
+    this.enqueue(() => this.playAudio(apiUrl(url)));
+  }
+
+  /** Прервать текущую реплику и очистить очередь */
+  stop() {
+    this.generation++;
+    this.cancelCurrent?.();
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    const generation = this.generation;
+    this.queue = this.queue
+      .then(() => (generation === this.generation ? task() : undefined))
+      .catch(error => console.error('[ERROR] Speech playback failed:', error));
+  }
+
+  private playAudio(url: string): Promise<void> {
+    return new Promise(resolve => {
+      const audio = new Audio(url);
+      const finish = () => {
+        this.cancelCurrent = null;
+        resolve();
+      };
+      this.cancelCurrent = () => {
+        audio.pause();
+        finish();
+      };
+      audio.addEventListener('ended', finish, { once: true });
+      audio.addEventListener('error', finish, { once: true });
+      // Автовоспроизведение могут запретить - тогда просто идём дальше
+      audio.play().catch(finish);
+    });
+  }
+
+  private async playBrowser(text: string, language: string, locale: string, settings: VoiceSettings) {
+    if (!browserSpeechSupported()) return;
+
+    const voices = await loadBrowserVoices();
+    const prefix = language.toLowerCase();
+    const voice =
+      voices.find(v => v.name === settings.browserVoice) ??
+      voices.find(v => v.lang.toLowerCase().startsWith(prefix));
+
+    await new Promise<void>(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = locale;
+      utterance.rate = settings.rate;
+      if (voice) utterance.voice = voice;
+
+      const finish = () => {
+        this.cancelCurrent = null;
+        resolve();
+      };
+      this.cancelCurrent = () => {
+        speechSynthesis.cancel();
+        finish();
+      };
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      speechSynthesis.speak(utterance);
+    });
+  }
+}
+
+export const speechPlayer = new SpeechPlayer();
@@ -0,0 +1,439 @@
+// src/services/translatorStore.test.ts
+// Хранилище целиком в jsdom: распознавание - по сценарию, сокет - без сети,
+// backend и озвучка - заглушки
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslatorStore, type TranslatorSocketLike } from './translatorStore';
+import { ScriptedRecognitionEngine, scriptFromPhrases, type RecognitionScript } from './recognition';
+import * as api from './api';
+import { speechPlayer } from './speechPlayer';
+import { englishConfig } from '../config/languages';
+import { FALLBACK_LANGUAGES } from '../config/languagePairs';
+import { loadOwnerToken, saveOwnerToken } from '../config/roomTokens';
+import type {
+  ClientMessage,
+  ConversationEntry,
+  RoomJoinedMessage,
+  ServerMessage,
+  SocketState,
+  TranslateRequest,
+  TranslationMessage,
+  VoiceTranslateResponse
+} from '../types';
+
+vi.mock('./api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  getHealth: vi.fn(),
+  getLanguages: vi.fn(),
+  detectLanguage: vi.fn(),
+  translateStream: vi.fn(),
+  translate: vi.fn()
+}));
+
+vi.mock('./speechPlayer', () => ({
+  speechPlayer: { speak: vi.fn(), playUrl: vi.fn(), stop: vi.fn() }
+}));
+
+/** Сокет без сети: сообщения сервера подаёт тест, отправленное копится в sent */
+class FakeSocket implements TranslatorSocketLike {
+  sent: ClientMessage[] = [];
+  joins: Parameters<TranslatorSocketLike['joinRoom']>[] = [];
+  reconnects = 0;
+  private messageListeners = new Set<(message: ServerMessage) => void>();
+  private stateListeners = new Set<(state: SocketState) => void>();
+
+  connect() {
+    this.setState('open');
+  }
+
+  disconnect() {
+    this.setState('closed');
+  }
+
+  reconnect() {
+    this.reconnects++;
+    this.setState('open');
+  }
+
+  send(message: ClientMessage) {
+    this.sent.push(message);
+    return true;
+  }
+
+  joinRoom(...args: Parameters<TranslatorSocketLike['joinRoom']>) {
+    this.joins.push(args);
+    return true;
+  }
+
+  createRoom() {
+    return true;
+  }
+
+  createInvite() {
+    return true;
+  }
+
+  setLanguage() {
+    return true;
+  }
+
+  setGlossary() {
+    return true;
+  }
+
+  setStyle() {
+    return true;
+  }
+
+  leaveRoom() {
+    return true;
+  }
+
+  onMessage(listener: (message: ServerMessage) => void) {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  onStateChange(listener: (state: SocketState) => void) {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  setState(state: SocketState) {
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  deliver(message: ServerMessage) {
+    this.messageListeners.forEach(listener => listener(message));
+  }
+
+  translations() {
+    return this.sent.filter(message => message.type === 'translation');
+  }
+}
+
+const translatedText = ({ text, target_language }: TranslateRequest) => `[${target_language}] ${text}`;
+
+const mockBackend = () => {
+  vi.mocked(api.getHealth).mockResolvedValue({} as Awaited<ReturnType<typeof api.getHealth>>);
+  vi.mocked(api.getLanguages).mockResolvedValue({
+    status: 'success',
+    count: FALLBACK_LANGUAGES.length,
+    languages: FALLBACK_LANGUAGES,
+    service: 'test'
+  });
+  vi.mocked(api.detectLanguage).mockImplementation(async text => ({
+    status: 'success',
+    detected_language: /[ąćęłńóśźż]/i.test(text) ? 'PL' : 'RU',
+    confidence: 0.9,
+    provider: 'test'
+  }));
+  vi.mocked(api.translateStream).mockImplementation(async (payload, onChunk) => {
+    const translation = translatedText(payload);
+    // Перевод приходит двумя кусками: «[PL]» и сам текст
+    onChunk(`[${payload.target_language}]`);
+    onChunk(translation.slice(payload.target_language!.length + 2));
+    return {
+      status: 'success',
+      original_text: payload.text,
+      translated_text: translation,
+      source_language: payload.source_language!,
+      target_language: payload.target_language!,
+      confidence: 0.9,
+      timestamp: new Date().toISOString(),
+      processing_time: 1,
+      provider: 'test',
+      from_cache: false
+    };
+  });
+};
+
+const createStore = (script: RecognitionScript = []) => {
+  const socket = new FakeSocket();
+  const store = new TranslatorStore({
+    text: englishConfig,
+    createSocket: () => socket,
+    createRecognition: language => new ScriptedRecognitionEngine(script, language)
+  });
+  const entries: ConversationEntry[] = [];
+  store.onEntry(entry => entries.push(entry));
+  return { store, socket, entries };
+};
+
+const roomJoined = (room: string, username = 'Anna'): RoomJoinedMessage => ({
+  type: 'room_joined',
+  room,
+  username,
+  client_id: 'client-1',
+  participants: [
+    { client_id: 'client-1', username, language: 'RU', role: null, joined_at: '2025-10-03T10:00:00.000Z' },
+    { client_id: 'client-2', username: 'Jan', language: 'PL', role: null, joined_at: '2025-10-03T10:00:00.000Z' }
+  ],
+  glossary: null,
+  styles: { '*': { register: 'formal', addressee_gender: 'unspecified' } },
+  timestamp: '2025-10-03T10:00:00.000Z'
+});
+
+const partnerMessage = (id: string, seq: number, original: string): TranslationMessage => ({
+  type: 'translation',
+  id,
+  seq,
+  username: 'Jan',
+  original,
+  translation: `[RU] ${original}`,
+  from: 'PL',
+  to: 'RU',
+  timestamp: `2025-10-03T10:0${seq}:00.000Z`
+});
+
+// Ответ /voice-translate на один клип голосового сообщения
+const voiceResult = (originalText: string, audioUrl: string | null): VoiceTranslateResponse => ({
+  status: 'success',
+  originalText,
+  translatedText: `[PL] ${originalText}`,
+  audioUrl,
+  fromLanguage: 'RU',
+  toLanguage: 'PL',
+  processingTime: 1,
+  confidence: 0.9,
+  provider: 'test',
+  transcriptionProvider: 'test'
+});
+
+// Контекст, с которым уйдёт следующий перевод
+const nextContext = async (store: TranslatorStore) => {
+  vi.mocked(api.translateStream).mockClear();
+  await store.performTranslation('Спасибо');
+  return vi.mocked(api.translateStream).mock.calls[0][0].context?.map(turn => turn.text) ?? [];
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers();
+  // Хранилище пишет в консоль каждое сообщение сокета
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockBackend();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('recording', () => {
+  it('shows, translates and sends every recognized phrase in order', async () => {
+    const { store, socket, entries } = createStore(scriptFromPhrases(['Добрый день', 'У меня вопрос']));
+    await store.start();
+    expect(store.getState().recognitionEngine).toBe('scripted');
+
+    store.toggleRecording();
+    expect(store.getState().isRecording).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(store.getState().originalText).toBe('Добрый');
+
+    await vi.advanceTimersByTimeAsync(10000);
+    const state = store.getState();
+    expect(state.isRecording).toBe(false);
+    expect(state.originalText).toBe('Добрый день У меня вопрос');
+    expect(state.translatedText).toBe('[PL] Добрый день [PL] У меня вопрос');
+
+    // Вторая фраза переводится с первой в контексте
+    const requests = vi.mocked(api.translateStream).mock.calls.map(([payload]) => payload);
+    expect(requests.map(request => request.text)).toEqual(['Добрый день', 'У меня вопрос']);
+    expect(requests[1].context).toEqual([{ speaker: expect.any(String), language: 'RU', text: 'Добрый день' }]);
+
+    expect(socket.translations().map(message => message.translation)).toEqual([
+      '[PL] Добрый день',
+      '[PL] У меня вопрос'
+    ]);
+    expect(entries.map(entry => entry.text)).toEqual(['Добрый день', 'У меня вопрос']);
+    expect(vi.mocked(speechPlayer.speak).mock.calls.map(([text, language]) => [text, language])).toEqual([
+      ['[PL] Добрый день', 'PL'],
+      ['[PL] У меня вопрос', 'PL']
+    ]);
+  });
+
+  it('leaves a phrase unfinished at stop() untranslated', async () => {
+    const { store, socket } = createStore(scriptFromPhrases(['Добрый день', 'У меня вопрос']));
+    await store.start();
+
+    store.toggleRecording();
+    await vi.advanceTimersByTimeAsync(2700);
+    expect(store.getState().originalText).toBe('Добрый день У');
+
+    store.toggleRecording();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(store.getState().status).toBe(englishConfig.status.stopped);
+    expect(store.getState().originalText).toBe('Добрый день У');
+    expect(socket.translations().map(message => message.original)).toEqual(['Добрый день']);
+  });
+
+  it('reports a recognition error and ends the recording when the script runs out', async () => {
+    const { store } = createStore([{ at: 100, error: 'no-speech' }]);
+    await store.start();
+
+    store.toggleRecording();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(store.getState().status).toBe(englishConfig.recognition.noSpeech);
+    expect(store.getState().isRecording).toBe(false);
+    expect(api.translateStream).not.toHaveBeenCalled();
+  });
+});
+
+describe('back-translation check', () => {
+  // Обратный перевод с искажённым смыслом - у фраз из drifting
+  const withVerification = (drifting: string[]) => {
+    const translateStream = vi.mocked(api.translateStream).getMockImplementation()!;
+    vi.mocked(api.translateStream).mockImplementation(async (payload, onChunk, signal) => ({
+      ...(await translateStream(payload, onChunk, signal)),
+      verification: {
+        back_translation: payload.text,
+        similarity: drifting.includes(payload.text) ? 0.4 : 0.95,
+        threshold: 0.7,
+        drift: drifting.includes(payload.text),
+        provider: 'test'
+      }
+    }));
+  };
+
+  it('holds two drifting phrases in a row and sends nothing out of order until the speaker decides', async () => {
+    withVerification(['Добрый день', 'У меня вопрос']);
+    const { store, socket, entries } = createStore(scriptFromPhrases(['Добрый день', 'У меня вопрос', 'Спасибо']));
+    await store.start();
+    store.toggleVerify();
+
+    store.toggleRecording();
+    await vi.advanceTimersByTimeAsync(15000);
+
+    expect(socket.translations()).toEqual([]);
+    expect(store.getState().verification?.held?.text).toBe('Добрый день');
+    expect(store.getState().translatedText).toBe('[PL] Добрый день [PL] У меня вопрос [PL] Спасибо');
+
+    // Первая подтверждена - вторая, тоже сомнительная, встаёт на её место; третья ждёт дальше
+    store.releaseHeldTranslation();
+    expect(socket.translations().map(message => message.original)).toEqual(['Добрый день']);
+    expect(store.getState().verification?.held?.text).toBe('У меня вопрос');
+
+    // Вторая отклонена - уходит третья, а вторая пропадает и из переведённого текста
+    store.discardHeldTranslation();
+    expect(socket.translations().map(message => message.original)).toEqual(['Добрый день', 'Спасибо']);
+    expect(store.getState().verification).toMatchObject({ drift: false, held: null });
+    expect(store.getState().translatedText).toBe('[PL] Добрый день [PL] Спасибо');
+    expect(entries.map(entry => entry.text)).toEqual(['Добрый день', 'Спасибо']);
+    expect(vi.mocked(speechPlayer.speak).mock.calls.map(([text]) => text)).toEqual(['[PL] Добрый день', '[PL] Спасибо']);
+  });
+});
+
+describe('voice message', () => {
+  it("appends every clip, sends it to the room and plays the server's speech", async () => {
+    const { store, socket, entries } = createStore();
+    await store.start();
+
+    store.handleVoiceResult(voiceResult('Добрый день', '/audio/1.mp3'));
+    store.handleVoiceResult(voiceResult('У меня вопрос', null), { segment: true });
+
+    const state = store.getState();
+    expect(state.originalText).toBe('Добрый день У меня вопрос');
+    expect(state.translatedText).toBe('[PL] Добрый день [PL] У меня вопрос');
+    expect(socket.translations().map(message => [message.translation, message.from, message.to])).toEqual([
+      ['[PL] Добрый день', 'RU', 'PL'],
+      ['[PL] У меня вопрос', 'RU', 'PL']
+    ]);
+    expect(entries.map(entry => entry.text)).toEqual(['Добрый день', 'У меня вопрос']);
+    expect(speechPlayer.playUrl).toHaveBeenCalledExactlyOnceWith('/audio/1.mp3');
+    expect(api.translateStream).not.toHaveBeenCalled();
+  });
+});
+
+describe('room', () => {
+  it('joins with the stored owner token and takes the room from room_joined', async () => {
+    const { store, socket } = createStore();
+    await store.start();
+    saveOwnerToken('ABCDE', 'owner-token');
+
+    expect(store.joinRoom('ABCDE', 'Anna', 'RU')).toBe(true);
+    expect(socket.joins).toEqual([['ABCDE', 'Anna', 'RU', { token: 'owner-token' }]]);
+
+    socket.deliver(roomJoined('ABCDE'));
+    const state = store.getState();
+    expect(state.room).toEqual({ code: 'ABCDE', username: 'Anna', language: 'RU', role: null });
+    expect(state.participants.map(participant => participant.username)).toEqual(['Anna', 'Jan']);
+    expect(state.styles).toEqual({ '*': { register: 'formal', addressee_gender: 'unspecified' } });
+    expect(state.status).toBe(englishConfig.status.roomJoined('ABCDE', 2));
+  });
+
+  it('forgets a stored owner token the server no longer accepts', async () => {
+    const { store, socket } = createStore();
+    await store.start();
+    saveOwnerToken('ABCDE', 'stale-token');
+
+    store.joinRoom('ABCDE', 'Anna', 'RU');
+    socket.deliver({ type: 'error', code: 'invite_invalid', message: 'invalid', timestamp: '2025-10-03T10:00:00.000Z' });
+
+    expect(store.getState().roomError?.code).toBe('invite_invalid');
+    expect(loadOwnerToken('ABCDE')).toBeUndefined();
+  });
+
+  it("shows a partner's translation and sends its own translations to the room", async () => {
+    const { store, socket, entries } = createStore();
+    await store.start();
+    socket.deliver(roomJoined('ABCDE'));
+
+    socket.deliver(partnerMessage('m-1', 1, 'Dzień dobry'));
+    expect(store.getState().originalText).toBe('Dzień dobry');
+    expect(store.getState().translatedText).toBe('[RU] Dzień dobry');
+    expect(store.getState().status).toBe(englishConfig.status.incoming('Jan', 'PL', 'RU'));
+    expect(entries).toEqual([expect.objectContaining({ id: 'm-1', room: 'ABCDE', speaker: 'Jan', text: 'Dzień dobry' })]);
+
+    await store.performTranslation('Добрый день');
+    expect(socket.translations()).toEqual([
+      expect.objectContaining({ original: 'Добрый день', translation: '[PL] Добрый день', from: 'RU', to: 'PL' })
+    ]);
+    // Обращение комнаты уходит с запросом перевода
+    expect(vi.mocked(api.translateStream).mock.calls[0][0]).toEqual(expect.objectContaining({ register: 'formal' }));
+    expect(entries[1]).toEqual(expect.objectContaining({ room: 'ABCDE', speaker: 'Anna', text: 'Добрый день' }));
+  });
+
+  it('replays the backlog into history without speaking it and replaces repeats by id', async () => {
+    const { store, socket, entries } = createStore();
+    await store.start();
+    socket.deliver(roomJoined('ABCDE'));
+    socket.deliver(partnerMessage('m-1', 1, 'Dzień dobry'));
+
+    socket.deliver({
+      type: 'backlog',
+      room: 'ABCDE',
+      messages: [partnerMessage('m-1', 1, 'Dzień dobry'), partnerMessage('m-2', 2, 'Mam pytanie')],
+      last_seq: 2,
+      truncated: true,
+      timestamp: '2025-10-03T10:05:00.000Z'
+    });
+
+    expect(entries.map(entry => entry.id)).toEqual(['m-1', 'm-1', 'm-2']);
+    expect(store.getState().status).toBe(englishConfig.status.backlogLoaded(2, true));
+    expect(speechPlayer.speak).not.toHaveBeenCalled();
+    expect(await nextContext(store)).toEqual(['Dzień dobry', 'Mam pytanie']);
+  });
+
+  it('keeps the conversation across a reconnect to the same room and drops it for another room', async () => {
+    const { store, socket } = createStore();
+    await store.start();
+    socket.deliver(roomJoined('ABCDE'));
+    socket.deliver(partnerMessage('m-1', 1, 'Dzień dobry'));
+
+    socket.setState('reconnecting');
+    expect(store.getState().connectionStatus.ws).toBe(false);
+
+    store.reconnectSocket();
+    expect(socket.reconnects).toBe(1);
+    expect(store.getState().connectionStatus.ws).toBe(true);
+
+    socket.deliver(roomJoined('ABCDE'));
+    expect(await nextContext(store)).toEqual(['Dzień dobry']);
+
+    socket.deliver(roomJoined('FGHJK'));
+    expect(await nextContext(store)).toEqual([]);
+  });
+});
@@ -0,0 +1,942 @@
+// ========================================
+// Общее состояние переводчика - одно на приложение
+// ========================================
+// src/services/translatorStore.ts
+// Хранилище владеет сокетом, распознаванием речи и состоянием сессии.
+// React подписывается через useSyncExternalStore (hooks/useTranslator),
+// но хранилище работает и без React - зависимости передаются в конструктор.
+import { TranslatorSocket, WS_URL, type RoomCredentials } from './websocket';
+import * as api from './api';
+import { ApiError } from './api';
+import { speechPlayer } from './speechPlayer';
+import {
+  createRecognitionEngine,
+  type RecognitionEngine,
+  type RecognitionEngineKind,
+  type RecognitionError,
+  type RecognitionLanguage
+} from './recognition';
+import {
+  FALLBACK_LANGUAGES,
+  languageForRole,
+  languageLabel,
+  loadLanguagePair,
+  localeFor,
+  saveLanguagePair
+} from '../config/languagePairs';
+import { forgetOwnerToken, loadOwnerToken, saveOwnerToken } from '../config/roomTokens';
+import { roomLink } from '../config/roomLinks';
+import { loadVerifyMode, saveVerifyMode } from '../config/verifySettings';
+import { loadStyles, saveStyles, styleForLanguage } from '../config/styleSettings';
+import type { LanguageConfig } from '../config/types';
+import type {
+  ContextTurn,
+  ConversationEntry,
+  ErrorMessage,
+  GlossarySummary,
+  GlossaryTerm,
+  Language,
+  LanguagePair,
+  RoomParticipant,
+  RoomRole,
+  ServerMessage,
+  TranslateRequest,
+  TranslateResponse,
+  TranslationStyle,
+  TranslationStyles,
+  TranslatorRole,
+  VoiceTranslateResponse
+} from '../types';
+
+export type TranslationMode = 'manual' | 'auto';
+
+// Простой logger вместо импорта
+const logger = {
+  info: (...args: unknown[]) => console.log('[INFO]', ...args),
+  error: (...args: unknown[]) => console.error('[ERROR]', ...args),
+  debug: (...args: unknown[]) => console.log('[DEBUG]', ...args)
+};
+
+// Статус для ошибки API: rate limit, спящий backend и плохой ввод выглядят по-разному
+const describeApiError = (error: unknown, text: LanguageConfig): string => {
+  if (!(error instanceof ApiError)) {
+    return text.apiErrors.unknown(String((error as Error)?.message ?? error));
+  }
+  switch (error.kind) {
+    case 'rate_limited':
+      return text.apiErrors.rateLimited;
+    case 'unavailable':
+      return text.apiErrors.unavailable;
+    case 'timeout':
+      return text.apiErrors.timeout;
+    case 'bad_request':
+      return text.apiErrors.badRequest(error.message);
+    default:
+      return text.apiErrors.server(error.message);
+  }
+};
+
+// Статус записи: распознаёт браузер, сервер или сценарий демо-режима
+const recordingStatus = (kind: RecognitionEngineKind, text: LanguageConfig): string => {
+  switch (kind) {
+    case 'whisper':
+      return text.recognition.serverRecording;
+    case 'scripted':
+      return text.recognition.demoRecording;
+    default:
+      return text.status.recording;
+  }
+};
+
+// Статус для ошибки распознавания; null - статус не меняется
+const describeRecognitionError = (error: RecognitionError, text: LanguageConfig): string | null => {
+  switch (error.code) {
+    case 'aborted':
+      return null;
+    case 'not-supported':
+      return text.recognition.unsupported;
+    case 'not-allowed':
+    case 'audio-capture':
+      return text.recognition.micDenied;
+    case 'no-speech':
+      return text.recognition.noSpeech;
+    case 'network':
+      return text.recognition.failed(error.message ?? error.code);
+    default:
+      return text.status.speechError(error.message ?? error.code);
+  }
+};
+
+// Сколько последних реплик разговора отправлять с переводом как контекст
+const CONTEXT_TURNS = 6;
+
+// Законченные фразы одной записи - через пробел
+const joinSegments = (...parts: string[]) => parts.filter(Boolean).join(' ');
+
+export interface TranslationOptions {
+  /** Фраза из живой записи: перевод дописывается к переводам предыдущих фраз */
+  segment?: boolean;
+}
+
+export interface RoomState {
+  code: string;
+  username: string;
+  language: string;
+  role: RoomRole | null;
+}
+
+/** Свой перевод, ещё не отправленный в комнату и историю */
+export interface HeldTranslation {
+  text: string;
+  translation: string;
+  from: string;
+  to: string;
+  /** Фраза живой записи: после отправки продолжает переведённый текст */
+  segment: boolean;
+}
+
+/** Обратный перевод последней своей фразы */
+export interface VerificationState {
+  backTranslation: string;
+  similarity: number;
+  drift: boolean;
+  /** Перевод с искажённым смыслом не озвучен и не отправлен - ждёт решения говорящего */
+  held: HeldTranslation | null;
+}
+
+type VerificationCheck = Omit<VerificationState, 'held'>;
+
+export interface ConnectionStatus {
+  ai: boolean;
+  ws: boolean;
+  speech: boolean;
+}
+
+export interface TranslatorState {
+  translationMode: TranslationMode;
+  currentRole: TranslatorRole;
+  originalText: string;
+  translatedText: string;
+  isRecording: boolean;
+  status: string;
+  isTranslating: boolean;
+  isWakingUp: boolean;
+  languages: Language[];
+  languagePair: LanguagePair;
+  /** Язык распознавания - язык говорящей стороны */
+  recognitionLang: RecognitionLanguage;
+  /** Чем распознаётся речь; null - записывать нечем */
+  recognitionEngine: RecognitionEngineKind | null;
+  /** Записанные фрагменты, которые ещё распознаёт сервер */
+  pendingClips: number;
+  /** Подтверждённый сервером вход в комнату */
+  room: RoomState | null;
+  participants: RoomParticipant[];
+  // Храним код, а не текст - сообщение следует за языком интерфейса
+  roomError: ErrorMessage | null;
+  // Глоссарий: в комнате - общий для всех участников, вне комнаты - свой
+  glossary: GlossarySummary | null;
+  // Термины глоссария, соблюдённые в последнем переводе
+  glossaryTerms: GlossaryTerm[];
+  /** Обращение к читателю по языку перевода: в комнате - общее, вне комнаты - своё */
+  styles: TranslationStyles;
+  // Последнее приглашение, выданное владельцу комнаты
+  invite: { link: string; expiresAt: string } | null;
+  /** Проверять свои переводы обратным переводом */
+  verify: boolean;
+  verification: VerificationState | null;
+  connectionStatus: ConnectionStatus;
+}
+
+type StoreListener = () => void;
+type EntryListener = (entry: ConversationEntry) => void;
+
+/** Сокет с точки зрения хранилища - в тестах подменяется */
+export type TranslatorSocketLike = Pick<
+  TranslatorSocket,
+  | 'connect'
+  | 'disconnect'
+  | 'reconnect'
+  | 'send'
+  | 'joinRoom'
+  | 'createRoom'
+  | 'createInvite'
+  | 'setLanguage'
+  | 'setGlossary'
+  | 'setStyle'
+  | 'leaveRoom'
+  | 'onMessage'
+  | 'onStateChange'
+>;
+
+export interface TranslatorStoreOptions {
+  /** Строки интерфейса для статусов; меняются через setText */
+  text: LanguageConfig;
+  createSocket?: () => TranslatorSocketLike;
+  /** Движок распознавания: по умолчанию - Web Speech API или запись с распознаванием на сервере */
+  createRecognition?: (language: RecognitionLanguage) => RecognitionEngine | null;
+}
+
+export class TranslatorStore {
+  private state: TranslatorState;
+  private text: LanguageConfig;
+  private readonly createSocket: () => TranslatorSocketLike;
+  private readonly createRecognition: (language: RecognitionLanguage) => RecognitionEngine | null;
+
+  private listeners = new Set<StoreListener>();
+  private entryListeners = new Set<EntryListener>();
+  // Последние реплики разговора - контекст для следующего перевода
+  private recentEntries: ConversationEntry[] = [];
+
+  private socket: TranslatorSocketLike | null = null;
+  private recognition: RecognitionEngine | null = null;
+  // Вход с сохранённым токеном владельца: отказ по токену - токен устарел
+  private joinAttempt: { room: string; storedToken: boolean } | null = null;
+  // Текущий потоковый перевод - новый запрос отменяет предыдущий
+  private translationAbort: AbortController | null = null;
+
+  // Живая запись: законченные (isFinal) фразы переводятся по одной, строго по порядку
+  private segmentQueue: Promise<void> = Promise.resolve();
+  private committedText = '';
+  // Только отправленные переводы: отложенный попадает сюда, когда говорящий его подтвердит
+  private committedTranslation = '';
+  // Переводы, готовые после отложенного, ждут решения говорящего, чтобы не обогнать его
+  private waitingTranslations: { translation: HeldTranslation; check: VerificationCheck | null }[] = [];
+
+  constructor({
+    text,
+    createSocket = () => new TranslatorSocket({ url: WS_URL }),
+    createRecognition = createRecognitionEngine
+  }: TranslatorStoreOptions) {
+    this.text = text;
+    this.createSocket = createSocket;
+    this.createRecognition = createRecognition;
+
+    const languagePair = loadLanguagePair();
+    this.state = {
+      translationMode: 'auto',
+      currentRole: 'user',
+      originalText: '',
+      translatedText: '',
+      isRecording: false,
+      status: text.status.ready,
+      isTranslating: false,
+      isWakingUp: false,
+      languages: FALLBACK_LANGUAGES,
+      languagePair,
+      recognitionLang: { code: languagePair.source, locale: localeFor(FALLBACK_LANGUAGES, languagePair.source) },
+      recognitionEngine: null,
+      pendingClips: 0,
+      room: null,
+      participants: [],
+      roomError: null,
+      glossary: null,
+      glossaryTerms: [],
+      styles: loadStyles(),
+      invite: null,
+      verify: loadVerifyMode(),
+      verification: null,
+      connectionStatus: { ai: false, ws: false, speech: false }
+    };
+  }
+
+  // ---------- подписка ----------
+
+  getState = (): TranslatorState => this.state;
+
+  subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /** Каждая реплика разговора - своя и полученная из комнаты */
+  onEntry = (listener: EntryListener): (() => void) => {
+    this.entryListeners.add(listener);
+    return () => this.entryListeners.delete(listener);
+  };
+
+  setText = (text: LanguageConfig) => {
+    this.text = text;
+  };
+
+  private setState(patch: Partial<TranslatorState>) {
+    this.state = { ...this.state, ...patch };
+
+    // Язык распознавания следует за стороной разговора и выбранной парой
+    const code = languageForRole(this.state.languagePair, this.state.currentRole);
+    const locale = localeFor(this.state.languages, code);
+    if (code !== this.state.recognitionLang.code || locale !== this.state.recognitionLang.locale) {
+      this.state = { ...this.state, recognitionLang: { code, locale } };
+      this.recognition?.setLanguage(this.state.recognitionLang);
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+
+  private setConnection(patch: Partial<ConnectionStatus>) {
+    this.setState({ connectionStatus: { ...this.state.connectionStatus, ...patch } });
+  }
+
+  private emitEntry(entry: ConversationEntry) {
+    // Повтор из backlog заменяет прежнюю запись с тем же id
+    this.recentEntries = [...this.recentEntries.filter(e => e.id !== entry.id), entry].slice(-CONTEXT_TURNS);
+    this.entryListeners.forEach(listener => listener(entry));
+  }
+
+  private contextTurns(): ContextTurn[] {
+    return this.recentEntries.map(entry => ({ speaker: entry.speaker, language: entry.from, text: entry.text }));
+  }
+
+  // ---------- жизненный цикл ----------
+
+  /** Повторный вызов после dispose() поднимает всё заново */
+  start = async () => {
+    if (this.socket) return;
+    this.initWebSocket();
+    this.initSpeechRecognition();
+    await this.checkAIServer();
+    this.loadLanguages();
+    this.setStatus(this.text.status.systemReady);
+  };
+
+  dispose = () => {
+    this.translationAbort?.abort();
+    speechPlayer.stop();
+    this.recognition?.dispose();
+    this.recognition = null;
+    this.socket?.disconnect();
+    this.socket = null;
+    this.setState({ isRecording: false, pendingClips: 0 });
+  };
+
+  setStatus = (status: string) => {
+    this.setState({ status });
+  };
+
+  setOriginalText = (originalText: string) => {
+    this.setState({ originalText });
+  };
+
+  setTranslatedText = (translatedText: string) => {
+    this.setState({ translatedText });
+  };
+
+  checkAIServer = async (timeout?: number): Promise<boolean> => {
+    try {
+      await api.getHealth(timeout);
+      this.setConnection({ ai: true });
+      return true;
+    } catch (error) {
+      logger.error('Health check failed:', error);
+      this.setConnection({ ai: false });
+      return false;
+    }
+  };
+
+  /** Разбудить спящий backend и сразу переподключить сокет */
+  wakeUp = async () => {
+    this.setState({ isWakingUp: true, status: this.text.status.waking });
+
+    try {
+      // Холодный старт Render может длиться до минуты
+      if (await this.checkAIServer(60000)) {
+        this.setStatus(this.text.status.awake);
+        // Не ждём очередной паузы backoff - сокет сам вернётся в последнюю комнату
+        this.reconnectSocket();
+      } else {
+        this.setStatus(this.text.status.notResponding);
+      }
+    } finally {
+      this.setState({ isWakingUp: false });
+    }
+  };
+
+  private async loadLanguages() {
+    try {
+      const result = await api.getLanguages();
+      if (result.languages.length > 0) {
+        this.setState({ languages: result.languages });
+      }
+    } catch (error) {
+      logger.error('Failed to load languages, using fallback list:', error);
+    }
+  }
+
+  setLanguagePair = (pair: LanguagePair) => {
+    if (pair.source === pair.target) return;
+    this.setState({ languagePair: pair });
+    saveLanguagePair(pair);
+  };
+
+  // В авто-режиме сторона задаёт только язык распознавания,
+  // направление перевода всё равно определяется по тексту
+  handleRoleChange = (role: TranslatorRole) => {
+    this.setState({ currentRole: role });
+  };
+
+  switchSpeaker = () => {
+    this.handleRoleChange(this.state.currentRole === 'user' ? 'steuerberater' : 'user');
+  };
+
+  // ---------- комната ----------
+
+  private initWebSocket() {
+    const socket = this.createSocket();
+
+    socket.onStateChange(state => {
+      this.setConnection({ ws: state === 'open' });
+      logger.info('WebSocket state:', state);
+    });
+
+    socket.onMessage(data => this.handleServerMessage(data));
+
+    socket.connect();
+    this.socket = socket;
+  }
+
+  private handleServerMessage(data: ServerMessage) {
+    logger.info('WebSocket message received:', data);
+    const text = this.text;
+
+    switch (data.type) {
+      case 'translation':
+        // Перевод от партнёра - обновляем UI; проверка своей фразы к нему не относится
+        if (data.username) {
+          this.setState({
+            originalText: data.original || '',
+            translatedText: data.translation || '',
+            // Отложенный перевод ждёт решения и после чужой реплики
+            ...(!this.state.verification?.held && { verification: null })
+          });
+          this.emitEntry({
+            id: data.id,
+            room: this.state.room?.code ?? null,
+            speaker: data.username,
+            from: data.from,
+            to: data.to,
+            text: data.original,
+            translation: data.translation,
+            timestamp: data.timestamp
+          });
+          this.setStatus(text.status.incoming(data.username, data.from, data.to));
+        }
+        break;
+
+      case 'backlog':
+        // Пропущенное: только в историю, без озвучки; повторы заменяются по id
+        data.messages.forEach(message => {
+          this.emitEntry({
+            id: message.id,
+            room: data.room,
+            speaker: message.username,
+            from: message.from,
+            to: message.to,
+            text: message.original,
+            translation: message.translation,
+            timestamp: message.timestamp
+          });
+        });
+        if (data.messages.length > 0) {
+          this.setStatus(text.status.backlogLoaded(data.messages.length, data.truncated));
+        }
+        break;
+
+      case 'room_joined': {
+        const self = data.participants.find(p => p.client_id === data.client_id);
+        // Другая комната - другой разговор; после переподключения контекст тот же
+        if (this.state.room?.code !== data.room) this.recentEntries = [];
+        this.setState({
+          room: {
+            code: data.room,
+            username: data.username,
+            language: self?.language ?? '',
+            role: self?.role ?? null
+          },
+          participants: data.participants,
+          glossary: data.glossary,
+          styles: data.styles,
+          roomError: null,
+          status: text.status.roomJoined(data.room, data.participants.length)
+        });
+        break;
+      }
+
+      case 'room_created':
+        saveOwnerToken(data.room, data.owner_token);
+        this.setStatus(text.status.roomCreated(data.room, data.passphrase));
+        break;
+
+      case 'invite_created':
+        this.setState({
+          invite: { link: roomLink({ room: data.room, invite: data.token }), expiresAt: data.expires_at }
+        });
+        break;
+
+      case 'room_left':
+        this.recentEntries = [];
+        this.setState({ room: null, participants: [], glossary: null, styles: loadStyles(), invite: null });
+        break;
+
+      case 'user_joined':
+        this.setState({ participants: data.roster, status: text.status.userJoined(data.username, data.participants) });
+        break;
+
+      case 'user_updated':
+        this.setState({ participants: data.roster });
+        break;
+
+      case 'glossary_changed':
+        this.setState({
+          glossary: data.glossary,
+          status: text.status.glossaryChanged(data.username, data.glossary?.name ?? null)
+        });
+        break;
+
+      case 'style_changed':
+        this.setState({
+          styles: data.styles,
+          status: text.status.styleChanged(
+            data.username,
+            data.language === '*' ? null : languageLabel(this.state.languages, data.language)
+          )
+        });
+        break;
+
+      case 'user_left':
+        this.setState({ participants: data.roster, status: text.status.userLeft(data.username, data.participants) });
+        break;
+
+      case 'error':
+        logger.error('Server error:', data.code, data.message);
+        if (this.joinAttempt?.storedToken && (data.code === 'invite_invalid' || data.code === 'invite_expired')) {
+          forgetOwnerToken(this.joinAttempt.room);
+        }
+        this.setState({ roomError: data });
+        break;
+
+      case 'welcome':
+        logger.info('Welcome:', data.message);
+        break;
+
+      case 'role_confirmed':
+        logger.info('Role confirmed:', data.role);
+        break;
+    }
+  }
+
+  // language - на каком языке этот участник читает переводы комнаты
+  // credentials - для защищённой комнаты; владелец входит по сохранённому токену
+  joinRoom = (code: string, username: string, language: string, credentials: RoomCredentials = {}): boolean => {
+    this.setState({ roomError: null });
+    const storedToken = credentials.token ? undefined : loadOwnerToken(code);
+    this.joinAttempt = { room: code, storedToken: storedToken !== undefined };
+    return this.socket?.joinRoom(code, username, language, {
+      ...credentials,
+      token: credentials.token ?? storedToken
+    }) ?? false;
+  };
+
+  // Защищённая комната: без пароля войти можно только по приглашению владельца.
+  // Без кода его выдаёт сервер
+  createRoom = (code: string | undefined, username: string, language: string, passphrase?: string): boolean => {
+    this.setState({ roomError: null });
+    this.joinAttempt = null;
+    return this.socket?.createRoom(code, username, language, passphrase) ?? false;
+  };
+
+  // Прежнее приглашение заменяется новым, когда его пришлёт сервер
+  createInvite = () => {
+    this.setState({ invite: null });
+    this.socket?.createInvite();
+  };
+
+  setRoomLanguage = (language: string) => {
+    this.socket?.setLanguage(language);
+    const { room } = this.state;
+    if (room) this.setState({ room: { ...room, language } });
+  };
+
+  leaveRoom = () => {
+    this.socket?.leaveRoom();
+    this.recentEntries = [];
+    this.setState({ room: null, participants: [], glossary: null, styles: loadStyles(), invite: null });
+  };
+
+  // В комнате глоссарий меняется только после подтверждения сервера (glossary_changed)
+  selectGlossary = (next: GlossarySummary | null) => {
+    if (this.state.room) {
+      this.socket?.setGlossary(next?.id ?? null);
+    } else {
+      this.setState({ glossary: next });
+    }
+  };
+
+  // Как и глоссарий: в комнате - после подтверждения сервера (style_changed)
+  setStyle = (language: string, style: TranslationStyle) => {
+    if (this.state.room) {
+      this.socket?.setStyle(style, language);
+      return;
+    }
+    const styles = { ...this.state.styles, [language]: style };
+    saveStyles(styles);
+    this.setState({ styles });
+  };
+
+  reconnectSocket = () => {
+    this.socket?.reconnect();
+  };
+
+  // ---------- распознавание речи ----------
+
+  private initSpeechRecognition() {
+    const recognition = this.createRecognition(this.state.recognitionLang);
+    this.recognition = recognition;
+    if (!recognition) {
+      this.setState({
+        recognitionEngine: null,
+        connectionStatus: { ...this.state.connectionStatus, speech: false }
+      });
+      return;
+    }
+
+    recognition.on('start', () => {
+      this.setStatus(recordingStatus(recognition.kind, this.text));
+    });
+
+    // Слева - уже отправленные фразы и текущая незаконченная
+    recognition.on('interim', interim => {
+      this.setOriginalText(joinSegments(this.committedText, interim));
+    });
+
+    recognition.on('final', sentence => this.queueSegment(sentence));
+
+    recognition.on('pending', pendingClips => {
+      this.setState({
+        pendingClips,
+        ...(pendingClips > 0 && { status: this.text.recognition.uploading })
+      });
+    });
+
+    recognition.on('error', error => {
+      const status = describeRecognitionError(error, this.text);
+      if (status) this.setStatus(status);
+    });
+
+    // Движок остановился сам (нет микрофона, кончился сценарий) - запись закончена
+    recognition.on('end', () => {
+      if (this.state.isRecording) this.setState({ isRecording: false });
+    });
+
+    this.setState({
+      recognitionEngine: recognition.kind,
+      connectionStatus: { ...this.state.connectionStatus, speech: true }
+    });
+  }
+
+  private queueSegment(transcript: string) {
+    const sentence = transcript.trim();
+    if (!sentence) return;
+
+    this.committedText = joinSegments(this.committedText, sentence);
+    this.setOriginalText(this.committedText);
+    this.segmentQueue = this.segmentQueue.then(() => this.performTranslation(sentence, { segment: true }));
+  }
+
+  toggleRecording = () => {
+    if (!this.recognition) {
+      this.setStatus(this.text.status.speechUnavailable);
+      return;
+    }
+    if (!this.state.isRecording) {
+      // Новая запись - новый текст; фразы прошлой записи уже в истории
+      this.committedText = '';
+      this.committedTranslation = '';
+      this.waitingTranslations = [];
+      this.setState({
+        originalText: '',
+        translatedText: '',
+        verification: null,
+        isRecording: true,
+        status: this.text.status.listening
+      });
+      this.recognition.start();
+    } else {
+      // Последняя фраза придёт после stop() и встанет в очередь сама
+      this.setState({ isRecording: false, status: this.text.status.stopped });
+      this.recognition.stop();
+    }
+  };
+
+  // Язык распознавания меняется вместе со стороной - запись не прерывается
+  toggleTranslationMode = () => {
+    const translationMode: TranslationMode = this.state.translationMode === 'manual' ? 'auto' : 'manual';
+    this.setState({
+      translationMode,
+      status: translationMode === 'auto' ? this.text.status.autoMode : this.text.status.manualMode,
+      // Авто-режим начинает слушать со стороны source
+      ...(translationMode === 'auto' && { currentRole: 'user' as const })
+    });
+  };
+
+  // ---------- перевод ----------
+
+  toggleVerify = () => {
+    const verify = !this.state.verify;
+    saveVerifyMode(verify);
+    if (!verify) this.waitingTranslations = [];
+    this.setState({ verify, ...(!verify && { verification: null }) });
+  };
+
+  /** Говорящий подтвердил перевод с низким баллом - отправляем и озвучиваем, за ним - ждавшие */
+  releaseHeldTranslation = () => {
+    const { verification } = this.state;
+    if (!verification?.held) return;
+    const { held } = verification;
+    this.setState({ verification: { ...verification, held: null } });
+    this.sendTranslation(held);
+    this.deliverWaiting(held.segment);
+  };
+
+  /** Говорящий отклонил отложенный перевод - он не уходит никуда, ждавшие за ним отправляются */
+  discardHeldTranslation = () => {
+    const { verification } = this.state;
+    if (!verification?.held) return;
+    const { held } = verification;
+    this.setState({ verification: { ...verification, held: null } });
+    this.deliverWaiting(held.segment);
+  };
+
+  // Всё неотправленное так и не уходит ни в комнату, ни в историю
+  clearVerification = () => {
+    this.waitingTranslations = [];
+    this.setState({ verification: null });
+  };
+
+  // Переведённый текст записи: отправленное и всё, что ждёт решения говорящего
+  private segmentTranslation() {
+    const unsent = [this.state.verification?.held, ...this.waitingTranslations.map(item => item.translation)]
+      .filter((item): item is HeldTranslation => !!item?.segment);
+    return joinSegments(this.committedTranslation, ...unsent.map(item => item.translation));
+  }
+
+  // Отправить и озвучить; фраза записи продолжает отправленный текст
+  private sendTranslation({ text, translation, from, to, segment }: HeldTranslation) {
+    if (segment) this.committedTranslation = joinSegments(this.committedTranslation, translation);
+    this.publishTranslation(text, translation, from, to);
+    this.speak(translation, to);
+  }
+
+  // Готовый перевод: отправить или, если смысл искажён, отложить. true - отложен
+  private deliverTranslation(translation: HeldTranslation, check: VerificationCheck | null): boolean {
+    if (check?.drift) {
+      this.setState({ verification: { ...check, held: translation } });
+      // Смысл, вероятно, искажён - не отправляем и не озвучиваем, пока говорящий не проверит
+      this.setStatus(this.text.verification.driftStatus);
+      return true;
+    }
+    this.setState({ verification: check && { ...check, held: null } });
+    this.sendTranslation(translation);
+    return false;
+  }
+
+  // Решение по отложенному принято - по порядку отправляем ждавшие, до следующего сомнительного
+  private deliverWaiting(segment: boolean) {
+    while (this.waitingTranslations.length > 0) {
+      const { translation, check } = this.waitingTranslations.shift()!;
+      if (this.deliverTranslation(translation, check)) break;
+    }
+    if (segment) this.setState({ translatedText: this.segmentTranslation() });
+  }
+
+  // Озвучка - только итогового текста, в общей очереди
+  private speak(text: string, language: string) {
+    speechPlayer.speak(text, language, localeFor(this.state.languages, language));
+  }
+
+  /**
+   * Перевод с потоковой выдачей: правая панель заполняется по мере генерации.
+   * Если backend не знает /translate/stream, переводим обычным запросом.
+   */
+  private async requestTranslation(payload: TranslateRequest, signal: AbortSignal, prefix = ''): Promise<TranslateResponse> {
+    let partial = '';
+    try {
+      return await api.translateStream(payload, chunk => {
+        partial += chunk;
+        this.setTranslatedText(joinSegments(prefix, partial));
+      }, signal);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return api.translate(payload, signal);
+      }
+      throw error;
+    }
+  }
+
+  // Готовый перевод - в историю и в комнату
+  private publishTranslation(text: string, translation: string, fromLang: string, toLang: string) {
+    const { room, languages } = this.state;
+    const entryId = crypto.randomUUID();
+    this.emitEntry({
+      id: entryId,
+      room: room?.code ?? null,
+      speaker: room?.username || languageLabel(languages, fromLang),
+      from: fromLang,
+      to: toLang,
+      text,
+      translation,
+      timestamp: new Date().toISOString()
+    });
+    this.setStatus(this.text.status.done(fromLang, toLang));
+
+    // ОТПРАВИТЬ В КОМНАТУ ЧЕРЕЗ WEBSOCKET
+    const sent = this.socket?.send({
+      type: 'translation',
+      id: entryId,
+      original: text,
+      translation: translation,
+      from: fromLang,
+      to: toLang,
+      timestamp: new Date().toISOString()
+    });
+    if (sent) {
+      logger.info('Translation sent to room');
+    }
+  }
+
+  performTranslation = async (text: string, { segment = false }: TranslationOptions = {}) => {
+    if (!text.trim()) return;
+
+    this.translationAbort?.abort();
+    const abortController = new AbortController();
+    this.translationAbort = abortController;
+
+    this.setState({ isTranslating: true, status: this.text.status.translating });
+
+    try {
+      let fromLang: string;
+      let toLang: string;
+
+      const { languagePair, translationMode, glossary, verify, styles } = this.state;
+      const { source, target } = languagePair;
+
+      if (translationMode === 'auto') {
+        // Язык source переводим на target, всё остальное - на source
+        const detected = (await api.detectLanguage(text)).detected_language;
+        this.setState({ currentRole: detected === source ? 'user' : 'steuerberater' });
+
+        fromLang = detected;
+        toLang = detected === source ? target : source;
+      } else {
+        fromLang = languageForRole(languagePair, this.state.currentRole);
+        toLang = fromLang === source ? target : source;
+      }
+
+      const style = styleForLanguage(styles, toLang);
+      const context = this.contextTurns();
+      const prefix = segment ? this.segmentTranslation() : '';
+      const result = await this.requestTranslation({
+        text,
+        source_language: fromLang,
+        target_language: toLang,
+        ...(glossary && { glossary_id: glossary.id }),
+        ...(verify && { verify: true }),
+        ...(style.register !== 'auto' && { register: style.register }),
+        ...(style.addressee_gender !== 'unspecified' && { addressee_gender: style.addressee_gender }),
+        ...(context.length > 0 && { context })
+      }, abortController.signal, prefix);
+      const translation = result.translated_text;
+      const { verification } = result;
+      const ready: HeldTranslation = { text, translation, from: fromLang, to: toLang, segment };
+      const check: VerificationCheck | null = verification ? {
+        backTranslation: verification.back_translation,
+        similarity: verification.similarity,
+        drift: verification.drift
+      } : null;
+
+      this.setState({
+        glossaryTerms: result.glossary_terms_applied ?? [],
+        translatedText: joinSegments(prefix, translation)
+      });
+
+      // Пока говорящий не решил судьбу отложенного перевода, следующие ждут за ним
+      if (this.state.verification?.held) {
+        this.waitingTranslations.push({ translation: ready, check });
+        this.setStatus(this.text.verification.driftStatus);
+      } else {
+        this.deliverTranslation(ready, check);
+      }
+
+    } catch (error) {
+      // Отменён более новым переводом - его статус важнее
+      if (abortController.signal.aborted) return;
+      logger.error('Translation failed:', error);
+      if (error instanceof ApiError && error.kind === 'unavailable') {
+        this.setConnection({ ai: false });
+      }
+      this.setStatus(describeApiError(error, this.text));
+    } finally {
+      if (this.translationAbort === abortController) {
+        this.translationAbort = null;
+        this.setState({ isTranslating: false });
+      }
+    }
+  };
+
+  /**
+   * Результат /voice-translate (голосовое сообщение). Клипы длинной записи
+   * приходят по очереди - дописываем их к панелям, как фразы живой записи.
+   * Озвучку backend уже вернул в audioUrl - она встаёт в общую очередь.
+   */
+  handleVoiceResult = (result: VoiceTranslateResponse, { segment = false }: TranslationOptions = {}) => {
+    const fromLang = result.fromLanguage.toUpperCase();
+    const toLang = result.toLanguage.toUpperCase();
+    const textPrefix = segment ? this.committedText : '';
+    const translationPrefix = segment ? this.committedTranslation : '';
+
+    this.committedText = joinSegments(textPrefix, result.originalText);
+    this.committedTranslation = joinSegments(translationPrefix, result.translatedText);
+    this.setState({ originalText: this.committedText, translatedText: this.committedTranslation });
+    this.publishTranslation(result.originalText, result.translatedText, fromLang, toLang);
+    if (result.audioUrl) speechPlayer.playUrl(result.audioUrl);
+  };
+}
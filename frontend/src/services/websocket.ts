@@ -0,0 +1,289 @@
+// ========================================
+// WebSocket клиент с автоматическим переподключением
+// ========================================
+// src/services/websocket.ts
+import type { ClientMessage, RoomErrorCode, ServerMessage, SocketState, TranslationStyle } from '../types';
+
+type MessageListener = (message: ServerMessage) => void;
+type StateListener = (state: SocketState) => void;
+
+export interface TranslatorSocketOptions {
+  url: string;
+  /** Первая пауза перед переподключением, мс */
+  minDelay?: number;
+  /** Верхняя граница паузы, мс */
+  maxDelay?: number;
+}
+
+/** Доступ в защищённую комнату: пароль или токен (владельца либо приглашения) */
+export interface RoomCredentials {
+  passphrase?: string;
+  token?: string;
+}
+
+// Отказ во входе - повторять его при переподключении бессмысленно
+const JOIN_REJECTIONS: ReadonlySet<RoomErrorCode> = new Set<RoomErrorCode>([
+  'username_taken',
+  'room_exists',
+  'passphrase_required',
+  'passphrase_invalid',
+  'invite_required',
+  'invite_invalid',
+  'invite_expired',
+  'too_many_attempts'
+]);
+
+export const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:8080/ws';
+
+const isServerMessage = (data: unknown): data is ServerMessage =>
+  typeof data === 'object' && data !== null && typeof (data as { type?: unknown }).type === 'string';
+
+export class TranslatorSocket {
+  private readonly url: string;
+  private readonly minDelay: number;
+  private readonly maxDelay: number;
+
+  private ws: WebSocket | null = null;
+  private state: SocketState = 'closed';
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = true;
+
+  // Последняя комната - повторяем вход после переподключения
+  private lastJoin: ({ room: string; username: string; language: string } & RoomCredentials) | null = null;
+  // Последний полученный номер сообщения комнаты - для resume_after
+  private lastSeq: { room: string; seq: number } | null = null;
+  // Один на вкладку: сервер узнаёт нас при повторном входе и не считает имя занятым
+  private readonly sessionId = crypto.randomUUID();
+
+  private messageListeners = new Set<MessageListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor({ url, minDelay = 1000, maxDelay = 30000 }: TranslatorSocketOptions) {
+    this.url = url;
+    this.minDelay = minDelay;
+    this.maxDelay = maxDelay;
+  }
+
+  connect() {
+    this.stopped = false;
+    this.clearReconnectTimer();
+    this.open();
+  }
+
+  disconnect() {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    this.lastJoin = null;
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+    this.setState('closed');
+  }
+
+  /** Немедленное переподключение (например, после пробуждения backend) */
+  reconnect() {
+    this.stopped = false;
+    this.attempts = 0;
+    this.clearReconnectTimer();
+    if (this.ws) {
+      // onclose старого сокета уже не должен планировать переподключение
+      this.detach(this.ws);
+      this.ws.close();
+      this.ws = null;
+    }
+    this.open();
+  }
+
+  send(message: ClientMessage): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  joinRoom(room: string, username: string, language: string, credentials: RoomCredentials = {}): boolean {
+    if (this.lastSeq?.room !== room) {
+      this.lastSeq = null;
+    }
+    this.lastJoin = { room, username, language, ...credentials };
+    return this.sendJoin();
+  }
+
+  /**
+   * Создать защищённую комнату и войти владельцем. Без кода его выдаёт
+   * сервер. Переподключения дальше идут по токену владельца из room_created.
+   */
+  createRoom(room: string | undefined, username: string, language: string, passphrase?: string): boolean {
+    this.lastSeq = null;
+    this.lastJoin = { room: room ?? '', username, language, passphrase };
+    return this.send({
+      type: 'create_room',
+      room,
+      username,
+      language,
+      passphrase,
+      session_id: this.sessionId
+    });
+  }
+
+  /** Приглашение в текущую комнату (только для владельца) */
+  createInvite(ttlMinutes?: number): boolean {
+    return this.send({ type: 'create_invite', ttl_minutes: ttlMinutes });
+  }
+
+  /** Сменить язык получения переводов в текущей комнате */
+  setLanguage(language: string): boolean {
+    if (this.lastJoin) {
+      this.lastJoin = { ...this.lastJoin, language };
+    }
+    return this.send({ type: 'set_language', language });
+  }
+
+  /** Подключить глоссарий к текущей комнате (null - отключить) */
+  setGlossary(glossaryId: string | null): boolean {
+    return this.send({ type: 'set_glossary', glossary_id: glossaryId });
+  }
+
+  /** Обращение к получателям на языке language (без языка - ко всем) */
+  setStyle(style: TranslationStyle, language?: string): boolean {
+    return this.send({ type: 'set_style', ...style, ...(language && { language }) });
+  }
+
+  leaveRoom(): boolean {
+    this.lastJoin = null;
+    this.lastSeq = null;
+    return this.send({ type: 'leave_room' });
+  }
+
+  getState(): SocketState {
+    return this.state;
+  }
+
+  onMessage(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private open() {
+    this.setState(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url);
+    } catch (error) {
+      console.error('[WS] init error:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    ws.onopen = () => {
+      this.attempts = 0;
+      this.setState('open');
+      this.sendJoin();
+    };
+
+    ws.onmessage = (event: MessageEvent<string>) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch (error) {
+        console.error('[WS] parse error:', error);
+        return;
+      }
+      if (isServerMessage(data)) {
+        // Вход отклонён - не повторяем его при следующем переподключении
+        if (data.type === 'error' && JOIN_REJECTIONS.has(data.code)) {
+          this.lastJoin = null;
+        }
+        // Пустой room - код ещё не выдан сервером
+        if (data.type === 'room_created' && this.lastJoin && [data.room, ''].includes(this.lastJoin.room)) {
+          this.lastJoin = { ...this.lastJoin, room: data.room, passphrase: undefined, token: data.owner_token };
+        }
+        this.trackSeq(data);
+        this.messageListeners.forEach(listener => listener(data));
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error('[WS] error:', error);
+    };
+
+    ws.onclose = () => {
+      this.ws = null;
+      if (this.stopped) {
+        this.setState('closed');
+      } else {
+        this.scheduleReconnect();
+      }
+    };
+
+    this.ws = ws;
+  }
+
+  private sendJoin(): boolean {
+    if (!this.lastJoin?.room) return false;
+    const resumeAfter = this.lastSeq?.room === this.lastJoin.room ? this.lastSeq.seq : undefined;
+    return this.send({
+      type: 'join_room',
+      ...this.lastJoin,
+      session_id: this.sessionId,
+      resume_after: resumeAfter
+    });
+  }
+
+  private trackSeq(message: ServerMessage) {
+    const room = this.lastJoin?.room;
+    if (!room) return;
+
+    if (message.type === 'backlog' && message.room === room) {
+      // Сервер мог пересоздать журнал комнаты - его номер главнее нашего
+      this.lastSeq = { room, seq: message.last_seq };
+    } else if (message.type === 'translation' && typeof message.seq === 'number') {
+      const current = this.lastSeq?.room === room ? this.lastSeq.seq : 0;
+      this.lastSeq = { room, seq: Math.max(current, message.seq) };
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+
+    // Экспоненциальная пауза с небольшим разбросом, чтобы клиенты не стучались одновременно
+    const base = Math.min(this.maxDelay, this.minDelay * 2 ** this.attempts);
+    const delay = Math.round(base * (0.8 + Math.random() * 0.4));
+    this.attempts++;
+    this.setState('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private detach(ws: WebSocket) {
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+  }
+
+  private setState(state: SocketState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,559 @@
+// ========================================
+// Общие типы фронтенда
+// ========================================
+
+export type TranslatorRole = 'user' | 'steuerberater';
+
+/** Пара языков разговора: source - сторона user, target - сторона steuerberater */
+export interface LanguagePair {
+  source: string;
+  target: string;
+}
+
+// ----------------------------------------
+// История разговора
+// ----------------------------------------
+
+/** Одна реплика разговора. id стабилен - повторная запись не создаёт дубль */
+export interface ConversationEntry {
+  id: string;
+  room: string | null;
+  speaker: string;
+  from: string;
+  to: string;
+  text: string;
+  translation: string;
+  timestamp: string;
+}
+
+export interface HistoryEntry extends ConversationEntry {
+  sessionId: string;
+}
+
+export interface HistorySession {
+  id: string;
+  room: string | null;
+  startedAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// ----------------------------------------
+// WebSocket: сообщения сервера → клиент
+// ----------------------------------------
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  client_id: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface TranslationMessage {
+  type: 'translation';
+  /** Идентификатор сообщения (задаёт отправитель) - по нему отсеиваются дубликаты */
+  id: string;
+  /** Номер в журнале комнаты */
+  seq: number;
+  username: string;
+  original: string;
+  translation: string;
+  from: string;
+  to: string;
+  timestamp: string;
+}
+
+/** Сообщения комнаты, пропущенные до входа или за время переподключения */
+export interface BacklogMessage {
+  type: 'backlog';
+  room: string;
+  messages: TranslationMessage[];
+  last_seq: number;
+  /** Часть пропущенного уже вытеснена из журнала сервера */
+  truncated: boolean;
+  timestamp: string;
+}
+
+export interface RoomParticipant {
+  client_id: string;
+  username: string;
+  /** Язык, на котором участник получает переводы */
+  language: string | null;
+  /** Только в защищённой комнате: owner - создатель, guest - вошедший по паролю или приглашению */
+  role: RoomRole | null;
+  joined_at: string;
+}
+
+export type RoomRole = 'owner' | 'guest';
+
+/** Обращение к читателю перевода: formal - «вы» (Sie, Pan / Pani), informal - «ты» */
+export type Register = 'auto' | 'formal' | 'informal';
+/** Род читателя - там, где от него зависят формы (Pan / Pani, согласование) */
+export type AddresseeGender = 'unspecified' | 'female' | 'male';
+
+export interface TranslationStyle {
+  register: Register;
+  addressee_gender: AddresseeGender;
+}
+
+/** Стили по языку получателя; '*' - для языков без своей настройки */
+export type TranslationStyles = Record<string, TranslationStyle>;
+
+/** Подтверждение входа - полный список участников комнаты */
+export interface RoomJoinedMessage {
+  type: 'room_joined';
+  room: string;
+  username: string;
+  client_id: string;
+  participants: RoomParticipant[];
+  /** Глоссарий, подключённый к комнате */
+  glossary: GlossarySummary | null;
+  /** Обращение к получателям по языкам */
+  styles: TranslationStyles;
+  timestamp: string;
+}
+
+export interface RoomLeftMessage {
+  type: 'room_left';
+  room: string;
+  timestamp: string;
+}
+
+export interface UserJoinedMessage {
+  type: 'user_joined';
+  username: string;
+  participants: number;
+  roster: RoomParticipant[];
+  timestamp: string;
+}
+
+export interface UserLeftMessage {
+  type: 'user_left';
+  username: string;
+  participants: number;
+  roster: RoomParticipant[];
+  timestamp: string;
+}
+
+/** Участник сменил язык - обновлённый список */
+export interface UserUpdatedMessage {
+  type: 'user_updated';
+  username: string;
+  roster: RoomParticipant[];
+  timestamp: string;
+}
+
+/** Кто-то из участников подключил или отключил глоссарий комнаты */
+export interface GlossaryChangedMessage {
+  type: 'glossary_changed';
+  room: string;
+  username: string;
+  glossary: GlossarySummary | null;
+  timestamp: string;
+}
+
+/** Кто-то из участников поменял обращение к получателям */
+export interface StyleChangedMessage {
+  type: 'style_changed';
+  room: string;
+  username: string;
+  /** Язык, для которого поменяли; '*' - для всех */
+  language: string;
+  styles: TranslationStyles;
+  timestamp: string;
+}
+
+export type RoomErrorCode =
+  | 'invalid_request'
+  | 'username_taken'
+  | 'glossary_not_found'
+  | 'room_exists'
+  | 'passphrase_required'
+  | 'passphrase_invalid'
+  | 'invite_required'
+  | 'invite_invalid'
+  | 'invite_expired'
+  | 'too_many_attempts'
+  | 'not_room_owner'
+  | 'room_expired';
+
+/** Защищённая комната создана - токен владельца для входа без пароля */
+export interface RoomCreatedMessage {
+  type: 'room_created';
+  room: string;
+  owner_token: string;
+  /** Задан ли пароль; без него вход только по приглашению */
+  passphrase: boolean;
+  timestamp: string;
+}
+
+/** Приглашение от владельца - отправляется только ему */
+export interface InviteCreatedMessage {
+  type: 'invite_created';
+  room: string;
+  token: string;
+  expires_at: string;
+  timestamp: string;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  code: RoomErrorCode;
+  message: string;
+  timestamp: string;
+}
+
+export interface RoleConfirmedMessage {
+  type: 'role_confirmed';
+  role: string;
+  timestamp: string;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | TranslationMessage
+  | BacklogMessage
+  | RoomJoinedMessage
+  | RoomLeftMessage
+  | UserJoinedMessage
+  | UserLeftMessage
+  | UserUpdatedMessage
+  | GlossaryChangedMessage
+  | StyleChangedMessage
+  | RoomCreatedMessage
+  | InviteCreatedMessage
+  | RoleConfirmedMessage
+  | ErrorMessage;
+
+// ----------------------------------------
+// WebSocket: сообщения клиент → сервер
+// ----------------------------------------
+
+export interface JoinRoomRequest {
+  type: 'join_room';
+  room: string;
+  username: string;
+  /** Идентификатор вкладки - позволяет переподключиться под тем же именем */
+  session_id: string;
+  /** Язык, на который сервер переводит сообщения комнаты для этого участника */
+  language: string;
+  /** Последний полученный seq - сервер пришлёт только то, что после него */
+  resume_after?: number;
+  /** Для защищённой комнаты: пароль или токен (владельца либо приглашения) */
+  passphrase?: string;
+  token?: string;
+}
+
+/** Создать защищённую комнату и войти в неё владельцем */
+export interface CreateRoomRequest {
+  type: 'create_room';
+  /** Без кода сервер выдаст свободный */
+  room?: string;
+  username: string;
+  session_id: string;
+  language: string;
+  /** Без пароля войти можно только по приглашению */
+  passphrase?: string;
+}
+
+export interface CreateInviteRequest {
+  type: 'create_invite';
+  /** Срок действия, минуты (5 минут - 7 дней) */
+  ttl_minutes?: number;
+}
+
+export interface SetLanguageRequest {
+  type: 'set_language';
+  language: string;
+}
+
+export interface SetGlossaryRequest {
+  type: 'set_glossary';
+  /** null - отключить глоссарий */
+  glossary_id: string | null;
+}
+
+/** auto + unspecified снимают настройку */
+export interface SetStyleRequest extends TranslationStyle {
+  type: 'set_style';
+  /** Без языка - для всех получателей */
+  language?: string;
+}
+
+export interface LeaveRoomRequest {
+  type: 'leave_room';
+}
+
+export interface SetRoleRequest {
+  type: 'set_role';
+  role: string;
+}
+
+export interface TranslationRequest {
+  type: 'translation';
+  id: string;
+  original: string;
+  translation: string;
+  from: string;
+  to: string;
+  timestamp: string;
+}
+
+export type ClientMessage =
+  | JoinRoomRequest
+  | CreateRoomRequest
+  | CreateInviteRequest
+  | LeaveRoomRequest
+  | SetLanguageRequest
+  | SetGlossaryRequest
+  | SetStyleRequest
+  | SetRoleRequest
+  | TranslationRequest;
+
+export type SocketState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// ----------------------------------------
+// REST API
+// ----------------------------------------
+
+export interface ApiErrorBody {
+  status: 'error';
+  message: string;
+  timestamp?: string;
+}
+
+export interface TranslateRequest {
+  text: string;
+  source_language: string;
+  target_language: string;
+  /** Термины этого глоссария обязательны в переводе */
+  glossary_id?: string;
+  /** Проверить перевод обратным переводом */
+  verify?: boolean;
+  register?: Register;
+  addressee_gender?: AddresseeGender;
+  /** Предыдущие реплики разговора, от старых к новым */
+  context?: ContextTurn[];
+}
+
+/** Реплика разговора, помогающая перевести следующую («а второй?») */
+export interface ContextTurn {
+  speaker?: string;
+  language?: string;
+  text: string;
+}
+
+/** Проверка обратным переводом */
+export interface TranslationVerification {
+  back_translation: string;
+  /** Близость смысла обратного перевода и оригинала, 0..1 */
+  similarity: number;
+  threshold: number;
+  /** similarity ниже порога - смысл, вероятно, искажён */
+  drift: boolean;
+  provider: string;
+}
+
+export interface TranslateResponse {
+  status: 'success';
+  original_text: string;
+  translated_text: string;
+  source_language: string;
+  target_language: string;
+  /** Уверенность модели; null - модель её не сообщила */
+  confidence: number | null;
+  timestamp: string;
+  processing_time: number;
+  provider: string;
+  from_cache: boolean;
+  /** Только если запрос был с glossary_id */
+  glossary_id?: string;
+  glossary_terms_applied?: GlossaryTerm[];
+  /** Только если запрос был с verify */
+  verification?: TranslationVerification;
+}
+
+/** Пакетный перевод: сегменты с общей парой языков */
+export interface BatchTranslateRequest {
+  segments: string[];
+  source_language: string;
+  target_language: string;
+  glossary_id?: string;
+  register?: Register;
+  addressee_gender?: AddresseeGender;
+}
+
+/** Результат сегмента: перевод как у /translate или ошибка только этого сегмента */
+export type BatchSegmentResult =
+  | (TranslateResponse & { index: number })
+  | (ApiErrorBody & { index: number });
+
+export interface BatchTranslateResponse {
+  status: 'success';
+  source_language: string;
+  target_language: string;
+  /** В порядке segments */
+  results: BatchSegmentResult[];
+  summary: {
+    segments: number;
+    from_cache: number;
+    failed: number;
+    provider_calls: number;
+  };
+  processing_time: number;
+  timestamp: string;
+}
+
+export interface DetectLanguageResponse {
+  status: 'success';
+  detected_language: string;
+  confidence: number;
+  provider: string;
+}
+
+export interface Language {
+  code: string;
+  name: string;
+  flag: string;
+  nativeName: string;
+  locale: string;
+}
+
+export interface LanguagesResponse {
+  status: 'success';
+  count: number;
+  languages: Language[];
+  service: string;
+}
+
+export interface VoiceTranslateRequest {
+  audio: Blob;
+  fileName?: string;
+  fromLang: string;
+  toLang: string;
+}
+
+export interface VoiceTranslateResponse {
+  status: 'success';
+  originalText: string;
+  translatedText: string;
+  audioUrl: string | null;
+  fromLanguage: string;
+  toLanguage: string;
+  processingTime: number;
+  confidence: number;
+  /** Провайдер перевода */
+  provider: string;
+  transcriptionProvider: string;
+}
+
+export interface TranscribeRequest {
+  audio: Blob;
+  fileName?: string;
+  /** Язык речи в клипе */
+  language: string;
+}
+
+export interface TranscribeResponse {
+  status: 'success';
+  text: string;
+  language: string;
+  provider: string;
+}
+
+// ----------------------------------------
+// Глоссарии
+// ----------------------------------------
+
+/** Пара терминов; в ответе перевода - уже в направлении перевода */
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export interface GlossaryEntry extends GlossaryTerm {
+  note?: string;
+}
+
+/** Глоссарий без терминов - для списков и для комнаты */
+export interface GlossarySummary {
+  id: string;
+  name: string;
+  source_language: string;
+  target_language: string;
+}
+
+export interface Glossary extends GlossarySummary {
+  entries: GlossaryEntry[];
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GlossaryListItem extends Omit<Glossary, 'entries'> {
+  entry_count: number;
+}
+
+export interface GlossaryInput {
+  name: string;
+  source_language: string;
+  target_language: string;
+  entries: GlossaryEntry[];
+}
+
+export interface GlossariesResponse {
+  status: 'success';
+  count: number;
+  glossaries: GlossaryListItem[];
+}
+
+export interface GlossaryResponse {
+  status: 'success';
+  glossary: Glossary;
+}
+
+export interface SpeechRequest {
+  text: string;
+  language: string;
+  voice?: string;
+  speed?: number;
+}
+
+export interface SpeechResponse {
+  status: 'success';
+  audioUrl: string;
+  language: string;
+  voice: string;
+  duration: number;
+  processingTime: number;
+  /** mock-tts - ключа OpenAI нет, файл беззвучный */
+  provider: string;
+}
+
+export interface VoicesResponse {
+  status: 'success';
+  enabled: boolean;
+  voices: string[];
+  languages: Record<string, { name: string; defaultVoice: string }>;
+}
+
+export interface HealthResponse {
+  status: 'healthy';
+  service: string;
+  version: string;
+  websocket_clients: number;
+  cache_size: number;
+  openai_configured: boolean;
+  uptime: number;
+  timestamp: string;
+}
+
+export interface StatsResponse {
+  status: 'success';
+  stats: {
+    cache_size: number;
+    websocket_clients: number;
+    uptime: number;
+    version: string;
+  };
+}
@@ -0,0 +1,30 @@
+// src/utils/exportConversation.test.ts
+import { describe, expect, it } from 'vitest';
+import { toPrintableHtml } from './exportConversation';
+import { englishConfig } from '../config/languages';
+import type { ConversationEntry } from '../types';
+
+const entry = (patch: Partial<ConversationEntry>): ConversationEntry => ({
+  id: 'm-1',
+  room: 'ABCDE',
+  speaker: 'Jan',
+  from: 'PL',
+  to: 'RU',
+  text: 'Dzień dobry',
+  translation: 'Добрый день',
+  timestamp: '2025-10-03T10:00:00.000Z',
+  ...patch
+});
+
+describe('toPrintableHtml', () => {
+  it('escapes everything a room participant controls', () => {
+    const payload = '<img src=x onerror=alert(1)>';
+    const html = toPrintableHtml(
+      [entry({ from: payload, to: `"${payload}`, speaker: payload, text: payload, translation: payload })],
+      { title: 'Consultation', room: payload, text: englishConfig }
+    );
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt; → &quot;&lt;img');
+  });
+});
@@ -0,0 +1,262 @@
+// ========================================
+// Экспорт разговора: Markdown, JSON, SRT/WebVTT, HTML для печати
+// ========================================
+// src/utils/exportConversation.ts
+import type { ConversationEntry } from '../types';
+import type { LanguageConfig } from '../config/types';
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt' | 'html';
+
+export interface ExportMeta {
+  title: string;
+  room: string | null;
+  exportedAt?: Date;
+  /** Язык интерфейса: подписи, локаль дат и направление текста */
+  text: LanguageConfig;
+}
+
+// Примерная скорость речи для длительности субтитра, если следующей реплики нет
+const CHARS_PER_SECOND = 15;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+
+const formatDateTime = (iso: string, locale: string) => new Date(iso).toLocaleString(locale);
+
+const formatTime = (iso: string, locale: string) =>
+  new Date(iso).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const sortEntries = (entries: ConversationEntry[]) =>
+  [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+const languagesOf = (entries: ConversationEntry[]) =>
+  Array.from(new Set(entries.flatMap(entry => [entry.from, entry.to]))).join(', ');
+
+// ----------------------------------------
+// Markdown
+// ----------------------------------------
+
+const escapeMarkdownCell = (text: string) =>
+  text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export function toMarkdown(entries: ConversationEntry[], meta: ExportMeta): string {
+  const labels = meta.text.exportDocument;
+  const { locale } = meta.text.meta;
+  const sorted = sortEntries(entries);
+  const lines = [
+    `# ${meta.title}`,
+    '',
+    ...(meta.room ? [`- **${labels.room}:** ${meta.room}`] : []),
+    `- **${labels.languages}:** ${languagesOf(sorted) || '—'}`,
+    ...(sorted.length > 0 ? [`- **${labels.started}:** ${formatDateTime(sorted[0].timestamp, locale)}`] : []),
+    `- **${labels.exported}:** ${(meta.exportedAt ?? new Date()).toLocaleString(locale)}`,
+    '',
+    `| ${labels.time} | ${labels.speaker} | ${labels.languages} | ${labels.original} | ${labels.translation} |`,
+    '|---|---|---|---|---|',
+    ...sorted.map(entry =>
+      `| ${formatTime(entry.timestamp, locale)} | ${escapeMarkdownCell(entry.speaker)} | ${entry.from} → ${entry.to} | ` +
+      `${escapeMarkdownCell(entry.text)} | ${escapeMarkdownCell(entry.translation)} |`
+    ),
+    ''
+  ];
+  return lines.join('\n');
+}
+
+// ----------------------------------------
+// JSON
+// ----------------------------------------
+
+export function toJSON(entries: ConversationEntry[], meta: ExportMeta): string {
+  return JSON.stringify({
+    format: 'dashka-conversation',
+    version: 1,
+    title: meta.title,
+    room: meta.room,
+    exported_at: (meta.exportedAt ?? new Date()).toISOString(),
+    entries: sortEntries(entries).map(entry => ({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      speaker: entry.speaker,
+      source_language: entry.from,
+      target_language: entry.to,
+      original_text: entry.text,
+      translated_text: entry.translation
+    }))
+  }, null, 2);
+}
+
+// ----------------------------------------
+// Субтитры
+// ----------------------------------------
+
+interface Cue {
+  start: number;
+  end: number;
+  entry: ConversationEntry;
+}
+
+/** Время реплик относительно первой; конец - начало следующей или оценка по длине текста */
+const buildCues = (entries: ConversationEntry[]): Cue[] => {
+  const sorted = sortEntries(entries);
+  if (sorted.length === 0) return [];
+
+  const origin = Date.parse(sorted[0].timestamp);
+  return sorted.map((entry, index) => {
+    const start = Date.parse(entry.timestamp) - origin;
+    const estimated = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, (entry.text.length / CHARS_PER_SECOND) * 1000));
+    const next = sorted[index + 1];
+    const nextStart = next ? Date.parse(next.timestamp) - origin : Infinity;
+    const end = Math.max(start + 1, Math.min(start + estimated, nextStart));
+    return { start, end, entry };
+  });
+};
+
+const formatCueTime = (ms: number, separator: ',' | '.') => {
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, '0');
+  return `${pad(ms / 3600000)}:${pad((ms % 3600000) / 60000)}:${pad((ms % 60000) / 1000)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export function toSRT(entries: ConversationEntry[]): string {
+  return buildCues(entries)
+    .map(({ start, end, entry }, index) => [
+      String(index + 1),
+      `${formatCueTime(start, ',')} --> ${formatCueTime(end, ',')}`,
+      `${entry.speaker}: ${entry.text}`,
+      entry.translation,
+      ''
+    ].join('\n'))
+    .join('\n');
+}
+
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toVTT(entries: ConversationEntry[]): string {
+  const cues = buildCues(entries).map(({ start, end, entry }) => [
+    `${formatCueTime(start, '.')} --> ${formatCueTime(end, '.')}`,
+    `<v ${escapeVtt(entry.speaker)}>${escapeVtt(entry.text)}`,
+    `<i>${escapeVtt(entry.translation)}</i>`,
+    ''
+  ].join('\n'));
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+// ----------------------------------------
+// HTML для печати и подписи
+// ----------------------------------------
+
+// Всё, что попадает в HTML, - через escapeHtml: языки и имена приходят от других участников комнаты
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '<br>');
+
+export function toPrintableHtml(entries: ConversationEntry[], meta: ExportMeta): string {
+  const labels = meta.text.exportDocument;
+  const { locale, direction } = meta.text.meta;
+  const sorted = sortEntries(entries);
+  const rows = sorted.map(entry => `
+      <tr>
+        <td class="meta">${escapeHtml(formatTime(entry.timestamp, locale))}<br><strong>${escapeHtml(entry.speaker)}</strong><br>${escapeHtml(entry.from)} → ${escapeHtml(entry.to)}</td>
+        <td>${escapeHtml(entry.text)}</td>
+        <td>${escapeHtml(entry.translation)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}" dir="${escapeHtml(direction)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(meta.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  .details { color: #555; margin-bottom: 1.5rem; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  th, td { border: 1px solid #bbb; padding: 0.5rem; vertical-align: top; text-align: start; }
+  th { background: #f0f0f0; }
+  td.meta { width: 9rem; font-size: 0.85rem; color: #444; }
+  tr { page-break-inside: avoid; }
+  .signatures { display: flex; gap: 3rem; margin-top: 3rem; }
+  .signature { flex: 1; border-top: 1px solid #111; padding-top: 0.25rem; font-size: 0.85rem; }
+  @media print { body { margin: 0; } th { background: #eee !important; -webkit-print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(meta.title)}</h1>
+  <div class="details">
+    ${meta.room ? `${escapeHtml(labels.room)}: ${escapeHtml(meta.room)} · ` : ''}${escapeHtml(labels.languages)}: ${escapeHtml(languagesOf(sorted) || '—')}
+    ${sorted.length > 0 ? ` · ${escapeHtml(formatDateTime(sorted[0].timestamp, locale))}` : ''}
+  </div>
+  <table>
+    <thead><tr><th class="meta">${escapeHtml(labels.timeAndSpeaker)}</th><th>${escapeHtml(labels.original)}</th><th>${escapeHtml(labels.translation)}</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <div class="signatures">
+    <div class="signature">${escapeHtml(labels.clientSignature)}</div>
+    <div class="signature">${escapeHtml(labels.consultantSignature)}</div>
+  </div>
+</body>
+</html>`;
+}
+
+// ----------------------------------------
+// Выгрузка
+// ----------------------------------------
+
+const EXTENSIONS: Record<ExportFormat, { extension: string; mime: string }> = {
+  markdown: { extension: 'md', mime: 'text/markdown' },
+  json: { extension: 'json', mime: 'application/json' },
+  srt: { extension: 'srt', mime: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mime: 'text/vtt' },
+  html: { extension: 'html', mime: 'text/html' }
+};
+
+export function renderConversation(format: ExportFormat, entries: ConversationEntry[], meta: ExportMeta): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(entries, meta);
+    case 'json':
+      return toJSON(entries, meta);
+    case 'srt':
+      return toSRT(entries);
+    case 'vtt':
+      return toVTT(entries);
+    case 'html':
+      return toPrintableHtml(entries, meta);
+  }
+}
+
+const fileNameFor = (meta: ExportMeta, format: ExportFormat) => {
+  const date = (meta.exportedAt ?? new Date()).toISOString().slice(0, 10);
+  const base = meta.room ? `dashka-${meta.room}-${date}` : `dashka-${date}`;
+  return `${base.replace(/[^\w.-]+/g, '_')}.${EXTENSIONS[format].extension}`;
+};
+
+export function downloadConversation(format: ExportFormat, entries: ConversationEntry[], meta: ExportMeta) {
+  const content = renderConversation(format, entries, meta);
+  const blob = new Blob([content], { type: `${EXTENSIONS[format].mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileNameFor(meta, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Открывает HTML-версию в новом окне и вызывает печать */
+export function printConversation(entries: ConversationEntry[], meta: ExportMeta): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(toPrintableHtml(entries, meta));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.onload = () => printWindow.print();
+  return true;
+}